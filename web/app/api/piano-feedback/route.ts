@@ -1,23 +1,6 @@
 import { NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
-
-// ── Types ────────────────────────────────────────────────────────────
-
-type PracticeSummary = {
-  pieceTitle: string;
-  mode: "discrete" | "continuous" | "flowing";
-  totalSteps: number;
-
-  attempts: number;
-  hits: number;
-  wrongs: number;
-  accuracyPct: number;
-
-  topWrong: { midi: number; note: string; count: number }[];
-  topMissed: { midi: number; note: string; count: number }[];
-  hotspots: { step: number; fails: number }[];
-  playbackSpeed: number;
-};
+import { getFeedbackProvider } from "@/lib/feedback";
+import type { PracticeSummary } from "@/lib/piano/practice-summary";
 
 // ── Prompt builders ──────────────────────────────────────────────────
 
@@ -27,6 +10,20 @@ function describeSummary(s: PracticeSummary): string {
   lines.push(`Piece: "${s.pieceTitle}"`);
   lines.push(`Practice mode: ${s.mode}`);
   lines.push(`Playback speed: ${s.playbackSpeed}x`);
+  if (s.difficulty) {
+    const d = s.difficulty.settings;
+    lines.push(
+      s.mode === "flowing"
+        ? `Difficulty: ${s.difficulty.profile} (Perfect within ${d.perfectMs}ms, Great ${d.greatMs}ms, Okay ${d.okayMs}ms)`
+        : `Difficulty: ${s.difficulty.profile}`,
+    );
+  }
+  if (s.latencyCompensationMs) {
+    lines.push(
+      `Timing has been corrected for ${s.latencyCompensationMs}ms of measured keyboard/audio latency, ` +
+      `so early/late tendencies reflect the student, not their equipment.`,
+    );
+  }
   lines.push(`The piece has ${s.totalSteps} note steps in total.`);
 
   if (s.mode === "flowing") {
@@ -65,6 +62,25 @@ function describeSummary(s: PracticeSummary): string {
     lines.push(`(Note: Steps represent positions in the song — step 0 is the very beginning, and higher step numbers are further into the piece. If there are ${s.totalSteps} total steps, a hotspot at step ${Math.round(s.totalSteps / 2)} would be roughly halfway through.)`);
   }
 
+  if (s.dynamics) {
+    const d = s.dynamics;
+    lines.push(
+      `Dynamics (key velocity compared with the score, ${d.judged} notes judged): ` +
+      `${d.matched} matched, ${d.tooSoft} too soft, ${d.tooLoud} too loud ` +
+      `(average difference ${d.avgVelocityDelta > 0 ? "+" : ""}${d.avgVelocityDelta}/127).`,
+    );
+  }
+
+  if (s.release) {
+    const r = s.release;
+    lines.push(
+      `Note lengths (key release compared with the score, ${r.judged} notes judged): ` +
+      `${r.good} held correctly, ${r.early} released early, ${r.late} held too long.`,
+    );
+    if (r.legatoAccuracy !== null) lines.push(`Legato notes held to full length: ${r.legatoAccuracy}%.`);
+    if (r.staccatoAccuracy !== null) lines.push(`Staccato notes released in time: ${r.staccatoAccuracy}%.`);
+  }
+
   return lines.join("\n");
 }
 
@@ -81,7 +97,13 @@ Context:
 - "wrong notes" = keys the student pressed that were not expected.
 - "missed notes" = expected keys the student failed to press.
 - "hotspots" = specific steps (parts of the song) where the student failed most often.
+- "difficulty" = how strictly the run was judged (beginner is lenient, expert is strict);
+  results on a stricter profile deserve more credit.
 - "playback speed" = the speed at which the song was played (1x is normal speed, <1x is slower, >1x is faster).
+- "dynamics" (only when present) = how hard the student struck the keys compared with the
+  velocities in the score; mention it briefly if many notes were too soft or too loud.
+- "note lengths" (only when present) = whether the student held each key for as long as
+  the score asks; "legato" / "staccato" accuracy covers the connected and detached notes.
 
 Student's results from this practice run:
 ${describeSummary(summary)}
@@ -100,6 +122,59 @@ Requirements:
 `.trim();
 }
 
+// ── Streaming ────────────────────────────────────────────────────────
+
+/** Re-chunk model output into whole words (plus trailing whitespace). */
+async function* words(chunks: AsyncIterable<string>) {
+  let buffer = "";
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const match = buffer.match(/^[\s\S]*\s/);
+    if (!match) continue;
+    for (const word of match[0].match(/\s*\S+\s+|\s+/g) ?? []) yield word;
+    buffer = buffer.slice(match[0].length);
+  }
+  if (buffer) yield buffer;
+}
+
+/**
+ * Stream the feedback as chunked plain text, one word per chunk. The first
+ * word is awaited up front so provider errors (bad key, quota) still come
+ * back as a JSON 500 rather than a truncated stream.
+ */
+async function streamResponse(chunks: AsyncIterable<string>) {
+  const iterator = words(chunks)[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) controller.close();
+      else controller.enqueue(encoder.encode(first.value));
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value));
+      } catch (err) {
+        console.error("[piano-feedback] stream", err);
+        controller.error(err);
+      }
+    },
+    cancel() {
+      iterator.return?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
 // ── Handler ──────────────────────────────────────────────────────────
 
 export async function POST(req: Request) {
@@ -109,10 +184,13 @@ export async function POST(req: Request) {
     // Determine which payload shape was sent:
     //   { summary: PracticeSummary }  — from PracticeTab
     //   { prompt: string }            — from PracticeModal / usePianoCoach
+    // Add `stream: true` to get a chunked text/plain response instead of JSON.
     let prompt: string;
+    let summary: PracticeSummary | undefined;
 
     if (body?.summary && typeof body.summary === "object") {
-      prompt = buildSummaryPrompt(body.summary as PracticeSummary);
+      summary = body.summary as PracticeSummary;
+      prompt = buildSummaryPrompt(summary);
     } else if (body?.prompt && typeof body.prompt === "string") {
       prompt = body.prompt;
     } else {
@@ -122,13 +200,13 @@ export async function POST(req: Request) {
       );
     }
 
-    const ai = new GoogleGenAI({});
-    const resp = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-    });
+    const provider = getFeedbackProvider();
+
+    if (body?.stream === true) {
+      return await streamResponse(provider.stream({ prompt, summary }));
+    }
 
-    const text = (resp.text ?? "").trim();
+    const text = (await provider.generate({ prompt, summary })).trim();
     return NextResponse.json({ text });
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : "Unknown error";
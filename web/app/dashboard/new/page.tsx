@@ -6,7 +6,8 @@ import { SakuraBackground } from "@/components/SakuraBackground";
 import Link from "next/link";
 import { Upload } from "lucide-react";
 import { createClient } from "@/lib/supabase/client";
-import { ChevronLeft } from "lucide-react";
+import { isMusicXmlFile, musicXmlFileToMidi } from "@/lib/piano/musicxml";
+import { ChevronLeft, Circle } from "lucide-react";
 
 const BUCKET = "sheet-music";
 const SCORES = "scores";
@@ -21,14 +22,15 @@ export default function NewCompositionPage() {
     try {
       setStatus("Uploading...");
 
-      // Only allow MIDI (adjust if you want mp3/wav too)
+      // Allow MIDI, or MusicXML which is converted to MIDI below
       const name = file.name.toLowerCase();
       const isMidi =
         file.type === "audio/midi" ||
         name.endsWith(".mid") ||
         name.endsWith(".midi");
-      if (!isMidi) {
-        setStatus("Please upload a MIDI file (.mid or .midi).");
+      const isMusicXml = isMusicXmlFile(name);
+      if (!isMidi && !isMusicXml) {
+        setStatus("Please upload a MIDI (.mid, .midi) or MusicXML (.musicxml, .mxl) file.");
         return;
       }
 
@@ -50,33 +52,53 @@ export default function NewCompositionPage() {
       }
 
       const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
-      const path = `${user.id}/uploads/${crypto.randomUUID()}-${safeName}`;
-
-      const { data, error } = await supabase.storage
-        .from(BUCKET)
-        .upload(path, file, {
-          contentType: "audio/midi",
-          upsert: false,
-        });
-
-      if (error) {
-        console.log("Upload error:", error);
-        setStatus(`Upload failed: ${error.message}`);
-        return;
+      const uploadId = crypto.randomUUID();
+
+      const upload = async (path: string, body: Blob, contentType: string) => {
+        const { data, error } = await supabase.storage
+          .from(BUCKET)
+          .upload(path, body, { contentType, upsert: false });
+        if (error) {
+          console.log("Upload error:", error);
+          setStatus(`Upload failed: ${error.message}`);
+          return null;
+        }
+        return supabase.storage.from(BUCKET).getPublicUrl(data.path).data.publicUrl;
+      };
+
+      let url: string | null;
+      let sourceUrl: string | null = null;
+      let title = safeName;
+
+      if (isMusicXml) {
+        // Convert first so a bad file fails before anything is uploaded
+        setStatus("Converting MusicXML...");
+        const midi = await musicXmlFileToMidi(file);
+        if (midi.name) title = midi.name;
+
+        // Keep the original score alongside the converted MIDI
+        setStatus("Uploading...");
+        const sourcePath = `${user.id}/uploads/${uploadId}-${safeName}`;
+        sourceUrl = await upload(sourcePath, file, file.type || "application/vnd.recordare.musicxml");
+        if (!sourceUrl) return;
+        url = await upload(
+          `${user.id}/uploads/${uploadId}-${safeName.replace(/\.[^.]+$/, "")}.mid`,
+          new Blob([new Uint8Array(midi.toArray())], { type: "audio/midi" }),
+          "audio/midi",
+        );
+        if (!url) await supabase.storage.from(BUCKET).remove([sourcePath]);
+      } else {
+        url = await upload(`${user.id}/uploads/${uploadId}-${safeName}`, file, "audio/midi");
       }
-
-      const { data: signed } = await supabase.storage
-        .from(BUCKET)
-        .getPublicUrl(data.path);
-
-      const url = signed.publicUrl;
+      if (!url) return;
 
       const scoreId = crypto.randomUUID();
       const { error: scoreErr } = await supabase.from(SCORES).insert({
         id: scoreId,
         user_id: user.id,
-        title: safeName,
+        title,
         file_url: url,
+        source_file_url: sourceUrl,
       });
 
       if (scoreErr) {
@@ -109,14 +131,14 @@ export default function NewCompositionPage() {
 
       <div className="z-10 flex flex-col items-center w-full max-w-2xl text-center space-y-6">
         <h1 className="text-4xl font-serif text-[#2D3142]">New Composition</h1>
-        <p className="text-slate-500">Drop your MIDI file to begin</p>
+        <p className="text-slate-500">Drop your MIDI or MusicXML file to begin</p>
 
         {/* Hidden file input for click-to-upload */}
         <input
           ref={fileInputRef}
           type="file"
           className="hidden"
-          accept=".mid,.midi,audio/midi"
+          accept=".mid,.midi,audio/midi,.musicxml,.xml,.mxl"
           onChange={(e) => {
             const file = e.target.files?.[0];
             if (file) uploadFile(file);
@@ -148,9 +170,17 @@ export default function NewCompositionPage() {
           <p className="text-[#2D3142] font-medium text-lg">
             Drag & drop or click to upload
           </p>
-          <span className="text-sm text-slate-400">MIDI • Max 50MB</span>
+          <span className="text-sm text-slate-400">MIDI • MusicXML • Max 50MB</span>
         </div>
 
+        <Link
+          href="/dashboard/record"
+          className="inline-flex items-center gap-2 text-sm font-medium text-pink-400 hover:text-pink-500 transition-colors"
+        >
+          <Circle className="w-3.5 h-3.5 fill-current" />
+          Or record a performance from your MIDI keyboard
+        </Link>
+
         {status && (
           <pre className="whitespace-pre-wrap text-left bg-white/70 border border-pink-100 p-4 rounded-xl w-full">
             {status}
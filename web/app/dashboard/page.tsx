@@ -7,6 +7,7 @@ import { useRouter } from "next/navigation";
 import { LogoutButton } from "@/components/logout-button";
 import Link from "next/link";
 import { SakuraBackground } from "@/components/SakuraBackground";
+import { TodaysDrills } from "@/components/TodaysDrills";
 
 const BUCKET = "sheet-music";
 
@@ -14,6 +15,7 @@ type Score = {
   id: string;
   title: string | null;
   file_url: string | null;
+  source_file_url?: string | null;
   created_at: string | null;
   user_id?: string | null;
 };
@@ -39,7 +41,7 @@ export default function DashboardPage() {
       if (userErr || !user) { setScores([]); setLoading(false); return; }
       const { data, error } = await supabase
         .from("scores")
-        .select("id,title,file_url,created_at,user_id")
+        .select("id,title,file_url,source_file_url,created_at,user_id")
         .eq("user_id", user.id)
         .order("created_at", { ascending: false });
       if (error) console.error("Error fetching scores:", error);
@@ -56,7 +58,10 @@ export default function DashboardPage() {
       if (!score.file_url) { alert("This composition has no file path stored."); return; }
       const storagePath = toStoragePath(score.file_url);
       if (!storagePath) { alert("Could not extract a storage path from file_url."); console.error("Bad file_url:", score.file_url); return; }
-      const { error: storageErr } = await supabase.storage.from(BUCKET).remove([storagePath]);
+      // Converted scores also keep their original upload (e.g. MusicXML)
+      const sourcePath = score.source_file_url ? toStoragePath(score.source_file_url) : "";
+      const paths = sourcePath ? [storagePath, sourcePath] : [storagePath];
+      const { error: storageErr } = await supabase.storage.from(BUCKET).remove(paths);
       if (storageErr) { console.error("Storage delete failed:", storageErr); alert(`Failed to delete file from storage: ${storageErr.message}`); return; }
       const { error: dbErr } = await supabase.from("scores").delete().eq("id", score.id);
       if (dbErr) { console.error("DB delete failed:", dbErr); alert(`Deleted file, but failed to delete DB row: ${dbErr.message}`); return; }
@@ -93,6 +98,8 @@ export default function DashboardPage() {
             < p className="text-sakura-dark/50 text-lg">Your collection of music compositions</p>
           </div>
 
+          <TodaysDrills />
+
 
         {loading ? (
           <div className="text-sakura-dark/60 text-lg">Loading your sonatas...</div>
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { ChevronLeft, Circle, Square, Save, Trash2, Loader2, Piano, Music, FileMusic } from "lucide-react";
+import { SakuraBackground } from "@/components/SakuraBackground";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { AudioPlayerTab } from "@/components/AudioPlayerTab";
+import { FallingNotesTab } from "@/components/FallingNotesTab";
+import { ScoreTab } from "@/components/ScoreTab";
+import { createClient } from "@/lib/supabase/client";
+import { useMidiRecorder } from "@/lib/hooks/useMidiRecorder";
+import { useMidiPlayer } from "@/lib/hooks/useMidiPlayer";
+import { splendidPiano } from "@/lib/piano";
+
+const BUCKET = "sheet-music";
+const SCORES = "scores";
+
+const TAB_TRIGGER_CLASS =
+  "flex-1 gap-1.5 rounded-lg data-[state=active]:bg-white data-[state=active]:text-pink-600 data-[state=active]:shadow-sm text-slate-500 transition-all text-sm";
+
+export default function RecordPage() {
+  const supabase = useMemo(() => createClient(), []);
+  const router = useRouter();
+  const { state: recorder, controls: recorderControls } = useMidiRecorder();
+  const { status, midiDevices, activeDevice, elapsed, noteCount, pedalDown, recording, error } = recorder;
+
+  // Preview the take with the same player the tutorial page uses
+  const { state, controls, refs } = useMidiPlayer(undefined, splendidPiano, recording);
+  const [title, setTitle] = useState("");
+  const [saveStatus, setSaveStatus] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (recording) setTitle(recording.name);
+  }, [recording]);
+
+  const handleRecord = () => {
+    controls.stopPlayback();
+    setSaveStatus("");
+    recorderControls.start();
+  };
+
+  const handleSave = async () => {
+    if (!recording) return;
+    try {
+      setSaving(true);
+      setSaveStatus("Uploading...");
+
+      const {
+        data: { user },
+        error: userErr,
+      } = await supabase.auth.getUser();
+
+      if (userErr || !user) {
+        setSaveStatus("You must be logged in to save a recording.");
+        return;
+      }
+
+      const name = title.trim() || recording.name;
+      recording.name = name;
+      const safeName = name.replace(/[^a-zA-Z0-9._-]/g, "_");
+      const path = `${user.id}/recordings/${crypto.randomUUID()}-${safeName}.mid`;
+
+      const { data, error: uploadErr } = await supabase.storage
+        .from(BUCKET)
+        .upload(path, new Blob([new Uint8Array(recording.toArray())], { type: "audio/midi" }), {
+          contentType: "audio/midi",
+          upsert: false,
+        });
+      if (uploadErr) {
+        console.log("Upload error:", uploadErr);
+        setSaveStatus(`Upload failed: ${uploadErr.message}`);
+        return;
+      }
+      const url = supabase.storage.from(BUCKET).getPublicUrl(data.path).data.publicUrl;
+
+      const scoreId = crypto.randomUUID();
+      const { error: scoreErr } = await supabase.from(SCORES).insert({
+        id: scoreId,
+        user_id: user.id,
+        title: name,
+        file_url: url,
+      });
+
+      if (scoreErr) {
+        console.log("Score database upload error:", scoreErr);
+        await supabase.storage.from(BUCKET).remove([data.path]);
+        setSaveStatus("Score database upload error");
+        return;
+      }
+
+      setSaveStatus("");
+      router.push(`/tutorial/${scoreId}`);
+    } catch (e) {
+      setSaveStatus(`Save error: ${e instanceof Error ? e.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isRecording = status === "recording";
+
+  return (
+    <div className="relative min-h-screen w-full bg-[#FFF6EB] flex flex-col items-center overflow-hidden p-6">
+      <div className="absolute inset-0 z-0 pointer-events-none">
+        <SakuraBackground />
+      </div>
+
+      <div className="z-10 w-full max-w-6xl">
+        <Link
+          href="/dashboard/new"
+          className="inline-flex items-center gap-2 mb-6 text-slate-400 hover:text-pink-400 transition-colors font-medium text-sm group"
+        >
+          <ChevronLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+          Back to New Composition
+        </Link>
+      </div>
+
+      <div className="z-10 w-full max-w-6xl bg-white/70 backdrop-blur-md border border-pink-100 rounded-3xl p-8 md:p-10 space-y-8">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl md:text-4xl font-serif text-[#2D3142]">Record a Performance</h1>
+          <p className="text-slate-500">Play on your MIDI keyboard — notes, velocity and sustain pedal are captured.</p>
+        </div>
+
+        {/* Device + transport */}
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          <select
+            value={activeDevice ?? ""}
+            onChange={(e) => recorderControls.setActiveDevice(e.target.value)}
+            disabled={isRecording || midiDevices.length === 0}
+            className="rounded-full border border-pink-200 bg-white px-3 py-2 text-sm text-[#2D3142] disabled:opacity-40"
+            aria-label="MIDI input"
+          >
+            {midiDevices.length === 0 && <option value="">No MIDI devices found</option>}
+            {midiDevices.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name}
+              </option>
+            ))}
+          </select>
+
+          {isRecording ? (
+            <button
+              onClick={recorderControls.stop}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-slate-700 hover:bg-slate-800 text-white text-sm font-medium transition"
+            >
+              <Square className="w-4 h-4" />
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleRecord}
+              disabled={midiDevices.length === 0}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-red-500 hover:bg-red-600 text-white text-sm font-medium transition disabled:opacity-40"
+            >
+              <Circle className="w-4 h-4 fill-current" />
+              {recording ? "Record again" : "Record"}
+            </button>
+          )}
+
+          <span className="text-sm text-slate-500 tabular-nums">
+            {controls.formatTime(elapsed)} · {noteCount} note{noteCount !== 1 && "s"}
+          </span>
+          {isRecording && (
+            <span
+              className={`rounded-full px-2.5 py-1 text-[11px] font-medium border ${
+                pedalDown ? "bg-pink-400 border-pink-400 text-white" : "bg-white border-pink-200 text-pink-400"
+              }`}
+            >
+              Pedal
+            </span>
+          )}
+        </div>
+
+        {error && <p className="text-center text-sm text-red-500">{error}</p>}
+
+        {/* Save */}
+        {recording && !isRecording && (
+          <div className="flex flex-wrap items-center justify-center gap-3">
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-72 rounded-full border border-pink-200 bg-white px-4 py-2 text-sm text-[#2D3142] outline-none focus:ring-2 focus:ring-pink-200"
+              placeholder="Title"
+              aria-label="Recording title"
+            />
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-green-500 hover:bg-green-600 text-white text-sm font-medium transition disabled:opacity-40"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save to My Sonatas
+            </button>
+            <button
+              onClick={() => {
+                controls.stopPlayback();
+                recorderControls.discard();
+              }}
+              disabled={saving}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-white border border-pink-200 text-pink-400 hover:bg-pink-50 text-sm font-medium transition disabled:opacity-40"
+            >
+              <Trash2 className="w-4 h-4" />
+              Discard
+            </button>
+          </div>
+        )}
+
+        {saveStatus && (
+          <pre className="whitespace-pre-wrap text-left bg-white/70 border border-pink-100 p-4 rounded-xl w-full">
+            {saveStatus}
+          </pre>
+        )}
+
+        {/* Preview */}
+        {recording && !isRecording && state.loadState === "loading" && (
+          <div className="flex flex-col items-center justify-center py-12 gap-3">
+            <Loader2 className="w-10 h-10 text-pink-400 animate-spin" />
+            <p className="text-slate-400 text-sm">Loading piano samples…</p>
+          </div>
+        )}
+
+        {recording && !isRecording && state.loadState === "ready" && (
+          <Tabs defaultValue="falling-notes" className="w-full">
+            <TabsList className="w-full justify-center bg-pink-50/80 border border-pink-100 rounded-xl p-1">
+              <TabsTrigger value="falling-notes" className={TAB_TRIGGER_CLASS}>
+                <Piano className="w-4 h-4" />
+                Falling Notes
+              </TabsTrigger>
+              <TabsTrigger value="audio-player" className={TAB_TRIGGER_CLASS}>
+                <Music className="w-4 h-4" />
+                Audio Player
+              </TabsTrigger>
+              <TabsTrigger value="score" className={TAB_TRIGGER_CLASS}>
+                <FileMusic className="w-4 h-4" />
+                Score
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="falling-notes" className="mt-4">
+              <FallingNotesTab
+                state={state}
+                controls={controls}
+                playbackSpeed={state.playbackSpeed}
+                midiRef={refs.midiRef}
+                pianoFactory={splendidPiano}
+              />
+            </TabsContent>
+
+            <TabsContent value="audio-player" className="mt-4">
+              <AudioPlayerTab
+                state={state}
+                controls={controls}
+                midiRef={refs.midiRef}
+                pianoFactory={splendidPiano}
+              />
+            </TabsContent>
+
+            <TabsContent value="score" className="mt-4">
+              <ScoreTab state={state} controls={controls} beatGridRef={refs.beatGridRef} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,16 @@
 "use client";
 
-import { Suspense, useState, useCallback, useEffect } from "react";
-import { useParams } from "next/navigation";
+import { Suspense, useState, useCallback, useEffect, useRef } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { ChevronLeft, Loader2, Music, Piano, Maximize2, Minimize2, Volume2, Gamepad2 } from "lucide-react";
+import { ChevronLeft, Loader2, Music, Piano, Maximize2, Minimize2, Volume2, Gamepad2, TrendingUp, FileMusic, Upload, X } from "lucide-react";
 import { SakuraBackground } from "@/components/SakuraBackground";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import {
   DropdownMenu,
   DropdownMenuTrigger,
   DropdownMenuContent,
+  DropdownMenuItem,
   DropdownMenuRadioGroup,
   DropdownMenuRadioItem,
   DropdownMenuLabel,
@@ -18,10 +19,17 @@ import {
 import { AudioPlayerTab } from "@/components/AudioPlayerTab";
 import { FallingNotesTab } from "@/components/FallingNotesTab";
 import { PracticeTab } from "@/components/PracticeTab";
+import { ProgressTab } from "@/components/ProgressTab";
+import { ScoreTab } from "@/components/ScoreTab";
 import { PlaybackSpeedControl } from "@/components/PlaybackSpeedControl";
+import { TrackMixer } from "@/components/TrackMixer";
+import { MetronomeControl } from "@/components/MetronomeControl";
+import { EffectsPanel } from "@/components/EffectsPanel";
+import { SampleCacheManager } from "@/components/SampleCacheManager";
 import { useMidiPlayer } from "@/lib/hooks/useMidiPlayer";
+import { useUserSoundfonts, type UserSoundfontRecord } from "@/lib/hooks/useUserSoundfonts";
 import type { PianoPlayerFactory } from "@/lib/piano";
-import { splendidPiano, salamanderPiano, soundfontPiano } from "@/lib/piano";
+import { splendidPiano, salamanderPiano, soundfontPiano, electricPiano, organ, strings } from "@/lib/piano";
 
 export default function TutorialPage() {
   return (
@@ -41,55 +49,202 @@ const PIANO_OPTIONS: { value: string; label: string; description: string; factor
   { value: "splendid", label: "Splendid Grand", description: "Rich SoundFont piano", factory: splendidPiano },
   { value: "salamander", label: "Salamander", description: "Clean sampled piano", factory: salamanderPiano },
   { value: "soundfont", label: "Gentle", description: "Soft MusyngKite SoundFont", factory: soundfontPiano },
+  { value: "electric", label: "Electric Piano", description: "Mellow Rhodes-style keys", factory: electricPiano },
+  { value: "organ", label: "Organ", description: "Drawbar organ", factory: organ },
+  { value: "strings", label: "Strings", description: "String ensemble", factory: strings },
 ];
 
+/** Piano-switcher value of an uploaded SoundFont */
+const CUSTOM_PREFIX = "custom:";
+
 function TutorialContent() {
   const params = useParams<{ id: string }>();
   const id = params?.id;
   const [pianoKey, setPianoKey] = useState("splendid");
-  const pianoFactory = PIANO_OPTIONS.find((o) => o.value === pianoKey)!.factory;
+  // Uploaded SoundFonts are parsed on first pick; their factories are kept here
+  const [customFactories, setCustomFactories] = useState<Record<string, PianoPlayerFactory>>({});
+  const pianoFactory =
+    PIANO_OPTIONS.find((o) => o.value === pianoKey)?.factory ?? customFactories[pianoKey] ?? splendidPiano;
+  const {
+    soundfonts,
+    uploading: soundfontUploading,
+    error: soundfontError,
+    setError: setSoundfontError,
+    upload: uploadSoundfont,
+    remove: removeSoundfont,
+    loadFactory: loadSoundfontFactory,
+  } = useUserSoundfonts();
+  const [loadingSoundfont, setLoadingSoundfont] = useState<string | null>(null);
+  const soundfontInputRef = useRef<HTMLInputElement | null>(null);
   const { state, controls, refs } = useMidiPlayer(id, pianoFactory);
   const { loadState, error, title, bpm, noteCount, trackCount, duration, keySignature, timeSignature, playbackSpeed } = state;
   const { formatTime, setPlaybackSpeed } = controls;
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [activeTab, setActiveTab] = useState("falling-notes");
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // ?drill=<id> opens the Practice tab on that drill passage
+  const [drillId, setDrillId] = useState<string | null>(searchParams.get("drill"));
+  const [activeTab, setActiveTab] = useState(drillId ? "practice" : "falling-notes");
 
-  // Stop audio playback when switching to the Practice tab
+  // Stop audio playback when switching to the Practice tab. The A/B loop is
+  // cleared too, since practice plays the reference audio through the whole piece.
   const handleTabChange = useCallback((tab: string) => {
     setActiveTab(tab);
-    if (tab === "practice" && state.isPlaying) {
-      controls.stopPlayback();
+    if (tab === "practice") {
+      if (state.isPlaying) controls.stopPlayback();
+      controls.clearLoop();
     }
   }, [state.isPlaying, controls]);
 
+  const handleExitDrill = useCallback(() => {
+    setDrillId(null);
+    router.replace(`/tutorial/${id}`, { scroll: false });
+  }, [router, id]);
+
+  // Listen to the drill passage on repeat in the Falling Notes tab
+  const handleLoopDrill = useCallback((start: number, end: number) => {
+    controls.setLoop(start, end);
+    setActiveTab("falling-notes");
+  }, [controls]);
+
+  const selectPiano = useCallback(
+    async (value: string, record?: UserSoundfontRecord) => {
+      if (!value.startsWith(CUSTOM_PREFIX)) {
+        setPianoKey(value);
+        return;
+      }
+      const soundfont = record ?? soundfonts.find((s) => `${CUSTOM_PREFIX}${s.id}` === value);
+      if (!soundfont) return;
+      setLoadingSoundfont(value);
+      setSoundfontError(null);
+      try {
+        const factory = await loadSoundfontFactory(soundfont);
+        setCustomFactories((prev) => ({ ...prev, [value]: factory }));
+        setPianoKey(value);
+      } catch (e) {
+        setSoundfontError(e instanceof Error ? e.message : "Couldn't load the SoundFont.");
+      } finally {
+        setLoadingSoundfont(null);
+      }
+    },
+    [soundfonts, loadSoundfontFactory, setSoundfontError]
+  );
+
+  const handleSoundfontFiles = useCallback(
+    async (files: File[]) => {
+      const record = await uploadSoundfont(files);
+      if (record) selectPiano(`${CUSTOM_PREFIX}${record.id}`, record);
+    },
+    [uploadSoundfont, selectPiano]
+  );
+
+  const handleRemoveSoundfont = useCallback(
+    (record: UserSoundfontRecord) => {
+      if (pianoKey === `${CUSTOM_PREFIX}${record.id}`) setPianoKey("splendid");
+      removeSoundfont(record);
+    },
+    [pianoKey, removeSoundfont]
+  );
+
+  const pianoLabel =
+    PIANO_OPTIONS.find((o) => o.value === pianoKey)?.label ??
+    soundfonts.find((s) => `${CUSTOM_PREFIX}${s.id}` === pianoKey)?.name;
+
+  // Piano sound switcher, with the metronome, track mixer, effects and offline samples alongside it
   const pianoSwitcherEl = (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <button
-          className="flex items-center gap-1.5 rounded-full bg-white/80 backdrop-blur-md border border-pink-100 shadow-sm px-3 py-1.5 text-xs text-slate-500 hover:text-pink-600 hover:border-pink-200 transition-all"
-          title="Switch piano sound"
-        >
-          <Volume2 className="w-3.5 h-3.5" />
-          <span className="hidden sm:inline">
-            {PIANO_OPTIONS.find((o) => o.value === pianoKey)?.label}
-          </span>
-        </button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent side="top" align="end" className="w-56">
-        <DropdownMenuLabel>Piano Sound</DropdownMenuLabel>
-        <DropdownMenuSeparator />
-        <DropdownMenuRadioGroup value={pianoKey} onValueChange={setPianoKey}>
-          {PIANO_OPTIONS.map((opt) => (
-            <DropdownMenuRadioItem key={opt.value} value={opt.value}>
-              <div>
-                <div className="font-medium">{opt.label}</div>
-                <div className="text-xs text-slate-400">{opt.description}</div>
-              </div>
-            </DropdownMenuRadioItem>
-          ))}
-        </DropdownMenuRadioGroup>
-      </DropdownMenuContent>
-    </DropdownMenu>
+    <div className="flex items-center gap-2">
+      <MetronomeControl
+        enabled={state.metronomeEnabled}
+        volume={state.metronomeVolume}
+        countInBars={state.countInBars}
+        setEnabled={controls.setMetronomeEnabled}
+        setVolume={controls.setMetronomeVolume}
+        setCountInBars={controls.setCountInBars}
+      />
+      {state.tracks.length > 0 && (
+        <TrackMixer
+          tracks={state.tracks}
+          setTrackMute={controls.setTrackMute}
+          setTrackSolo={controls.setTrackSolo}
+          setTrackGain={controls.setTrackGain}
+          setTrackInstrument={controls.setTrackInstrument}
+        />
+      )}
+      <EffectsPanel effects={state.masterEffects} setEffects={controls.setMasterEffects} />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="flex items-center gap-1.5 rounded-full bg-white/80 backdrop-blur-md border border-pink-100 shadow-sm px-3 py-1.5 text-xs text-slate-500 hover:text-pink-600 hover:border-pink-200 transition-all"
+            title="Switch instrument sound"
+          >
+            <Volume2 className="w-3.5 h-3.5" />
+            <span className="hidden sm:inline max-w-[8rem] truncate">{pianoLabel}</span>
+            {(loadingSoundfont || soundfontUploading) && <Loader2 className="w-3 h-3 animate-spin" />}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="top" align="end" className="w-56">
+          <DropdownMenuLabel>Instrument Sound</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioGroup value={pianoKey} onValueChange={selectPiano}>
+            {PIANO_OPTIONS.map((opt) => (
+              <DropdownMenuRadioItem key={opt.value} value={opt.value}>
+                <div>
+                  <div className="font-medium">{opt.label}</div>
+                  <div className="text-xs text-slate-400">{opt.description}</div>
+                </div>
+              </DropdownMenuRadioItem>
+            ))}
+            {soundfonts.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Your SoundFonts</DropdownMenuLabel>
+                {soundfonts.map((sf) => (
+                  <DropdownMenuRadioItem key={sf.id} value={`${CUSTOM_PREFIX}${sf.id}`}>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{sf.name}</div>
+                      <div className="text-xs text-slate-400">
+                        .{sf.format}
+                        {loadingSoundfont === `${CUSTOM_PREFIX}${sf.id}` && " · loading…"}
+                      </div>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        e.preventDefault();
+                        handleRemoveSoundfont(sf);
+                      }}
+                      className="ml-2 rounded-full p-1 text-slate-300 hover:bg-pink-50 hover:text-red-500"
+                      title={`Delete ${sf.name}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </DropdownMenuRadioItem>
+                ))}
+              </>
+            )}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => soundfontInputRef.current?.click()} disabled={soundfontUploading}>
+            <Upload className="w-3.5 h-3.5" />
+            {soundfontUploading ? "Uploading…" : "Upload SoundFont (.sf2 / .sfz + samples)"}
+          </DropdownMenuItem>
+          {soundfontError && <p className="px-2 py-1 text-xs text-red-400">{soundfontError}</p>}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={soundfontInputRef}
+        type="file"
+        multiple
+        accept=".sf2,.sfz,.wav,.ogg,.flac,.mp3"
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = "";
+          if (files.length > 0) handleSoundfontFiles(files);
+        }}
+      />
+      <SampleCacheManager />
+    </div>
   );
 
   const toggleFullscreen = useCallback(() => {
@@ -211,7 +366,7 @@ function TutorialContent() {
           {loadState === "ready" && !isFullscreen && (
             <p className="text-sm text-slate-400">
               {trackCount} track{trackCount !== 1 && "s"} · {noteCount} notes ·{" "}
-              {bpm} BPM · {timeSignature} · {keySignature} · {formatTime(duration)}
+              {state.tempoMap.length > 1 ? `${state.currentBpm} BPM (varies)` : `${bpm} BPM`} · {timeSignature} · {keySignature} · {formatTime(duration)}
             </p>
           )}
         </div>
@@ -230,7 +385,7 @@ function TutorialContent() {
         {loadState === "ready" && (
           <>
           <Tabs
-            defaultValue="falling-notes"
+            value={activeTab}
             onValueChange={handleTabChange}
             className={`w-full ${
               isFullscreen ? "flex-1 flex flex-col min-h-0" : ""
@@ -251,6 +406,13 @@ function TutorialContent() {
                 <Music className="w-4 h-4" />
                 Audio Player
               </TabsTrigger>
+              <TabsTrigger
+                value="score"
+                className="flex-1 gap-1.5 rounded-lg data-[state=active]:bg-white data-[state=active]:text-pink-600 data-[state=active]:shadow-sm text-slate-500 transition-all text-sm"
+              >
+                <FileMusic className="w-4 h-4" />
+                Score
+              </TabsTrigger>
               <TabsTrigger
                 value="practice"
                 className="flex-1 gap-1.5 rounded-lg data-[state=active]:bg-white data-[state=active]:text-pink-600 data-[state=active]:shadow-sm text-slate-500 transition-all text-sm"
@@ -258,6 +420,13 @@ function TutorialContent() {
                 <Gamepad2 className="w-4 h-4" />
                 Practice
               </TabsTrigger>
+              <TabsTrigger
+                value="progress"
+                className="flex-1 gap-1.5 rounded-lg data-[state=active]:bg-white data-[state=active]:text-pink-600 data-[state=active]:shadow-sm text-slate-500 transition-all text-sm"
+              >
+                <TrendingUp className="w-4 h-4" />
+                Progress
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent
@@ -280,7 +449,31 @@ function TutorialContent() {
             </TabsContent>
 
             <TabsContent value="audio-player" className="mt-4">
-              <AudioPlayerTab state={state} controls={controls} pianoSwitcher={pianoSwitcherEl} />
+              <AudioPlayerTab
+                state={state}
+                controls={controls}
+                pianoSwitcher={pianoSwitcherEl}
+                midiRef={refs.midiRef}
+                pianoFactory={pianoFactory}
+                pianoName={pianoLabel}
+              />
+            </TabsContent>
+
+            <TabsContent
+              value="score"
+              className={`${
+                isFullscreen
+                  ? "flex-1 min-h-0 relative overflow-hidden"
+                  : "mt-4"
+              }`}
+            >
+              <ScoreTab
+                state={state}
+                controls={controls}
+                beatGridRef={refs.beatGridRef}
+                isFullscreen={isFullscreen}
+                pianoSwitcher={pianoSwitcherEl}
+              />
             </TabsContent>
 
             <TabsContent
@@ -298,8 +491,16 @@ function TutorialContent() {
                 isFullscreen={isFullscreen}
                 pianoSwitcher={pianoSwitcherEl}
                 playbackSpeed={playbackSpeed}
+                scoreId={id}
+                drillId={drillId}
+                onExitDrill={handleExitDrill}
+                onLoopDrill={handleLoopDrill}
               />
             </TabsContent>
+
+            <TabsContent value="progress" className="mt-4">
+              <ProgressTab scoreId={id} />
+            </TabsContent>
           </Tabs>
 
           {/* Playback speed control */}
@@ -307,7 +508,8 @@ function TutorialContent() {
             <PlaybackSpeedControl
               playbackSpeed={playbackSpeed}
               setPlaybackSpeed={setPlaybackSpeed}
-              originalBpm={bpm}
+              originalBpm={state.currentBpm}
+              hasTempoChanges={state.tempoMap.length > 1}
             />
           </div>
           </>
@@ -0,0 +1,204 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Midi } from "@tonejs/midi";
+import { Download, X } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import { LEAD_IN_SEC, type MidiPlayerState } from "@/lib/hooks/useMidiPlayer";
+import { useAudioExport } from "@/lib/hooks/useAudioExport";
+import type { PianoPlayerFactory } from "@/lib/piano";
+import { AUDIO_FILE_FORMATS, opusSupported, type AudioFileFormat } from "@/lib/piano/audio-file";
+import { rendersOffline } from "@/lib/piano/offline-render";
+
+// ── Props ─────────────────────────────────────────────────────────────
+
+interface AudioExportMenuProps {
+  state: MidiPlayerState;
+  formatTime: (seconds: number) => string;
+  midiRef: React.RefObject<Midi | null>;
+  /** The piano currently selected in the switcher */
+  pianoFactory?: PianoPlayerFactory;
+  pianoName?: string;
+}
+
+type Engine = "selected" | "salamander";
+type Range = "full" | "loop";
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function OptionRow<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: { value: T; label: string; disabled?: boolean; title?: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <span className="text-xs font-medium text-[#2D3142]">{label}</span>
+      <div className="flex rounded-full border border-pink-200 bg-white overflow-hidden text-[11px] font-medium">
+        {options.map((opt) => (
+          <button
+            key={opt.value}
+            onClick={() => onChange(opt.value)}
+            disabled={opt.disabled}
+            title={opt.title}
+            className={`flex-1 px-1.5 py-1 truncate transition disabled:opacity-40 disabled:cursor-not-allowed ${
+              value === opt.value ? "bg-pink-400 text-white" : "text-pink-400 hover:bg-pink-50"
+            }`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+
+/**
+ * "Export audio" dropdown: renders the piece (or the A/B loop) offline at
+ * the current speed, through the master effects, and downloads WAV or Opus.
+ */
+export function AudioExportMenu({ state, formatTime, midiRef, pianoFactory, pianoName }: AudioExportMenuProps) {
+  const { duration, playbackSpeed, loopStart, loopEnd, masterEffects, tracks, title, bpm } = state;
+  const { exportAudio, exportProgress, isExporting, exportError, cancelExport } = useAudioExport();
+
+  const [format, setFormat] = useState<AudioFileFormat>("wav16");
+  const [canOpus, setCanOpus] = useState(false);
+  const selectedRenders = rendersOffline(pianoFactory);
+  const [engine, setEngine] = useState<Engine>("selected");
+  const [range, setRange] = useState<Range>("full");
+  const loop = useMemo(
+    () => (loopStart !== null && loopEnd !== null ? { start: loopStart, end: loopEnd } : null),
+    [loopStart, loopEnd]
+  );
+
+  useEffect(() => {
+    opusSupported().then(setCanOpus);
+  }, []);
+
+  const effectiveEngine: Engine = selectedRenders ? engine : "salamander";
+  const effectiveRange: Range = loop ? range : "full";
+  const effectiveFormat: AudioFileFormat = format === "opus" && !canOpus ? "wav16" : format;
+
+  const handleExport = useCallback(() => {
+    const region = effectiveRange === "loop" ? loop : null;
+    exportAudio({
+      midiRef,
+      playbackSpeed,
+      range: region ?? { start: LEAD_IN_SEC, end: duration },
+      pianoFactory: effectiveEngine === "selected" ? pianoFactory : undefined,
+      masterEffects,
+      tracks,
+      format: effectiveFormat,
+      title,
+      bpm,
+      suffix: region ? `loop ${formatTime(region.start)}-${formatTime(region.end)}` : undefined,
+    });
+  }, [effectiveRange, effectiveEngine, effectiveFormat, loop, exportAudio, midiRef, playbackSpeed, duration, pianoFactory, masterEffects, tracks, title, bpm, formatTime]);
+
+  if (isExporting) {
+    return (
+      <div className="flex items-center gap-2">
+        <div className="flex items-center gap-1.5 rounded-full bg-pink-50 border border-pink-200 px-3 py-1.5 text-xs text-pink-600 min-w-[7rem]">
+          <Download className="w-3.5 h-3.5 animate-pulse" />
+          <span>Exporting {exportProgress ?? 0}%</span>
+        </div>
+        <button
+          onClick={cancelExport}
+          className="flex items-center justify-center w-7 h-7 rounded-full bg-white border border-pink-200 text-pink-400 hover:bg-pink-50 transition-colors"
+          aria-label="Cancel export"
+          title="Cancel export"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="flex items-center gap-1.5 rounded-full bg-white border border-pink-200 text-pink-400 hover:bg-pink-50 hover:text-pink-600 transition-colors px-3 py-1.5 text-xs"
+            aria-label="Export audio"
+            title="Export audio"
+          >
+            <Download className="w-3.5 h-3.5" />
+            <span className="hidden sm:inline">Export Audio</span>
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="top" align="center" className="w-72">
+          <DropdownMenuLabel>Export audio</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <div className="space-y-3 px-2 py-1.5">
+            <OptionRow
+              label="Format"
+              value={effectiveFormat}
+              onChange={setFormat}
+              options={AUDIO_FILE_FORMATS.map((f) => ({
+                value: f.id,
+                label: f.label,
+                disabled: f.id === "opus" && !canOpus,
+                title: f.id === "opus" && !canOpus ? "This browser can't encode Opus" : undefined,
+              }))}
+            />
+            <OptionRow
+              label="Piano"
+              value={effectiveEngine}
+              onChange={setEngine}
+              options={[
+                {
+                  value: "selected",
+                  label: pianoName ?? "Selected",
+                  disabled: !selectedRenders,
+                  title: selectedRenders ? undefined : "This piano can't render offline",
+                },
+                { value: "salamander", label: "Salamander" },
+              ]}
+            />
+            <OptionRow
+              label="Range"
+              value={effectiveRange}
+              onChange={setRange}
+              options={[
+                { value: "full", label: `Full piece (${formatTime(duration)})` },
+                {
+                  value: "loop",
+                  label: loop ? `Loop ${formatTime(loop.start)}–${formatTime(loop.end)}` : "Loop",
+                  disabled: !loop,
+                  title: loop ? undefined : "Set an A/B loop first",
+                },
+              ]}
+            />
+            <p className="text-[10px] text-slate-400">
+              At {Math.round(playbackSpeed * 100)}% speed, with the current mix and effects.
+            </p>
+            <button
+              onClick={handleExport}
+              className="w-full rounded-full bg-pink-400 hover:bg-pink-500 text-white text-xs font-medium py-1.5 transition-colors"
+            >
+              Export
+            </button>
+          </div>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {exportError && (
+        <span className="text-xs text-red-500" title={exportError}>Export failed</span>
+      )}
+    </div>
+  );
+}
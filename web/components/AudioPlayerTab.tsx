@@ -2,17 +2,26 @@
 
 import { useRef, useCallback, useState } from "react";
 import { Play, Pause, Square, RotateCcw, RotateCw } from "lucide-react";
+import type { Midi } from "@tonejs/midi";
 import type { MidiPlayerState, MidiPlayerControls } from "@/lib/hooks/useMidiPlayer";
+import type { PianoPlayerFactory } from "@/lib/piano";
+import { LoopRegion, LoopToggleButton } from "@/components/LoopRegion";
+import { AudioExportMenu } from "@/components/AudioExportMenu";
 
 interface AudioPlayerTabProps {
   state: MidiPlayerState;
   controls: MidiPlayerControls;
   pianoSwitcher?: React.ReactNode;
+  /** Required for audio export – ref to the parsed Midi object */
+  midiRef?: React.RefObject<Midi | null>;
+  /** The selected piano, offered as the export engine when it renders offline */
+  pianoFactory?: PianoPlayerFactory;
+  pianoName?: string;
 }
 
-export function AudioPlayerTab({ state, controls, pianoSwitcher }: AudioPlayerTabProps) {
-  const { isPlaying, progress, duration, activeNotes, loadState } = state;
-  const { togglePlayback, stopPlayback, seekTo, skip, formatTime } = controls;
+export function AudioPlayerTab({ state, controls, pianoSwitcher, midiRef, pianoFactory, pianoName }: AudioPlayerTabProps) {
+  const { isPlaying, progress, duration, activeNotes, loadState, loopStart, loopEnd } = state;
+  const { togglePlayback, stopPlayback, seekTo, skip, formatTime, setLoop, clearLoop } = controls;
   const barRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
 
@@ -54,30 +63,44 @@ export function AudioPlayerTab({ state, controls, pianoSwitcher }: AudioPlayerTa
     <div className="space-y-6">
       {/* Scrubbing progress bar */}
       <div className="space-y-2">
-        <div
-          ref={barRef}
-          className="relative w-full h-3 bg-pink-100 rounded-full overflow-hidden cursor-pointer group"
-          onPointerDown={handlePointerDown}
-          onPointerMove={handlePointerMove}
-          onPointerUp={handlePointerUp}
-          onPointerCancel={handlePointerUp}
-        >
-          <div
-            className="h-full bg-gradient-to-r from-pink-300 to-pink-400 rounded-full transition-[width] duration-75"
-            style={{
-              width: `${duration > 0 ? (progress / duration) * 100 : 0}%`,
-            }}
-          />
-          {/* Thumb indicator */}
+        <div className="relative">
           <div
-            className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-white border-2 border-pink-400 rounded-full shadow-md opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none"
-            style={{
-              left: `calc(${duration > 0 ? (progress / duration) * 100 : 0}% - 8px)`,
-            }}
+            ref={barRef}
+            className="relative w-full h-3 bg-pink-100 rounded-full overflow-hidden cursor-pointer group"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <div
+              className="h-full bg-gradient-to-r from-pink-300 to-pink-400 rounded-full transition-[width] duration-75"
+              style={{
+                width: `${duration > 0 ? (progress / duration) * 100 : 0}%`,
+              }}
+            />
+            {/* Thumb indicator */}
+            <div
+              className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-white border-2 border-pink-400 rounded-full shadow-md opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none"
+              style={{
+                left: `calc(${duration > 0 ? (progress / duration) * 100 : 0}% - 8px)`,
+              }}
+            />
+          </div>
+          <LoopRegion
+            barRef={barRef}
+            duration={duration}
+            loopStart={loopStart}
+            loopEnd={loopEnd}
+            setLoop={setLoop}
           />
         </div>
         <div className="flex justify-between text-xs text-slate-400">
           <span>{formatTime(progress)}</span>
+          {loopStart !== null && loopEnd !== null && (
+            <span className="text-amber-500">
+              Loop {formatTime(loopStart)} – {formatTime(loopEnd)}
+            </span>
+          )}
           <span>{formatTime(duration)}</span>
         </div>
       </div>
@@ -118,9 +141,29 @@ export function AudioPlayerTab({ state, controls, pianoSwitcher }: AudioPlayerTa
         >
           <Square className="w-4 h-4" />
         </button>
+        <LoopToggleButton
+          progress={progress}
+          duration={duration}
+          loopStart={loopStart}
+          setLoop={setLoop}
+          clearLoop={clearLoop}
+        />
         {pianoSwitcher && <div className="ml-2">{pianoSwitcher}</div>}
       </div>
 
+      {/* Audio export */}
+      {midiRef && (
+        <div className="flex justify-center">
+          <AudioExportMenu
+            state={state}
+            formatTime={formatTime}
+            midiRef={midiRef}
+            pianoFactory={pianoFactory}
+            pianoName={pianoName}
+          />
+        </div>
+      )}
+
       {/* Active notes display */}
       {activeNotes.length > 0 && (
         <div className="flex flex-wrap justify-center gap-2">
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Gauge } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import {
+  DIFFICULTY_OPTIONS,
+  resolveDifficulty,
+  type DifficultyPreference,
+  type DifficultySettings,
+} from "@/lib/piano/difficulty";
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Custom-profile fields; chord tolerance is edited in ms but stored in seconds */
+const CUSTOM_FIELDS: { key: keyof DifficultySettings; label: string; unit: string; scale: number; step: number }[] = [
+  { key: "perfectMs", label: "Perfect within", unit: "ms", scale: 1, step: 5 },
+  { key: "greatMs", label: "Great within", unit: "ms", scale: 1, step: 10 },
+  { key: "okayMs", label: "Okay within", unit: "ms", scale: 1, step: 10 },
+  { key: "matchWindowMs", label: "Match window", unit: "ms", scale: 1, step: 50 },
+  { key: "chordToleranceSec", label: "Chord spread", unit: "ms", scale: 1000, step: 5 },
+  { key: "overHoldFactor", label: "Over-hold limit", unit: "×", scale: 1, step: 0.25 },
+];
+
+// ── Props ─────────────────────────────────────────────────────────────
+
+interface DifficultyControlProps {
+  value: DifficultyPreference;
+  onChange: (value: DifficultyPreference) => void;
+  /** Difficulty can only change between runs */
+  disabled?: boolean;
+}
+
+// ── Number field ──────────────────────────────────────────────────────
+
+/**
+ * Number input that commits on blur / Enter, so intermediate keystrokes
+ * aren't clamped against the other windows while typing.
+ */
+function CustomField({
+  label,
+  unit,
+  step,
+  value,
+  disabled,
+  onCommit,
+}: {
+  label: string;
+  unit: string;
+  step: number;
+  value: number;
+  disabled?: boolean;
+  onCommit: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const n = Number(draft);
+    if (Number.isFinite(n) && n !== value) onCommit(n);
+    else setDraft(String(value));
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-xs text-[#2D3142]">{label}</span>
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          step={step}
+          value={draft}
+          disabled={disabled}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commit();
+          }}
+          className="w-16 rounded-md border border-pink-200 bg-white px-1.5 py-0.5 text-right text-xs tabular-nums text-[#2D3142] disabled:opacity-40"
+        />
+        <span className="w-5 text-[11px] text-slate-400">{unit}</span>
+      </span>
+    </label>
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+
+/** Practice difficulty profile picker, with editable windows for Custom. */
+export function DifficultyControl({ value, onChange, disabled }: DifficultyControlProps) {
+  const settings = resolveDifficulty(value);
+  const label = DIFFICULTY_OPTIONS.find((o) => o.value === value.profile)?.label ?? "Standard";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="flex items-center gap-1.5 rounded-full border border-pink-200 bg-white px-3 py-1.5 text-xs font-medium text-pink-400 hover:bg-pink-50 transition"
+          title="Difficulty"
+        >
+          <Gauge className="w-3.5 h-3.5" />
+          {label}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="top" align="start" className="w-64">
+        <DropdownMenuLabel>Difficulty</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <div className="space-y-3 px-2 py-1.5">
+          <div className="flex rounded-full border border-pink-200 bg-white overflow-hidden text-xs font-medium">
+            {DIFFICULTY_OPTIONS.map((opt) => (
+              <button
+                key={opt.value}
+                onClick={() => onChange({ ...value, profile: opt.value })}
+                disabled={disabled}
+                className={`flex-1 px-1.5 py-1 transition disabled:cursor-not-allowed ${
+                  value.profile === opt.value
+                    ? "bg-pink-400 text-white"
+                    : "text-pink-400 hover:bg-pink-50 disabled:hover:bg-transparent"
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1.5">
+            {CUSTOM_FIELDS.map((field) => (
+              <CustomField
+                key={field.key}
+                label={field.label}
+                unit={field.unit}
+                step={field.step}
+                value={Math.round(settings[field.key] * field.scale * 100) / 100}
+                disabled={disabled || value.profile !== "custom"}
+                onCommit={(n) =>
+                  onChange({ ...value, custom: { ...value.custom, [field.key]: n / field.scale } })
+                }
+              />
+            ))}
+          </div>
+
+          {disabled && <p className="text-[11px] text-slate-400">Reset the run to change difficulty.</p>}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
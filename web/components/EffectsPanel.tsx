@@ -0,0 +1,183 @@
+"use client";
+
+import { AudioWaveform } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import {
+  DEFAULT_MASTER_EFFECTS,
+  EQ_RANGE_DB,
+  MAX_WIDTH,
+  REVERB_ROOMS,
+  type MasterEffects,
+  type ReverbRoom,
+} from "@/lib/piano/master-bus";
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+const ROOMS = Object.entries(REVERB_ROOMS) as [ReverbRoom, (typeof REVERB_ROOMS)[ReverbRoom]][];
+
+const EQ_BANDS: { key: keyof MasterEffects["eq"]; label: string }[] = [
+  { key: "low", label: "Low" },
+  { key: "mid", label: "Mid" },
+  { key: "high", label: "High" },
+];
+
+// ── Props ─────────────────────────────────────────────────────────────
+
+interface EffectsPanelProps {
+  effects: MasterEffects;
+  setEffects: (effects: MasterEffects) => void;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function formatDb(db: number) {
+  return `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`;
+}
+
+/** Anything other than the defaults (the limiter is on by default) */
+function isShaped(e: MasterEffects) {
+  const d = DEFAULT_MASTER_EFFECTS;
+  return (
+    e.reverb.mix > 0 ||
+    e.eq.low !== d.eq.low ||
+    e.eq.mid !== d.eq.mid ||
+    e.eq.high !== d.eq.high ||
+    e.width !== d.width ||
+    e.limiter !== d.limiter
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+
+/** Master bus reverb, EQ, stereo width and limiter, as a dropdown panel. */
+export function EffectsPanel({ effects, setEffects }: EffectsPanelProps) {
+  const { reverb, eq, width, limiter } = effects;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`flex items-center gap-1.5 rounded-full bg-white/80 backdrop-blur-md border shadow-sm px-3 py-1.5 text-xs transition-all ${
+            isShaped(effects)
+              ? "border-pink-300 text-pink-600"
+              : "border-pink-100 text-slate-500 hover:text-pink-600 hover:border-pink-200"
+          }`}
+          title="Audio effects"
+        >
+          <AudioWaveform className="w-3.5 h-3.5" />
+          <span className="hidden sm:inline">Effects</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="top" align="end" className="w-72">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Effects</DropdownMenuLabel>
+          <button
+            onClick={() => setEffects(DEFAULT_MASTER_EFFECTS)}
+            className="mr-2 text-[11px] text-pink-400 hover:text-pink-600 transition disabled:opacity-40"
+            disabled={!isShaped(effects)}
+          >
+            Reset
+          </button>
+        </div>
+        <DropdownMenuSeparator />
+        <div className="space-y-3 px-2 py-1.5">
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-[#2D3142]">Reverb</span>
+              <span className="text-[10px] text-slate-400 tabular-nums">
+                {reverb.mix === 0 ? "Off" : `${Math.round(reverb.mix * 100)}%`}
+              </span>
+            </div>
+            <div className="flex rounded-full border border-pink-200 bg-white overflow-hidden text-[11px] font-medium">
+              {ROOMS.map(([room, preset]) => (
+                <button
+                  key={room}
+                  onClick={() => setEffects({ ...effects, reverb: { ...reverb, room } })}
+                  className={`flex-1 px-1.5 py-1 transition ${
+                    reverb.room === room ? "bg-pink-400 text-white" : "text-pink-400 hover:bg-pink-50"
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={reverb.mix}
+              onChange={(e) => setEffects({ ...effects, reverb: { ...reverb, mix: Number(e.target.value) } })}
+              className="w-full accent-pink-400"
+              aria-label="Reverb mix"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-[#2D3142]">EQ</span>
+            {EQ_BANDS.map(({ key, label }) => (
+              <div key={key} className="flex items-center gap-2">
+                <span className="w-8 text-[11px] text-slate-500">{label}</span>
+                <input
+                  type="range"
+                  min={-EQ_RANGE_DB}
+                  max={EQ_RANGE_DB}
+                  step={0.5}
+                  value={eq[key]}
+                  onChange={(e) => setEffects({ ...effects, eq: { ...eq, [key]: Number(e.target.value) } })}
+                  onDoubleClick={() => setEffects({ ...effects, eq: { ...eq, [key]: 0 } })}
+                  className="flex-1 accent-pink-400"
+                  aria-label={`${label} EQ`}
+                />
+                <span className="w-12 text-right text-[10px] text-slate-400 tabular-nums">{formatDb(eq[key])}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-[#2D3142]">Stereo width</span>
+              <span className="text-[10px] text-slate-400 tabular-nums">
+                {width === 0 ? "Mono" : `${Math.round(width * 100)}%`}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={MAX_WIDTH}
+              step={0.05}
+              value={width}
+              onChange={(e) => setEffects({ ...effects, width: Number(e.target.value) })}
+              className="w-full accent-pink-400"
+              aria-label="Stereo width"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-xs font-medium text-[#2D3142]">Limiter</div>
+              <div className="text-[10px] text-slate-400">Stops loud chords from clipping</div>
+            </div>
+            <button
+              onClick={() => setEffects({ ...effects, limiter: !limiter })}
+              className={`px-3 py-1 rounded-full text-[11px] font-medium border transition ${
+                limiter
+                  ? "bg-pink-400 border-pink-400 text-white"
+                  : "bg-white border-pink-200 text-pink-400 hover:bg-pink-50"
+              }`}
+              aria-pressed={limiter}
+            >
+              {limiter ? "On" : "Off"}
+            </button>
+          </div>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -16,7 +16,11 @@ import {
   buildKeyLayout,
 } from "@/lib/piano/canvas-utils";
 import { drawFallingNotesFrame } from "@/lib/piano/draw-frame";
+import { buildBeatGrid } from "@/lib/piano/beat-grid";
+import { mergePedalSpans, pedalSpansByTrack } from "@/lib/piano/sustain";
 import { useVideoExport } from "@/lib/hooks/useVideoExport";
+import { detectBassTrack } from "@/lib/piano/midi-helpers";
+import { LoopRegion, LoopToggleButton } from "@/components/LoopRegion";
 
 // ── Component ─────────────────────────────────────────────────────────
 
@@ -35,8 +39,8 @@ interface FallingNotesTabProps {
 const LARGE_FILE_THRESHOLD_SECS = 120; // 2 minutes
 
 export function FallingNotesTab({ state, controls, isFullscreen = false, pianoSwitcher, playbackSpeed = 1, midiRef, pianoFactory = splendidPiano }: FallingNotesTabProps) {
-  const { isPlaying, loadState, duration, progress } = state;
-  const { togglePlayback, stopPlayback, seekTo, skip, formatTime, getAllNotes } = controls;
+  const { isPlaying, loadState, duration, progress, loopStart, loopEnd } = state;
+  const { togglePlayback, stopPlayback, seekTo, skip, formatTime, getAllNotes, setLoop, clearLoop } = controls;
   const progressBarRef = useRef<HTMLDivElement | null>(null);
   const [isScrubbing, setIsScrubbing] = useState(false);
 
@@ -50,31 +54,19 @@ export function FallingNotesTab({ state, controls, isFullscreen = false, pianoSw
   const rafRef = useRef<number>(0);
   const notesCache = useRef<NoteEvent[]>([]);
 
-  const bassTrack = useMemo(() => {
-    const notes = getAllNotes();
-    if (notes.length === 0) return -1;
+  const bassTrack = useMemo(() => detectBassTrack(getAllNotes()), [getAllNotes]);
 
-    const trackPitchSums = new Map<number, { sum: number; count: number }>();
-    for (const n of notes) {
-      const entry = trackPitchSums.get(n.track) ?? { sum: 0, count: 0 };
-      entry.sum += n.midi;
-      entry.count++;
-      trackPitchSums.set(n.track, entry);
-    }
-
-    if (trackPitchSums.size < 2) return -1;
+  // Bar / beat lines from the header's tempo map (midiRef is filled before duration is set)
+  const beatGrid = useMemo(
+    () => (midiRef?.current ? buildBeatGrid(midiRef.current.header, duration) : undefined),
+    [midiRef, duration]
+  );
 
-    let lowestAvg = Infinity;
-    let lowestTrack = -1;
-    for (const [track, { sum, count }] of trackPitchSums) {
-      const avg = sum / count;
-      if (avg < lowestAvg) {
-        lowestAvg = avg;
-        lowestTrack = track;
-      }
-    }
-    return lowestTrack;
-  }, [getAllNotes]);
+  // Sustain pedal spans across all tracks, for the pedal lane
+  const pedalSpans = useMemo(
+    () => (midiRef?.current ? mergePedalSpans(pedalSpansByTrack(midiRef.current)) : undefined),
+    [midiRef, duration]
+  );
 
   const layout = useMemo(() => {
     const notes = getAllNotes();
@@ -171,8 +163,10 @@ export function FallingNotesTab({ state, controls, isFullscreen = false, pianoSw
       bassTrack,
       duration,
       formatTime,
+      beatGrid,
+      pedalSpans,
     });
-  }, [layout, bassTrack, duration, formatTime, playbackSpeed]);
+  }, [layout, bassTrack, duration, formatTime, playbackSpeed, beatGrid, pedalSpans]);
 
   const handleExportVideo = useCallback(() => {
     if (!layout || isExporting) return;
@@ -187,10 +181,14 @@ export function FallingNotesTab({ state, controls, isFullscreen = false, pianoSw
       formatTime,
       midiRef: midiRef!,
       pianoFactory,
+      masterEffects: state.masterEffects,
+      tracks: state.tracks,
       title: state.title,
       bpm: state.bpm,
+      beatGrid,
+      pedalSpans,
     });
-  }, [layout, bassTrack, duration, playbackSpeed, formatTime, midiRef, pianoFactory, isExporting, exportVideo, stopPlayback, state.title, state.bpm]);
+  }, [layout, bassTrack, duration, playbackSpeed, formatTime, midiRef, pianoFactory, state.masterEffects, state.tracks, isExporting, exportVideo, stopPlayback, state.title, state.bpm, beatGrid, pedalSpans]);
 
   useEffect(() => {
     let running = true;
@@ -279,6 +277,14 @@ export function FallingNotesTab({ state, controls, isFullscreen = false, pianoSw
         >
           <Square className="w-3.5 h-3.5" />
         </button>
+        <LoopToggleButton
+          progress={progress}
+          duration={duration}
+          loopStart={loopStart}
+          setLoop={setLoop}
+          clearLoop={clearLoop}
+          className="w-9 h-9"
+        />
 
         {/* Progress bar */}
         <div
@@ -299,6 +305,13 @@ export function FallingNotesTab({ state, controls, isFullscreen = false, pianoSw
             className="absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-white border-2 border-pink-400 rounded-full shadow opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none"
             style={{ left: `calc(${duration > 0 ? (progress / duration) * 100 : 0}% - 6px)` }}
           />
+          <LoopRegion
+            barRef={progressBarRef}
+            duration={duration}
+            loopStart={loopStart}
+            loopEnd={loopEnd}
+            setLoop={setLoop}
+          />
         </div>
         <span className="text-xs text-slate-400 tabular-nums min-w-[4rem] text-right">
           {formatTime(progress)} / {formatTime(duration)}
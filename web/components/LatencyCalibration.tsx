@@ -0,0 +1,125 @@
+"use client";
+
+import { Activity } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import { useLatencyCalibration } from "@/lib/hooks/useLatencyCalibration";
+
+// ── Props ─────────────────────────────────────────────────────────────
+
+interface LatencyCalibrationProps {
+  /** The selected MIDI input */
+  device: MIDIInput | undefined;
+  /** Currently stored offset for the device (ms) */
+  offsetMs: number;
+  onSave: (offsetMs: number) => void;
+  /** Calibration can only run between practice runs */
+  disabled?: boolean;
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+
+function formatOffset(ms: number) {
+  return `${ms > 0 ? "+" : ""}${ms} ms`;
+}
+
+/** Tap-along latency calibration for the selected keyboard, as a dropdown panel. */
+export function LatencyCalibration({ device, offsetMs, onSave, disabled }: LatencyCalibrationProps) {
+  const { state, controls } = useLatencyCalibration(device);
+  const { status, clicks, totalClicks, leadInClicks, taps, result, error } = state;
+  const running = status === "running";
+
+  return (
+    <DropdownMenu onOpenChange={(open) => !open && running && controls.cancel()}>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`flex items-center gap-1.5 rounded-full border bg-white px-3 py-1.5 text-xs font-medium transition ${
+            offsetMs !== 0 ? "border-pink-300 text-pink-600" : "border-pink-200 text-pink-400 hover:bg-pink-50"
+          }`}
+          title="Keyboard latency"
+        >
+          <Activity className="w-3.5 h-3.5" />
+          {offsetMs !== 0 ? formatOffset(offsetMs) : "Latency"}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="top" align="start" className="w-72">
+        <DropdownMenuLabel>Keyboard latency</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <div className="space-y-3 px-2 py-1.5 text-xs text-[#2D3142]">
+          <p className="text-slate-500">
+            Tap any key in time with the clicks. The first {leadInClicks} clicks are a lead-in; the
+            rest are measured and the typical delay is subtracted from flowing-mode timing.
+          </p>
+
+          <div className="flex items-center justify-between">
+            <span>Current offset</span>
+            <span className="tabular-nums font-medium">{formatOffset(offsetMs)}</span>
+          </div>
+
+          {running && (
+            <div className="space-y-1">
+              <div className="h-1.5 w-full overflow-hidden rounded-full bg-pink-100">
+                <div
+                  className="h-full bg-pink-400 transition-all"
+                  style={{ width: `${(clicks / totalClicks) * 100}%` }}
+                />
+              </div>
+              <p className="text-slate-500 tabular-nums">
+                {clicks <= leadInClicks ? "Get ready…" : "Tap with each click"} · {taps} tap{taps !== 1 && "s"} measured
+              </p>
+            </div>
+          )}
+
+          {status === "done" && result !== null && (
+            <p>
+              Measured <span className="font-medium tabular-nums">{formatOffset(result)}</span> from {taps} taps.
+            </p>
+          )}
+          {error && <p className="text-red-500">{error}</p>}
+
+          <div className="flex flex-wrap gap-2">
+            {running ? (
+              <button
+                onClick={controls.cancel}
+                className="px-3 py-1 rounded-full border border-pink-200 text-pink-400 hover:bg-pink-50 transition"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={controls.start}
+                disabled={disabled || !device}
+                className="px-3 py-1 rounded-full bg-pink-400 hover:bg-pink-500 text-white transition disabled:opacity-40"
+              >
+                {status === "done" ? "Try again" : "Calibrate"}
+              </button>
+            )}
+            {status === "done" && result !== null && (
+              <button
+                onClick={() => onSave(result)}
+                disabled={disabled}
+                className="px-3 py-1 rounded-full bg-green-500 hover:bg-green-600 text-white transition disabled:opacity-40"
+              >
+                Use {formatOffset(result)}
+              </button>
+            )}
+            {offsetMs !== 0 && !running && (
+              <button
+                onClick={() => onSave(0)}
+                disabled={disabled}
+                className="px-3 py-1 rounded-full border border-pink-200 text-pink-400 hover:bg-pink-50 transition disabled:opacity-40"
+              >
+                Reset to 0
+              </button>
+            )}
+          </div>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { Repeat } from "lucide-react";
+import { MIN_LOOP_SEC } from "@/lib/hooks/useMidiPlayer";
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Length of the loop created when the user first enables A/B looping. */
+const DEFAULT_LOOP_SEC = 8;
+
+// ── Loop region overlay ───────────────────────────────────────────────
+
+interface LoopRegionProps {
+  /** The progress bar the region is drawn over (used for pointer → time mapping) */
+  barRef: React.RefObject<HTMLDivElement | null>;
+  duration: number;
+  loopStart: number | null;
+  loopEnd: number | null;
+  setLoop: (start: number, end: number) => void;
+}
+
+/**
+ * Shaded A/B region with two draggable handles, positioned absolutely over
+ * a progress bar. Render it as a sibling of the bar inside a `relative`
+ * wrapper so the handles are not clipped by the bar's rounded overflow.
+ */
+export function LoopRegion({ barRef, duration, loopStart, loopEnd, setLoop }: LoopRegionProps) {
+  const [dragging, setDragging] = useState<"start" | "end" | null>(null);
+
+  const timeFromPointer = useCallback(
+    (clientX: number) => {
+      const bar = barRef.current;
+      if (!bar || duration <= 0) return null;
+      const rect = bar.getBoundingClientRect();
+      const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+      return ratio * duration;
+    },
+    [barRef, duration]
+  );
+
+  const handlePointerDown = useCallback(
+    (which: "start" | "end") => (e: React.PointerEvent) => {
+      // Don't let the bar underneath start a scrub
+      e.stopPropagation();
+      (e.target as HTMLElement).setPointerCapture(e.pointerId);
+      setDragging(which);
+    },
+    []
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      if (!dragging || loopStart === null || loopEnd === null) return;
+      const t = timeFromPointer(e.clientX);
+      if (t === null) return;
+      if (dragging === "start") {
+        setLoop(Math.min(t, loopEnd - MIN_LOOP_SEC), loopEnd);
+      } else {
+        setLoop(loopStart, Math.max(t, loopStart + MIN_LOOP_SEC));
+      }
+    },
+    [dragging, loopStart, loopEnd, timeFromPointer, setLoop]
+  );
+
+  const handlePointerUp = useCallback(() => {
+    setDragging(null);
+  }, []);
+
+  if (loopStart === null || loopEnd === null || duration <= 0) return null;
+
+  const startPct = (loopStart / duration) * 100;
+  const endPct = (loopEnd / duration) * 100;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <div
+        className="absolute inset-y-0 bg-amber-300/40 rounded-sm"
+        style={{ left: `${startPct}%`, width: `${endPct - startPct}%` }}
+      />
+      {(["start", "end"] as const).map((which) => (
+        <div
+          key={which}
+          role="slider"
+          aria-label={which === "start" ? "Loop start" : "Loop end"}
+          aria-valuemin={0}
+          aria-valuemax={duration}
+          aria-valuenow={which === "start" ? loopStart : loopEnd}
+          className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-2 h-5 rounded-sm bg-amber-400 border border-white shadow cursor-ew-resize pointer-events-auto touch-none ${
+            dragging === which ? "bg-amber-500" : "hover:bg-amber-500"
+          }`}
+          style={{ left: `${which === "start" ? startPct : endPct}%` }}
+          onPointerDown={handlePointerDown(which)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      ))}
+    </div>
+  );
+}
+
+// ── Loop toggle button ────────────────────────────────────────────────
+
+interface LoopToggleButtonProps {
+  progress: number;
+  duration: number;
+  loopStart: number | null;
+  setLoop: (start: number, end: number) => void;
+  clearLoop: () => void;
+  /** Size / spacing classes so the button matches its neighbours */
+  className?: string;
+}
+
+/** Enables an A/B loop around the playhead, or clears the active one. */
+export function LoopToggleButton({
+  progress,
+  duration,
+  loopStart,
+  setLoop,
+  clearLoop,
+  className = "w-10 h-10",
+}: LoopToggleButtonProps) {
+  const isLooping = loopStart !== null;
+
+  const handleClick = useCallback(() => {
+    if (isLooping) {
+      clearLoop();
+      return;
+    }
+    const end = Math.min(duration, progress + DEFAULT_LOOP_SEC);
+    const start = Math.max(0, Math.min(progress, end - DEFAULT_LOOP_SEC));
+    setLoop(start, end);
+  }, [isLooping, clearLoop, setLoop, progress, duration]);
+
+  return (
+    <button
+      onClick={handleClick}
+      className={`flex items-center justify-center rounded-full border transition-colors ${
+        isLooping
+          ? "bg-amber-100 border-amber-300 text-amber-600 hover:bg-amber-200"
+          : "bg-white border-pink-200 text-pink-400 hover:bg-pink-50"
+      } ${className}`}
+      aria-label={isLooping ? "Clear A/B loop" : "Loop a section"}
+      aria-pressed={isLooping}
+      title={isLooping ? "Clear loop" : "Loop a section (drag the handles to adjust)"}
+    >
+      <Repeat className="w-4 h-4" />
+    </button>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { Timer } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+const COUNT_IN_OPTIONS = [0, 1, 2, 4];
+
+// ── Props ─────────────────────────────────────────────────────────────
+
+interface MetronomeControlProps {
+  enabled: boolean;
+  volume: number;
+  countInBars: number;
+  setEnabled: (enabled: boolean) => void;
+  setVolume: (volume: number) => void;
+  setCountInBars: (bars: number) => void;
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+
+/** Metronome on/off, click volume and flowing-practice count-in, as a dropdown panel. */
+export function MetronomeControl({
+  enabled,
+  volume,
+  countInBars,
+  setEnabled,
+  setVolume,
+  setCountInBars,
+}: MetronomeControlProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`flex items-center gap-1.5 rounded-full bg-white/80 backdrop-blur-md border shadow-sm px-3 py-1.5 text-xs transition-all ${
+            enabled
+              ? "border-pink-300 text-pink-600"
+              : "border-pink-100 text-slate-500 hover:text-pink-600 hover:border-pink-200"
+          }`}
+          title="Metronome"
+        >
+          <Timer className="w-3.5 h-3.5" />
+          <span className="hidden sm:inline">Metronome</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="top" align="end" className="w-64">
+        <DropdownMenuLabel>Metronome</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <div className="space-y-3 px-2 py-1.5">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-[#2D3142]">Click on every beat</span>
+            <button
+              onClick={() => setEnabled(!enabled)}
+              className={`px-3 py-1 rounded-full text-[11px] font-medium border transition ${
+                enabled
+                  ? "bg-pink-400 border-pink-400 text-white"
+                  : "bg-white border-pink-200 text-pink-400 hover:bg-pink-50"
+              }`}
+              aria-pressed={enabled}
+            >
+              {enabled ? "On" : "Off"}
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-[#2D3142]">Click volume</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={volume}
+              onChange={(e) => setVolume(Number(e.target.value))}
+              className="w-full accent-pink-400"
+              aria-label="Metronome volume"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-[#2D3142]">Count-in (flowing practice)</span>
+            <div className="flex rounded-full border border-pink-200 bg-white overflow-hidden text-xs font-medium">
+              {COUNT_IN_OPTIONS.map((bars) => (
+                <button
+                  key={bars}
+                  onClick={() => setCountInBars(bars)}
+                  className={`flex-1 px-2 py-1 transition ${
+                    countInBars === bars ? "bg-pink-400 text-white" : "text-pink-400 hover:bg-pink-50"
+                  }`}
+                >
+                  {bars === 0 ? "Off" : `${bars} bar${bars > 1 ? "s" : ""}`}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -11,7 +11,10 @@ const SPEED_PRESETS = [0.1, 0.25, 0.5, 0.75, 1, 1.5, 2] as const;
 interface PlaybackSpeedControlProps {
   playbackSpeed: number;
   setPlaybackSpeed: (speed: number) => void;
+  /** Tempo at 1× speed — for pieces with tempo changes, the tempo of the current section */
   originalBpm: number;
+  /** The piece changes tempo, so the BPM field is relative to the current section */
+  hasTempoChanges?: boolean;
 }
 
 // ── Component ─────────────────────────────────────────────────────────
@@ -20,6 +23,7 @@ export function PlaybackSpeedControl({
   playbackSpeed,
   setPlaybackSpeed,
   originalBpm,
+  hasTempoChanges = false,
 }: PlaybackSpeedControlProps) {
   // Derived BPM kept in local state so the user can type freely
   const [bpmInput, setBpmInput] = useState(() =>
@@ -87,8 +91,16 @@ export function PlaybackSpeedControl({
 
       {/* BPM input */}
       <div className="flex items-center gap-1.5 text-xs">
-        <label htmlFor="bpm-input" className="text-slate-400 select-none">
-          BPM
+        <label
+          htmlFor="bpm-input"
+          className="text-slate-400 select-none"
+          title={
+            hasTempoChanges
+              ? `This piece changes tempo. The target BPM applies to the current section (${originalBpm} BPM at 1×); other sections scale by the same amount.`
+              : undefined
+          }
+        >
+          {hasTempoChanges ? "BPM (this section)" : "BPM"}
         </label>
         <input
           id="bpm-input"
@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useRef, useCallback, useMemo, useState } from "react";
-import { Play, Pause, RotateCcw, Sparkles, Loader2, ChevronDown, ChevronUp, SkipForward } from "lucide-react";
+import { Play, Pause, RotateCcw, Sparkles, Loader2, ChevronDown, ChevronUp, SkipForward, Keyboard, Repeat, X } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import type {
   MidiPlayerState,
@@ -9,15 +9,26 @@ import type {
   MidiPlayerRefs,
   NoteEvent,
 } from "@/lib/hooks/useMidiPlayer";
-import { usePracticeMode } from "@/lib/hooks/usePracticeMode";
+import { usePracticeMode, type PracticeHand } from "@/lib/hooks/usePracticeMode";
+import { usePracticeSessions } from "@/lib/hooks/usePracticeSessions";
+import { usePracticeDrills } from "@/lib/hooks/usePracticeDrills";
+import { useDifficultyPreference } from "@/lib/hooks/useDifficultyPreference";
+import { useComputerKeyboard } from "@/lib/hooks/useComputerKeyboard";
+import { useSpeedTrainer } from "@/lib/hooks/useSpeedTrainer";
+import { DifficultyControl } from "@/components/DifficultyControl";
+import { LatencyCalibration } from "@/components/LatencyCalibration";
+import { SpeedTrainerControl } from "@/components/SpeedTrainerControl";
 // NOTE: keep your existing import — we won’t change practice logic.
 // If you still want to use it elsewhere, leave it.
 // import { buildPracticePrompt } from "@/lib/piano/midi-helpers";
-import type { FlowingJudgment } from "@/lib/piano/midi-helpers";
+import { detectBassTrack, noteHand, type FlowingJudgment } from "@/lib/piano/midi-helpers";
+import { buildPracticeSummary } from "@/lib/piano/practice-summary";
+import { buildDrillSegments } from "@/lib/piano/drills";
 import {
   isBlackKey,
   buildKeyLayout,
   keyPosition,
+  keyAtPoint,
   midiToNoteName,
   noteColor,
   ACTIVE_KEY_COLOR,
@@ -37,9 +48,21 @@ const KEYBOARD_HEIGHT_RATIO = 0.15;
 const BLACK_KEY_HEIGHT_RATIO = 0.6;
 const MIN_BAR_PX = 6;
 
+/** Velocity tolerances (0–127) offered for dynamics scoring */
+const DYNAMICS_TOLERANCE_OPTIONS = [10, 20, 30];
+
+const HAND_OPTIONS: { value: PracticeHand; label: string }[] = [
+  { value: "both", label: "Both hands" },
+  { value: "right", label: "Right" },
+  { value: "left", label: "Left" },
+];
+
 // Judgment display constants
 const JUDGMENT_DURATION_MS = 1200;
 const JUDGMENT_FLOAT_PX = 40;
+/** Pause between speed-trainer passes, so the result can be read (ms) */
+const TRAINER_PAUSE_MS = 2000;
+const TRAINER_OUTCOME_LABELS = { up: "↑", down: "↓", mastered: "★" } as const;
 
 // ── Props ─────────────────────────────────────────────────────────────
 
@@ -50,158 +73,13 @@ interface PracticeTabProps {
   isFullscreen?: boolean;
   pianoSwitcher?: React.ReactNode;
   playbackSpeed?: number;
-}
-
-// ── In-memory summary (no DB) ─────────────────────────────────────────
-// This does NOT change your practice logic at all — it only summarizes
-// whatever is already in `sessionLog` for Gemini.
-type PracticeSummary = {
-  pieceTitle: string;
-  mode: "discrete" | "continuous" | "flowing";
-  totalSteps: number;
-
-  attempts: number;
-  hits: number;
-  wrongs: number;
-  accuracyPct: number;
-
-  // If your sessionLog includes per-event info, we’ll pick it up.
-  // Otherwise these will just be empty arrays.
-  topWrong: { midi: number; note: string; count: number }[];
-  topMissed: { midi: number; note: string; count: number }[];
-  hotspots: { step: number; fails: number }[];
-  playbackSpeed: number;
-};
-
-function buildPracticeSummary(args: {
-  sessionLog: any[];
-  totalSteps: number;
-  flowingTotalNotes: number;
-  pieceTitle: string;
-  mode: "discrete" | "continuous" | "flowing";
-  playbackSpeed: number;
-}): PracticeSummary {
-  const { sessionLog, totalSteps, flowingTotalNotes, pieceTitle, mode, playbackSpeed } = args;
-
-  const wrongByMidi = new Map<number, number>();
-  const missedByMidi = new Map<number, number>();
-  const failsByStep = new Map<number, number>();
-
-  let hits = 0;
-  let wrongs = 0;
-
-  // Fix 1: track unique steps to avoid inflating attempts on retries
-  const uniqueSteps = new Set<number>();
-
-  for (const e of sessionLog) {
-    const correct = !!e?.correct;
-
-    if (typeof e?.stepIndex === "number" && e.stepIndex >= 0) {
-      uniqueSteps.add(e.stepIndex);
-    }
-
-    if (correct) {
-      hits++;
-      continue;
-    }
-    wrongs++;
-
-    // Fix 3: only populate hotspots if stepIndex is actually present
-    if (typeof e?.stepIndex === "number" && e.stepIndex >= 0) {
-      failsByStep.set(e.stepIndex, (failsByStep.get(e.stepIndex) ?? 0) + 1);
-    }
-
-    // Fix 2: use actual sessionLog field names
-    if (typeof e?.playedMidi === "number" && e.playedMidi !== 0 && e?.rating !== "miss") {
-      wrongByMidi.set(e.playedMidi, (wrongByMidi.get(e.playedMidi) ?? 0) + 1);
-    }
-
-    if (e?.rating === "miss" && Array.isArray(e?.expectedMidis)) {
-      for (const m of e.expectedMidis) {
-        missedByMidi.set(m, (missedByMidi.get(m) ?? 0) + 1);
-      }
-    } else if (!correct && Array.isArray(e?.expectedMidis)) {
-      for (const m of e.expectedMidis) {
-        if (m !== e?.playedMidi) {
-          missedByMidi.set(m, (missedByMidi.get(m) ?? 0) + 1);
-        }
-      }
-    }
-  }
-
-  // Fix 1: use unique step count, fall back to sessionLog.length if no stepIndex present
-  const attempts = uniqueSteps.size > 0 ? uniqueSteps.size : sessionLog.length;
-
-  // For flowing mode, compute accuracy the same way the UI display does:
-  // flowingCorrect / (flowingCorrect + flowingMissed + flowingExtra)
-  // This accounts for extra/wrong notes the student played, matching the on-screen %.
-  if (mode === "flowing") {
-    const flowingCorrect = sessionLog.filter((e: any) => e.rating && e.rating !== "miss" && e.correct).length;
-    const flowingMissed = sessionLog.filter((e: any) => e.rating === "miss").length;
-    const flowingExtra = sessionLog.filter((e: any) => e.rating === undefined && !e.correct).length;
-    const flowingEvaluated = flowingCorrect + flowingMissed + flowingExtra;
-    const accuracyPct = flowingEvaluated > 0 ? Math.round((flowingCorrect / flowingEvaluated) * 100) : 100;
-
-    const topN = (m: Map<number, number>) =>
-      [...m.entries()]
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 5)
-        .map(([midi, count]) => ({ midi, note: midiToNoteName(midi), count }));
-
-    const hasStepInfo = uniqueSteps.size > 0;
-    const hotspots = hasStepInfo
-      ? [...failsByStep.entries()]
-          .sort((a, b) => b[1] - a[1])
-          .slice(0, 5)
-          .map(([step, fails]) => ({ step, fails }))
-      : [];
-
-    return {
-      pieceTitle,
-      mode,
-      totalSteps,
-      attempts,
-      hits: flowingCorrect,
-      wrongs: flowingMissed + flowingExtra,
-      accuracyPct,
-      topWrong: topN(wrongByMidi),
-      topMissed: topN(missedByMidi),
-      hotspots,
-      playbackSpeed,
-    };
-  }
-
-  const accuracyDenominator = attempts;
-  const accuracyPct = accuracyDenominator > 0 ? Math.round((hits / accuracyDenominator) * 100) : 0;
-
-  const topN = (m: Map<number, number>) =>
-    [...m.entries()]
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([midi, count]) => ({ midi, note: midiToNoteName(midi), count }));
-
-  // Fix 3: only include hotspots if step data was actually present
-  const hasStepInfo = uniqueSteps.size > 0;
-  const hotspots = hasStepInfo
-    ? [...failsByStep.entries()]
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 5)
-        .map(([step, fails]) => ({ step, fails }))
-    : [];
-
-  return {
-    pieceTitle,
-    mode,
-    totalSteps,
-    attempts,
-    hits,
-    wrongs,
-    accuracyPct,
-    topWrong: topN(wrongByMidi),
-    topMissed: topN(missedByMidi),
-    hotspots,
-    playbackSpeed,
-  };
+  /** Score id — practice runs are saved against it */
+  scoreId?: string;
+  /** Drill to practise instead of the whole piece (id in `practice_drills`) */
+  drillId?: string | null;
+  onExitDrill?: () => void;
+  /** Loop the drill passage in the player (start / end in player time) */
+  onLoopDrill?: (start: number, end: number) => void;
 }
 
 // ── Component ─────────────────────────────────────────────────────────
@@ -213,10 +91,35 @@ export function PracticeTab({
   isFullscreen = false,
   pianoSwitcher,
   playbackSpeed = 1,
+  scoreId,
+  drillId,
+  onExitDrill,
+  onLoopDrill,
 }: PracticeTabProps) {
   const { loadState, duration } = state;
   const { formatTime, getAllNotes, stopPlayback, togglePlayback, seekTo } = controls;
-  const { midiRef, pianoRef } = refs;
+  const { midiRef, pianoRef, metronomeRef, beatGridRef } = refs;
+
+  // ── Drills ──────────────────────────────────────────────────────
+  const { drills, addDrills, recordDrillRun } = usePracticeDrills(scoreId);
+  const drill = (drillId && drills.find((d) => d.id === drillId)) || null;
+
+  /** The notes to practise: the drill passage when one is open, else the whole piece */
+  const getPracticeNotes = useCallback(() => {
+    const notes = getAllNotes();
+    if (!drill) return notes;
+    const start = drill.start_ms / 1000;
+    const end = drill.end_ms / 1000;
+    return notes.filter((n) => n.time >= start && n.time < end);
+  }, [getAllNotes, drill]);
+
+  // Open a drill at its scheduled speed (once — the user may change it after)
+  const appliedDrillRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!drill || appliedDrillRef.current === drill.id) return;
+    appliedDrillRef.current = drill.id;
+    controls.setPlaybackSpeed(drill.playback_speed);
+  }, [drill, controls]);
 
   const layoutInfoRef = useRef<{ W: number; hitY: number; lo: number; hi: number; whiteCount: number } | null>(null);
 
@@ -228,11 +131,16 @@ export function PracticeTab({
     judgmentsRef,
     flowingAllNotesRef,
     flowingMatchedRef,
-  } = usePracticeMode(midiRef, pianoRef, getAllNotes, layoutInfoRef, playbackSpeed);
+  } = usePracticeMode(midiRef, pianoRef, getPracticeNotes, layoutInfoRef, playbackSpeed, {
+    metronomeRef,
+    beatGridRef,
+    countInBars: state.countInBars,
+  });
 
   const {
     status,
     practiceMode,
+    practiceHand,
     practiceTime,
     currentStepIndex,
     totalSteps,
@@ -247,9 +155,66 @@ export function PracticeTab({
     heldNotes,
     showSkipButton,
     flowingTotalNotes,
+    dynamicsEnabled,
+    dynamicsTolerance,
+    difficulty,
+    latencyOffsetMs,
   } = practiceState;
 
-  const { start, reset, skipStep, setActiveDevice, setPracticeMode, togglePause } = practiceControls;
+  const {
+    start,
+    reset,
+    skipStep,
+    setActiveDevice,
+    setPracticeMode,
+    setPracticeHand,
+    togglePause,
+    setDynamicsEnabled,
+    setDynamicsTolerance,
+    setDifficulty,
+    setLatencyOffset,
+    virtualNoteOn,
+    virtualNoteOff,
+  } = practiceControls;
+
+  // ── Virtual input (computer keyboard + on-screen keys) ──────────
+  const [computerKeysEnabled, setComputerKeysEnabled] = useState(true);
+  const { octave } = useComputerKeyboard({
+    enabled: computerKeysEnabled,
+    onNoteOn: virtualNoteOn,
+    onNoteOff: virtualNoteOff,
+  });
+
+  // ── Difficulty (saved per user) ─────────────────────────────────
+  const { preference: difficultyPreference, savePreference: saveDifficulty } = useDifficultyPreference();
+
+  useEffect(() => {
+    setDifficulty(difficultyPreference);
+  }, [difficultyPreference, setDifficulty]);
+
+  // ── Session history ─────────────────────────────────────────────
+  const { saveSession } = usePracticeSessions(scoreId);
+  /** Set once the current run has been written, so complete + reset don't save twice */
+  const sessionSavedRef = useRef(false);
+
+  // ── Speed trainer (flowing only) ────────────────────────────────
+  const trainer = useSpeedTrainer(scoreId);
+  const { running: trainerRunning, begin: beginTrainer, recordPass: recordTrainerPass, stop: stopTrainer } = trainer;
+  const trainerActive = trainer.enabled && practiceMode === "flowing";
+  /** Speed the next trainer pass waits for before starting */
+  const [pendingTrainerSpeed, setPendingTrainerSpeed] = useState<number | null>(null);
+  const trainerTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => () => {
+    if (trainerTimerRef.current) clearTimeout(trainerTimerRef.current);
+  }, []);
+
+  // ── Count-in ────────────────────────────────────────────────────
+  /** True while the count-in clicks before flowing practice are sounding */
+  const [countingIn, setCountingIn] = useState(false);
+  const countInTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => () => {
+    if (countInTimerRef.current) clearTimeout(countInTimerRef.current);
+  }, []);
 
   // ── AI Feedback state (added; does not affect practice logic) ───────
   const [feedbackText, setFeedbackText] = useState<string | null>(null);
@@ -263,29 +228,8 @@ export function PracticeTab({
   const rafRef = useRef<number>(0);
   const notesCache = useRef<NoteEvent[]>([]);
 
-  // ── Bass track detection (same as FallingNotesTab) ──────────────
-  const bassTrack = useMemo(() => {
-    const notes = getAllNotes();
-    if (notes.length === 0) return -1;
-    const trackPitchSums = new Map<number, { sum: number; count: number }>();
-    for (const n of notes) {
-      const entry = trackPitchSums.get(n.track) ?? { sum: 0, count: 0 };
-      entry.sum += n.midi;
-      entry.count++;
-      trackPitchSums.set(n.track, entry);
-    }
-    if (trackPitchSums.size < 2) return -1;
-    let lowestAvg = Infinity;
-    let lowestTrack = -1;
-    for (const [track, { sum, count }] of trackPitchSums) {
-      const avg = sum / count;
-      if (avg < lowestAvg) {
-        lowestAvg = avg;
-        lowestTrack = track;
-      }
-    }
-    return lowestTrack;
-  }, [getAllNotes]);
+  // ── Bass track detection (shared with FallingNotesTab) ──────────
+  const bassTrack = useMemo(() => detectBassTrack(getAllNotes()), [getAllNotes]);
 
   // ── Layout computation ──────────────────────────────────────────
   const layout = useMemo(() => {
@@ -331,6 +275,8 @@ export function PracticeTab({
 
   const practiceModeRef = useRef(practiceMode);
   useEffect(() => { practiceModeRef.current = practiceMode; }, [practiceMode]);
+  const practiceHandRef = useRef(practiceHand);
+  useEffect(() => { practiceHandRef.current = practiceHand; }, [practiceHand]);
 
   // ── Resize observer ─────────────────────────────────────────────
   useEffect(() => {
@@ -355,35 +301,188 @@ export function PracticeTab({
     return () => observer.disconnect();
   }, []);
 
+  // ── On-screen keys ──────────────────────────────────────────────
+  /** Pointer id → key it is holding, so several fingers can play at once */
+  const keyPointersRef = useRef<Map<number, number>>(new Map());
+
+  const keyUnderPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const info = layoutInfoRef.current;
+    if (!info) return null;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const kbHeight = rect.height - info.hitY;
+    return keyAtPoint(
+      e.clientX - rect.left,
+      e.clientY - rect.top - info.hitY,
+      info.lo,
+      info.hi,
+      info.whiteCount,
+      info.W,
+      kbHeight * BLACK_KEY_HEIGHT_RATIO,
+    );
+  };
+
+  const handleKeyPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const midi = keyUnderPointer(e);
+    if (midi === null) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    keyPointersRef.current.set(e.pointerId, midi);
+    virtualNoteOn(midi);
+  };
+
+  // Sliding across the keys plays each one in turn
+  const handleKeyPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const held = keyPointersRef.current.get(e.pointerId);
+    if (held === undefined) return;
+    const midi = keyUnderPointer(e);
+    if (midi === held) return;
+    virtualNoteOff(held);
+    if (midi === null) {
+      keyPointersRef.current.delete(e.pointerId);
+      return;
+    }
+    keyPointersRef.current.set(e.pointerId, midi);
+    virtualNoteOn(midi);
+  };
+
+  const handleKeyPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const held = keyPointersRef.current.get(e.pointerId);
+    if (held === undefined) return;
+    keyPointersRef.current.delete(e.pointerId);
+    virtualNoteOff(held);
+  };
+
   // ── Stop regular playback when practice starts ──────────────────
   const handleStart = useCallback(async () => {
-    if (midiDevices.length === 0) return;
     stopPlayback();
-    start();
+    const countInMs = start();
+    sessionSavedRef.current = false;
 
     // In flowing mode, start MIDI audio playback so the user can hear
-    // the reference piece while they play along.
-    if (practiceMode === "flowing") {
+    // the reference piece while they play along. When practising one hand
+    // the hook auto-plays the other hand instead, so skip the full mix.
+    const startReference = async () => {
+      if (practiceMode !== "flowing" || practiceHand !== "both") return;
       await togglePlayback();
-      const allNotes = getAllNotes();
+      const allNotes = getPracticeNotes();
       if (allNotes.length > 0) {
         const sorted = [...allNotes].sort((a, b) => a.time - b.time);
         const startOffset = Math.max(0, sorted[0].time - 2);
         seekTo(startOffset);
       }
+    };
+
+    // The practice clock holds still during the count-in; the reference follows it
+    if (countInMs > 0) {
+      setCountingIn(true);
+      countInTimerRef.current = setTimeout(() => {
+        countInTimerRef.current = null;
+        setCountingIn(false);
+        startReference();
+      }, countInMs);
+    } else {
+      await startReference();
     }
 
     // Feedback UI reset (does not affect practice logic)
     setFeedbackText(null);
     setFeedbackError(null);
     setShowFeedback(false);
-  }, [stopPlayback, start, practiceMode, togglePlayback, getAllNotes, seekTo, midiDevices.length]);
+  }, [stopPlayback, start, practiceMode, practiceHand, togglePlayback, getPracticeNotes, seekTo]);
+
+  // ── Summary of the current run ──────────────────────────────────
+  const summarize = useCallback(
+    () =>
+      buildPracticeSummary({
+        sessionLog,
+        totalSteps: practiceMode === "flowing" ? flowingTotalNotes : totalSteps,
+        flowingTotalNotes,
+        pieceTitle: state.title || "this piece",
+        mode: practiceMode,
+        playbackSpeed,
+        difficulty,
+        latencyOffsetMs,
+      }),
+    [sessionLog, totalSteps, flowingTotalNotes, practiceMode, state.title, playbackSpeed, difficulty, latencyOffsetMs]
+  );
+
+  // ── Persist the run when it completes or is reset ───────────────
+  // A drill run reschedules its drill; a full run turns its hotspots into drills.
+  const persistSession = useCallback(
+    (completed: boolean) => {
+      if (sessionSavedRef.current || sessionLog.length === 0) return null;
+      sessionSavedRef.current = true;
+      const summary = summarize();
+      const trainerPass =
+        completed && trainerRunning ? recordTrainerPass(summary.accuracyPct, playbackSpeed) : null;
+      if (trainerPass) summary.speedTrainer = { pass: trainerPass.index, outcome: trainerPass.outcome };
+      saveSession({ summary, sessionLog, completed });
+
+      if (drill) {
+        if (completed) recordDrillRun(drill, summary.accuracyPct);
+        return trainerPass;
+      }
+      addDrills(
+        buildDrillSegments({
+          hotspots: summary.hotspots,
+          // Hotspot steps are note indices in flowing mode, step indices otherwise
+          stepTime: (step) =>
+            practiceMode === "flowing" ? flowingAllNotesRef.current[step]?.time : stepsRef.current[step]?.time,
+          grid: beatGridRef.current ?? [],
+          pieceEnd: duration,
+        }),
+      );
+      return trainerPass;
+    },
+    [sessionLog, summarize, saveSession, trainerRunning, recordTrainerPass, playbackSpeed, drill, recordDrillRun, addDrills, practiceMode, flowingAllNotesRef, stepsRef, beatGridRef, duration]
+  );
+
+  useEffect(() => {
+    if (!isComplete) return;
+    const trainerPass = persistSession(true);
+    // The reference recording would otherwise play on past the drill passage
+    if (drill || trainerPass) stopPlayback();
+    if (trainerPass?.nextSpeed != null) {
+      const nextSpeed = trainerPass.nextSpeed;
+      trainerTimerRef.current = setTimeout(() => {
+        trainerTimerRef.current = null;
+        controls.setPlaybackSpeed(nextSpeed);
+        setPendingTrainerSpeed(nextSpeed);
+      }, TRAINER_PAUSE_MS);
+    }
+  }, [isComplete, persistSession, drill, stopPlayback, controls]);
+
+  // Start a trainer pass once the new speed has reached the practice hook
+  useEffect(() => {
+    if (pendingTrainerSpeed === null || Math.abs(playbackSpeed - pendingTrainerSpeed) > 0.001) return;
+    setPendingTrainerSpeed(null);
+    reset();
+    handleStart();
+  }, [pendingTrainerSpeed, playbackSpeed, reset, handleStart]);
+
+  /** Start button: a ramp begins at the trainer's start speed */
+  const handleStartRun = useCallback(() => {
+    if (!trainerActive) {
+      handleStart();
+      return;
+    }
+    const speed = beginTrainer();
+    controls.setPlaybackSpeed(speed);
+    setPendingTrainerSpeed(speed);
+  }, [trainerActive, beginTrainer, controls, handleStart]);
 
   // ── Stop audio when resetting ───────────────────────────────────
   const handleReset = useCallback(() => {
+    if (countInTimerRef.current) clearTimeout(countInTimerRef.current);
+    countInTimerRef.current = null;
+    setCountingIn(false);
+    if (trainerTimerRef.current) clearTimeout(trainerTimerRef.current);
+    trainerTimerRef.current = null;
+    setPendingTrainerSpeed(null);
+    stopTrainer();
+    persistSession(false);
     reset();
     stopPlayback();
-  }, [reset, stopPlayback]);
+  }, [persistSession, reset, stopPlayback, stopTrainer]);
 
   // ── AI Feedback (added; does not affect practice logic) ──────────
   const getFeedback = useCallback(async () => {
@@ -391,34 +490,42 @@ export function PracticeTab({
 
     setFeedbackLoading(true);
     setFeedbackError(null);
+    setFeedbackText(null);
+    setShowFeedback(true);
 
     try {
-      const summary = buildPracticeSummary({
-        sessionLog,
-        totalSteps: practiceMode === "flowing" ? flowingTotalNotes : totalSteps,
-        flowingTotalNotes,
-        pieceTitle: state.title || "this piece",
-        mode: practiceMode,
-        playbackSpeed,
-      });
+      const summary = summarize();
       const res = await fetch("/api/piano-feedback", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ summary }),
+        body: JSON.stringify({ summary, stream: true }),
       });
 
-      if (!res.ok) throw new Error(`API error ${res.status}`);
-
-      const data: { text?: string } = await res.json();
-      const text = (data.text ?? "").trim();
-      setFeedbackText(text || "No feedback returned.");
-      setShowFeedback(true);
+      if (!res.ok) {
+        // The route reports failures as `{ error }` JSON
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error ?? `API error ${res.status}`);
+      }
+      if (!res.body) throw new Error(`API error ${res.status}`);
+
+      // Render the Markdown as it streams in, word by word
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let text = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value, { stream: true });
+        setFeedbackText(text);
+      }
+      text += decoder.decode();
+      setFeedbackText(text.trim() || "No feedback returned.");
     } catch (e: unknown) {
       setFeedbackError(e instanceof Error ? e.message : "Unknown error");
     } finally {
       setFeedbackLoading(false);
     }
-  }, [sessionLog, totalSteps, flowingTotalNotes, practiceMode, state.title, playbackSpeed]);
+  }, [sessionLog, summarize]);
 
   // ── Render loop ─────────────────────────────────────────────────
   const draw = useCallback(() => {
@@ -445,6 +552,7 @@ export function PracticeTab({
     const curStatus = statusRef.current;
     const curHeld = heldNotesRef.current;
     const curMode = practiceModeRef.current;
+    const curHand = practiceHandRef.current;
     const isFlowing = curMode === "flowing";
 
     // Clear
@@ -476,12 +584,15 @@ export function PracticeTab({
       const barX = pos.x + 1;
       const barW = pos.w - 2;
       const radius = Math.min(4, barW / 2, barHeight / 2);
-      const isBass = bassTrack >= 0 ? note.track === bassTrack : note.midi < 60;
+      const hand = noteHand(note, bassTrack);
+      const isBass = hand === "left";
+      // Dim the auto-played hand so the practised notes stand out
+      const isAccompaniment = curHand !== "both" && hand !== curHand;
 
       // Determine note color — highlight expected notes at the hit line (not in flowing mode)
-      let fillAlpha = 0.85;
+      let fillAlpha = isAccompaniment ? 0.25 : 0.85;
       let isExpectedNote = false;
-      if (!isFlowing && curExpected.has(note.midi) && Math.abs(note.time - currentTime) < 0.05) {
+      if (!isFlowing && !isAccompaniment && curExpected.has(note.midi) && Math.abs(note.time - currentTime) < 0.05) {
         isExpectedNote = true;
         fillAlpha = 1;
       }
@@ -649,6 +760,14 @@ export function PracticeTab({
         ctx.shadowColor = "rgba(0,0,0,0.5)";
         ctx.shadowBlur = 4;
         ctx.fillText(j.text, j.x, j.y - floatOffset);
+
+        // Secondary line (dynamics) just under the timing judgment
+        if (j.detail) {
+          ctx.fillStyle = j.detail.color;
+          ctx.font = "bold 11px system-ui, sans-serif";
+          ctx.textBaseline = "top";
+          ctx.fillText(j.detail.text, j.x, j.y - floatOffset + 2);
+        }
         ctx.shadowBlur = 0;
         ctx.restore();
       }
@@ -770,6 +889,37 @@ export function PracticeTab({
           : "space-y-4"
       }`}
     >
+      {/* Drill banner */}
+      {drill && (
+        <div className="flex flex-wrap items-center justify-center gap-3 rounded-full border border-pink-200 bg-pink-50/80 px-4 py-2 text-xs text-[#2D3142] shrink-0">
+          <span className="font-medium text-pink-600">Drill: {drill.label}</span>
+          <span className="text-slate-500">
+            Suggested speed {drill.playback_speed}×
+            {drill.last_accuracy_pct !== null && ` · last run ${Math.round(drill.last_accuracy_pct)}%`}
+          </span>
+          {onLoopDrill && (
+            <button
+              onClick={() => onLoopDrill(drill.start_ms / 1000, drill.end_ms / 1000)}
+              disabled={status !== "idle"}
+              className="flex items-center gap-1 rounded-full border border-pink-200 bg-white px-2.5 py-1 text-pink-500 hover:bg-pink-50 transition disabled:opacity-40"
+            >
+              <Repeat className="w-3 h-3" />
+              Listen in a loop
+            </button>
+          )}
+          {onExitDrill && (
+            <button
+              onClick={onExitDrill}
+              disabled={status !== "idle"}
+              className="flex items-center gap-1 rounded-full px-2 py-1 text-slate-500 hover:text-pink-600 transition disabled:opacity-40"
+            >
+              <X className="w-3 h-3" />
+              Whole piece
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Canvas */}
       <div
         ref={containerRef}
@@ -780,26 +930,28 @@ export function PracticeTab({
         }`}
         style={isFullscreen ? undefined : { height: "min(60vh, 520px)" }}
       >
-        <canvas ref={canvasRef} className="block w-full h-full" />
+        <canvas
+          ref={canvasRef}
+          className="block w-full h-full touch-none"
+          onPointerDown={handleKeyPointerDown}
+          onPointerMove={handleKeyPointerMove}
+          onPointerUp={handleKeyPointerUp}
+          onPointerCancel={handleKeyPointerUp}
+        />
 
         {/* Start overlay */}
         {status === "idle" && (
           <button
-            onClick={handleStart}
-            disabled={midiDevices.length === 0}
-            className={`absolute inset-0 flex items-center justify-center bg-black/20 transition-colors group ${
-              midiDevices.length === 0 ? "cursor-not-allowed" : "hover:bg-black/30"
-            }`}
+            onClick={handleStartRun}
+            className="absolute inset-0 flex items-center justify-center bg-black/20 hover:bg-black/30 transition-colors group"
             aria-label="Start Practice"
           >
-            <div className={`w-16 h-16 rounded-full flex items-center justify-center shadow-xl transition-colors ${
-              midiDevices.length === 0 ? "bg-gray-400/90" : "bg-green-400/90 group-hover:bg-green-500"
-            }`}>
+            <div className="w-16 h-16 rounded-full flex items-center justify-center shadow-xl transition-colors bg-green-400/90 group-hover:bg-green-500">
               <Play className="w-7 h-7 text-white ml-1" />
             </div>
             {midiDevices.length === 0 && (
               <div className="absolute mt-24 text-white font-medium bg-black/50 px-4 py-2 rounded-full">
-                Please connect a MIDI device to start
+                No MIDI device — play with your computer keyboard or tap the keys
               </div>
             )}
           </button>
@@ -811,8 +963,7 @@ export function PracticeTab({
         {/* Start / Reset */}
         {status === "idle" ? (
           <button
-            onClick={handleStart}
-            disabled={midiDevices.length === 0}
+            onClick={handleStartRun}
             className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-green-500 hover:bg-green-600 text-white text-sm font-medium transition disabled:opacity-40"
           >
             <Play className="w-4 h-4" />
@@ -824,12 +975,13 @@ export function PracticeTab({
               <button
                 onClick={() => {
                   togglePause();
-                  togglePlayback();
+                  if (practiceHand === "both") togglePlayback();
                 }}
-                className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-amber-500 hover:bg-amber-600 text-white text-sm font-medium transition"
+                disabled={countingIn}
+                className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-amber-500 hover:bg-amber-600 text-white text-sm font-medium transition disabled:opacity-40"
               >
                 {status === "paused" ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
-                {status === "paused" ? "Resume" : "Pause"}
+                {countingIn ? "Count-in…" : status === "paused" ? "Resume" : "Pause"}
               </button>
             )}
             <button
@@ -859,6 +1011,31 @@ export function PracticeTab({
           <span className="text-xs text-red-400">No MIDI device</span>
         )}
 
+        {/* Computer keyboard input: A–' play from C, Z / X shift the octave */}
+        <button
+          onClick={() => setComputerKeysEnabled((on) => !on)}
+          aria-pressed={computerKeysEnabled}
+          title="Play with the computer keyboard: A–' are the white keys from C, W E T Y U O P the black keys, Z / X change octave"
+          className={`flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-xs font-medium transition ${
+            computerKeysEnabled
+              ? "bg-pink-400 border-pink-400 text-white"
+              : "bg-white border-pink-200 text-pink-400 hover:bg-pink-50"
+          }`}
+        >
+          <Keyboard className="w-3.5 h-3.5" />
+          {computerKeysEnabled ? `Keys: C${octave}` : "Keys off"}
+        </button>
+
+        {/* Latency calibration for the selected device */}
+        {midiDevices.length > 0 && (
+          <LatencyCalibration
+            device={midiDevices.find((d) => d.id === activeDevice)?.ref}
+            offsetMs={latencyOffsetMs}
+            onSave={setLatencyOffset}
+            disabled={status !== "idle"}
+          />
+        )}
+
         {/* Skip step (escape hatch) — not shown in flowing mode */}
         {!isFlowingMode && showSkipButton && status !== "idle" && status !== "complete" && (
           <button
@@ -904,6 +1081,74 @@ export function PracticeTab({
           </button>
         </div>
 
+        {/* Hand toggle: Both / Right / Left */}
+        <div className="flex rounded-full border border-pink-200 bg-white overflow-hidden text-xs font-medium">
+          {HAND_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => setPracticeHand(opt.value)}
+              disabled={status !== "idle"}
+              className={`px-3 py-1.5 transition disabled:cursor-not-allowed ${
+                practiceHand === opt.value
+                  ? "bg-pink-400 text-white"
+                  : "text-pink-400 hover:bg-pink-50 disabled:hover:bg-transparent"
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Difficulty profile */}
+        <DifficultyControl value={difficulty} onChange={saveDifficulty} disabled={status !== "idle"} />
+
+        {/* Speed trainer — flowing only */}
+        {isFlowingMode && (
+          <SpeedTrainerControl
+            enabled={trainer.enabled}
+            onEnabledChange={trainer.setEnabled}
+            config={trainer.config}
+            onConfigChange={trainer.setConfig}
+            bestSpeed={trainer.bestSpeed}
+            disabled={status !== "idle" || trainerRunning}
+          />
+        )}
+
+        {/* Dynamics scoring — flowing only */}
+        {isFlowingMode && (
+          <div className="flex rounded-full border border-pink-200 bg-white overflow-hidden text-xs font-medium">
+            <button
+              onClick={() => setDynamicsEnabled(!dynamicsEnabled)}
+              disabled={status !== "idle"}
+              aria-pressed={dynamicsEnabled}
+              title="Also judge how hard each note is played"
+              className={`px-3 py-1.5 transition disabled:cursor-not-allowed ${
+                dynamicsEnabled
+                  ? "bg-pink-400 text-white"
+                  : "text-pink-400 hover:bg-pink-50 disabled:hover:bg-transparent"
+              }`}
+            >
+              Dynamics
+            </button>
+            {dynamicsEnabled &&
+              DYNAMICS_TOLERANCE_OPTIONS.map((tol) => (
+                <button
+                  key={tol}
+                  onClick={() => setDynamicsTolerance(tol)}
+                  disabled={status !== "idle"}
+                  title={`Velocity within ±${tol} of the reference counts as good`}
+                  className={`px-2.5 py-1.5 transition disabled:cursor-not-allowed ${
+                    dynamicsTolerance === tol
+                      ? "bg-pink-100 text-pink-600"
+                      : "text-pink-400 hover:bg-pink-50 disabled:hover:bg-transparent"
+                  }`}
+                >
+                  ±{tol}
+                </button>
+              ))}
+          </div>
+        )}
+
         {/* Progress — discrete/continuous */}
         {!isFlowingMode && status !== "idle" && (
           <span className="text-xs text-slate-400 tabular-nums">
@@ -965,6 +1210,32 @@ export function PracticeTab({
         {pianoSwitcher && <div className="ml-1">{pianoSwitcher}</div>}
       </div>
 
+      {/* Speed-trainer ramp */}
+      {trainerActive && trainer.passes.length > 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+          <span className="font-medium text-pink-600">Ramp</span>
+          {trainer.passes.map((pass, i) => (
+            <span
+              key={i}
+              className={`rounded-full border px-2.5 py-0.5 tabular-nums ${
+                pass.outcome === "down"
+                  ? "text-red-500 bg-red-50 border-red-200"
+                  : "text-green-600 bg-green-50 border-green-200"
+              }`}
+            >
+              {Math.round(pass.speed * 100)}% · {Math.round(pass.accuracyPct)}% {TRAINER_OUTCOME_LABELS[pass.outcome]}
+            </span>
+          ))}
+          {trainerRunning ? (
+            <span className="text-slate-400">next pass starts shortly…</span>
+          ) : (
+            trainer.passes[trainer.passes.length - 1].outcome === "mastered" && (
+              <span className="text-green-600">Mastered at {Math.round(trainer.config.targetSpeed * 100)}%</span>
+            )
+          )}
+        </div>
+      )}
+
       {/* Error */}
       {error && (
         <div className="p-3 rounded-xl bg-red-50 border border-red-100 text-red-500 text-sm text-center">
@@ -982,6 +1253,7 @@ export function PracticeTab({
             <span className="flex items-center gap-2">
               <Sparkles className="w-4 h-4" />
               AI Feedback
+              {feedbackLoading && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
             </span>
             {showFeedback ? (
               <ChevronUp className="w-4 h-4" />
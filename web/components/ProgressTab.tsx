@@ -0,0 +1,220 @@
+"use client";
+
+import { Loader2, TrendingUp } from "lucide-react";
+import { usePracticeSessions, type PracticeSessionRecord } from "@/lib/hooks/usePracticeSessions";
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+const CHART_W = 640;
+const CHART_H = 220;
+const PAD = { top: 16, right: 48, bottom: 28, left: 40 };
+const ACCURACY_COLOR = "#F472B6"; // pink-400
+const TIMING_COLOR = "#F59E0B"; // amber-500
+/** Minimum ± range of the timing axis so small offsets don't look dramatic */
+const MIN_TIMING_RANGE_MS = 50;
+const RECENT_COUNT = 8;
+const TRAINER_OUTCOME_LABELS = { up: "↑", down: "↓", mastered: "★" } as const;
+
+// ── Props ─────────────────────────────────────────────────────────────
+
+interface ProgressTabProps {
+  scoreId: string | undefined;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+function formatOffset(ms: number | null) {
+  if (ms === null) return "—";
+  if (ms === 0) return "on time";
+  return `${Math.abs(ms)} ms ${ms < 0 ? "early" : "late"}`;
+}
+
+// ── Chart ─────────────────────────────────────────────────────────────
+
+/** Accuracy (left axis, %) and average timing offset (right axis, ms) per session. */
+function ProgressChart({ sessions }: { sessions: PracticeSessionRecord[] }) {
+  const innerW = CHART_W - PAD.left - PAD.right;
+  const innerH = CHART_H - PAD.top - PAD.bottom;
+
+  const xAt = (i: number) =>
+    PAD.left + (sessions.length > 1 ? (i / (sessions.length - 1)) * innerW : innerW / 2);
+  const yAccuracy = (pct: number) => PAD.top + (1 - pct / 100) * innerH;
+
+  const timingRange = Math.max(
+    MIN_TIMING_RANGE_MS,
+    ...sessions.map((s) => Math.abs(s.avg_timing_offset_ms ?? 0)),
+  );
+  const yTiming = (ms: number) => PAD.top + (0.5 - ms / (2 * timingRange)) * innerH;
+
+  const accuracyPoints = sessions.map((s, i) => `${xAt(i)},${yAccuracy(s.accuracy_pct)}`).join(" ");
+  const timed = sessions
+    .map((s, i) => ({ i, ms: s.avg_timing_offset_ms }))
+    .filter((p): p is { i: number; ms: number } => p.ms !== null);
+  const timingPoints = timed.map((p) => `${xAt(p.i)},${yTiming(p.ms)}`).join(" ");
+
+  // Label at most ~6 sessions along the x axis
+  const labelEvery = Math.max(1, Math.ceil(sessions.length / 6));
+
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto" role="img" aria-label="Practice progress chart">
+      {/* Accuracy grid */}
+      {[0, 25, 50, 75, 100].map((pct) => (
+        <g key={pct}>
+          <line
+            x1={PAD.left}
+            x2={CHART_W - PAD.right}
+            y1={yAccuracy(pct)}
+            y2={yAccuracy(pct)}
+            stroke="#FCE7F3"
+            strokeWidth={1}
+          />
+          <text x={PAD.left - 6} y={yAccuracy(pct) + 3} textAnchor="end" fontSize={10} fill="#94A3B8">
+            {pct}%
+          </text>
+        </g>
+      ))}
+
+      {/* Timing axis (right): early below zero, late above */}
+      {[-timingRange, 0, timingRange].map((ms) => (
+        <text
+          key={ms}
+          x={CHART_W - PAD.right + 6}
+          y={yTiming(ms) + 3}
+          fontSize={10}
+          fill={TIMING_COLOR}
+        >
+          {ms > 0 ? "+" : ""}
+          {Math.round(ms)}ms
+        </text>
+      ))}
+      <line
+        x1={PAD.left}
+        x2={CHART_W - PAD.right}
+        y1={yTiming(0)}
+        y2={yTiming(0)}
+        stroke={TIMING_COLOR}
+        strokeOpacity={0.3}
+        strokeDasharray="4 4"
+      />
+
+      {/* Series */}
+      {timed.length > 1 && (
+        <polyline points={timingPoints} fill="none" stroke={TIMING_COLOR} strokeWidth={2} strokeOpacity={0.8} />
+      )}
+      {timed.map((p) => (
+        <circle key={`t${p.i}`} cx={xAt(p.i)} cy={yTiming(p.ms)} r={3} fill={TIMING_COLOR} />
+      ))}
+      {sessions.length > 1 && (
+        <polyline points={accuracyPoints} fill="none" stroke={ACCURACY_COLOR} strokeWidth={2.5} />
+      )}
+      {sessions.map((s, i) => (
+        <circle key={s.id} cx={xAt(i)} cy={yAccuracy(s.accuracy_pct)} r={4} fill={ACCURACY_COLOR}>
+          <title>
+            {formatDate(s.created_at)} · {Math.round(s.accuracy_pct)}% · {s.mode} · {s.playback_speed}x
+          </title>
+        </circle>
+      ))}
+
+      {/* X labels */}
+      {sessions.map((s, i) =>
+        i % labelEvery === 0 || i === sessions.length - 1 ? (
+          <text key={`x${s.id}`} x={xAt(i)} y={CHART_H - 8} textAnchor="middle" fontSize={10} fill="#94A3B8">
+            {formatDate(s.created_at)}
+          </text>
+        ) : null,
+      )}
+    </svg>
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+
+export function ProgressTab({ scoreId }: ProgressTabProps) {
+  const { sessions, loading, error } = usePracticeSessions(scoreId);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 text-pink-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-sm text-red-400 py-12">Couldn&apos;t load practice history: {error}</p>;
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 gap-2 text-slate-400">
+        <TrendingUp className="w-8 h-8 text-pink-300" />
+        <p className="text-sm">No practice sessions yet — finish a run in the Practice tab to start tracking progress.</p>
+      </div>
+    );
+  }
+
+  const best = Math.max(...sessions.map((s) => s.accuracy_pct));
+  const latest = sessions[sessions.length - 1];
+  const recent = sessions.slice(-RECENT_COUNT).reverse();
+
+  return (
+    <div className="space-y-6">
+      {/* Headline stats */}
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="rounded-2xl border border-pink-100 bg-white/60 p-3">
+          <div className="text-xs text-slate-400">Sessions</div>
+          <div className="text-xl font-semibold text-[#2D3142] tabular-nums">{sessions.length}</div>
+        </div>
+        <div className="rounded-2xl border border-pink-100 bg-white/60 p-3">
+          <div className="text-xs text-slate-400">Latest accuracy</div>
+          <div className="text-xl font-semibold text-pink-500 tabular-nums">{Math.round(latest.accuracy_pct)}%</div>
+        </div>
+        <div className="rounded-2xl border border-pink-100 bg-white/60 p-3">
+          <div className="text-xs text-slate-400">Best accuracy</div>
+          <div className="text-xl font-semibold text-green-600 tabular-nums">{Math.round(best)}%</div>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div className="rounded-2xl border border-pink-100 bg-white/60 p-4 space-y-2">
+        <div className="flex items-center gap-4 text-xs text-slate-500">
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-0.5 rounded-full" style={{ backgroundColor: ACCURACY_COLOR }} />
+            Accuracy
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-0.5 rounded-full" style={{ backgroundColor: TIMING_COLOR }} />
+            Avg. timing offset
+          </span>
+        </div>
+        <ProgressChart sessions={sessions} />
+      </div>
+
+      {/* Recent sessions */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-[#2D3142]">Recent sessions</h3>
+        <ul className="divide-y divide-pink-50 rounded-2xl border border-pink-100 bg-white/60 text-xs">
+          {recent.map((s) => (
+            <li key={s.id} className="flex items-center gap-3 px-4 py-2">
+              <span className="w-16 text-slate-400">{formatDate(s.created_at)}</span>
+              <span className="w-20 capitalize text-slate-500">{s.mode}</span>
+              <span className="w-12 text-slate-500 tabular-nums">{s.playback_speed}x</span>
+              <span className="w-12 font-medium text-pink-500 tabular-nums">{Math.round(s.accuracy_pct)}%</span>
+              <span className="flex-1 text-slate-400">{formatOffset(s.avg_timing_offset_ms)}</span>
+              {s.summary?.speedTrainer && (
+                <span className="text-slate-400">
+                  trainer pass {s.summary.speedTrainer.pass} {TRAINER_OUTCOME_LABELS[s.summary.speedTrainer.outcome]}
+                </span>
+              )}
+              {!s.completed && <span className="text-amber-500">reset early</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
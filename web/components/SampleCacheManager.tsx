@@ -0,0 +1,90 @@
+"use client";
+
+import { HardDriveDownload, Download, Loader2, Trash2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import { useSampleCache } from "@/lib/hooks/useSampleCache";
+import { SAMPLE_INSTRUMENTS } from "@/lib/piano/sample-cache";
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+
+/** Offline piano samples: what each instrument has stored, with download / remove. */
+export function SampleCacheManager() {
+  const { supported, entries, busy, error, download, evict } = useSampleCache();
+  const savedCount = SAMPLE_INSTRUMENTS.filter(({ id }) => entries[id]).length;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="flex items-center gap-1.5 rounded-full bg-white/80 backdrop-blur-md border border-pink-100 shadow-sm px-3 py-1.5 text-xs text-slate-500 hover:text-pink-600 hover:border-pink-200 transition-all"
+          title="Offline piano samples"
+        >
+          <HardDriveDownload className="w-3.5 h-3.5" />
+          <span className="hidden sm:inline tabular-nums">
+            {savedCount}/{SAMPLE_INSTRUMENTS.length}
+          </span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="top" align="end" className="w-72">
+        <DropdownMenuLabel>Offline samples</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <div className="space-y-2 px-2 py-1.5">
+          {SAMPLE_INSTRUMENTS.map(({ id, label }) => {
+            const entry = entries[id];
+            return (
+              <div key={id} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-medium text-[#2D3142]">{label}</div>
+                  <div className="text-[11px] text-slate-400">
+                    {entry ? `Saved · ${entry.files} files · ${formatBytes(entry.bytes)}` : "Not saved"}
+                  </div>
+                </div>
+                {busy === id ? (
+                  <Loader2 className="w-4 h-4 text-pink-400 animate-spin" />
+                ) : entry ? (
+                  <button
+                    onClick={() => evict(id)}
+                    disabled={busy !== null}
+                    className="rounded-full p-1.5 text-slate-400 hover:bg-pink-50 hover:text-red-500 transition disabled:opacity-40"
+                    title={`Remove ${label} samples`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => download(id)}
+                    disabled={busy !== null || !supported}
+                    className="rounded-full p-1.5 text-pink-400 hover:bg-pink-50 transition disabled:opacity-40"
+                    title={`Download ${label} for offline use`}
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+
+          {error && <p className="text-[11px] text-red-400">{error}</p>}
+          <p className="text-[11px] text-slate-400">
+            {supported
+              ? "Saved pianos load instantly and play without a network connection."
+              : "Offline samples aren't available in this browser (or after a hard reload)."}
+          </p>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
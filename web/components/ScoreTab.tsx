@@ -0,0 +1,487 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { Play, Pause, Square } from "lucide-react";
+import type { MidiPlayerState, MidiPlayerControls } from "@/lib/hooks/useMidiPlayer";
+import type { BeatGrid } from "@/lib/piano/beat-grid";
+import {
+  buildNotation,
+  measureStartTime,
+  scorePosition,
+  type NotatedChord,
+  type NotatedMeasure,
+  type NotatedScore,
+  type Staff,
+} from "@/lib/piano/notation";
+
+// ── Layout constants (SVG units) ──────────────────────────────────────
+
+/** Distance between staff lines */
+const S = 10;
+const STAFF_H = 4 * S;
+const SYSTEM_W = 1000;
+const LEFT = 12;
+const MEASURES_PER_SYSTEM = 4;
+/** Space above the treble staff and below the bass staff for ledger lines */
+const MARGIN_Y = 50;
+const STAFF_GAP = 70;
+const SYSTEM_H = MARGIN_Y * 2 + STAFF_H * 2 + STAFF_GAP;
+const CLEF_W = 34;
+const KEY_ACC_W = 9;
+const TIME_SIG_W = 26;
+const MEASURE_PAD = 14;
+const NOTE_RX = S * 0.62;
+const NOTE_RY = S * 0.45;
+const STEM_LEN = S * 3.5;
+
+const INK = "#2D3142";
+const CURSOR_COLOR = "#F472B6";
+
+/** Bottom-line diatonic step of each staff (E4 and G2) */
+const BOTTOM_STEP: Record<Staff, number> = { treble: 30, bass: 18 };
+
+/** Key signature accidental positions on the treble staff (bass is two octaves lower) */
+const SHARP_KEY_STEPS = [38, 35, 39, 36, 33, 37, 34];
+const FLAT_KEY_STEPS = [34, 37, 33, 36, 32, 35, 31];
+
+const ACCIDENTAL_GLYPH = { sharp: "♯", flat: "♭", natural: "♮" } as const;
+
+// ── Props ─────────────────────────────────────────────────────────────
+
+interface ScoreTabProps {
+  state: MidiPlayerState;
+  controls: MidiPlayerControls;
+  isFullscreen?: boolean;
+  pianoSwitcher?: React.ReactNode;
+  /** Bar lines of the piece, so measures follow tempo and meter changes */
+  beatGridRef?: React.RefObject<BeatGrid>;
+}
+
+// ── Geometry helpers ──────────────────────────────────────────────────
+
+function staffTop(staff: Staff) {
+  return staff === "treble" ? MARGIN_Y : MARGIN_Y + STAFF_H + STAFF_GAP;
+}
+
+function stepY(staff: Staff, step: number) {
+  return staffTop(staff) + STAFF_H - ((step - BOTTOM_STEP[staff]) * S) / 2;
+}
+
+/** Width of the clef / key / time header at the start of a system. */
+function headerWidth(score: NotatedScore, systemIndex: number) {
+  return CLEF_W + Math.abs(score.fifths) * KEY_ACC_W + (systemIndex === 0 ? TIME_SIG_W : 0) + 6;
+}
+
+// ── Drawing ───────────────────────────────────────────────────────────
+
+function LedgerLines({ staff, step, x }: { staff: Staff; step: number; x: number }) {
+  const bottom = BOTTOM_STEP[staff];
+  const top = bottom + 8;
+  const lines: number[] = [];
+  for (let s = bottom - 2; s >= step; s -= 2) lines.push(s);
+  for (let s = top + 2; s <= step; s += 2) lines.push(s);
+  return (
+    <>
+      {lines.map((s) => (
+        <line
+          key={s}
+          x1={x - NOTE_RX - 4}
+          x2={x + NOTE_RX + 4}
+          y1={stepY(staff, s)}
+          y2={stepY(staff, s)}
+          stroke={INK}
+          strokeWidth={1}
+        />
+      ))}
+    </>
+  );
+}
+
+function Rest({ chord, staff, x }: { chord: NotatedChord; staff: Staff; x: number }) {
+  const mid = staffTop(staff) + STAFF_H / 2;
+  const { base, dotted } = chord.value;
+  let glyph: React.ReactNode;
+
+  if (chord.measureRest || base === "whole") {
+    glyph = <rect x={x - 6} y={staffTop(staff) + S} width={12} height={S / 2} fill={INK} />;
+  } else if (base === "half") {
+    glyph = <rect x={x - 6} y={mid - S / 2} width={12} height={S / 2} fill={INK} />;
+  } else if (base === "quarter") {
+    glyph = (
+      <path
+        d={`M ${x - 2} ${mid - 14} l 5 7 l -5 6 l 5 7 q -6 -3 -4 5`}
+        fill="none"
+        stroke={INK}
+        strokeWidth={2}
+        strokeLinejoin="round"
+      />
+    );
+  } else {
+    const flags = base === "eighth" ? 1 : 2;
+    glyph = (
+      <g>
+        <line x1={x + 4} y1={mid - 8} x2={x - 1} y2={mid + 12} stroke={INK} strokeWidth={1.5} />
+        {Array.from({ length: flags }, (_, i) => (
+          <g key={i}>
+            <circle cx={x - 3 - i * 1.5} cy={mid - 6 + i * 7} r={2.2} fill={INK} />
+            <path
+              d={`M ${x - 3 - i * 1.5} ${mid - 6 + i * 7} q 4 2 ${7 - i * 1.5} -2`}
+              fill="none"
+              stroke={INK}
+              strokeWidth={1.3}
+            />
+          </g>
+        ))}
+      </g>
+    );
+  }
+
+  return (
+    <g>
+      {glyph}
+      {dotted && !chord.measureRest && <circle cx={x + 9} cy={mid - S / 2} r={1.6} fill={INK} />}
+    </g>
+  );
+}
+
+function Chord({ chord, staff, x, tieEndX }: { chord: NotatedChord; staff: Staff; x: number; tieEndX: number }) {
+  if (chord.notes.length === 0) return <Rest chord={chord} staff={staff} x={x} />;
+
+  const { base, dotted } = chord.value;
+  const filled = base !== "whole" && base !== "half";
+  const steps = chord.notes.map((n) => n.step);
+  const low = Math.min(...steps);
+  const high = Math.max(...steps);
+  const middle = BOTTOM_STEP[staff] + 4;
+  const stemUp = (low + high) / 2 < middle;
+  const stemX = stemUp ? x + NOTE_RX - 0.6 : x - NOTE_RX + 0.6;
+  const stemFrom = stemUp ? stepY(staff, low) : stepY(staff, high);
+  const stemTo = stemUp ? stepY(staff, high) - STEM_LEN : stepY(staff, low) + STEM_LEN;
+  const flags = base === "eighth" ? 1 : base === "16th" ? 2 : 0;
+
+  return (
+    <g>
+      <LedgerLines staff={staff} step={low} x={x} />
+      <LedgerLines staff={staff} step={high} x={x} />
+
+      {chord.notes.map((note) => {
+        const y = stepY(staff, note.step);
+        // Dots sit in a space, so lift them off notes that are on a line
+        const dotY = note.step % 2 === 0 ? y - S / 2 : y;
+        return (
+          <g key={note.midi}>
+            <ellipse
+              cx={x}
+              cy={y}
+              rx={NOTE_RX}
+              ry={NOTE_RY}
+              transform={`rotate(-20 ${x} ${y})`}
+              fill={filled ? INK : "white"}
+              stroke={INK}
+              strokeWidth={filled ? 0 : 1.6}
+            />
+            {note.accidental && (
+              <text x={x - NOTE_RX - 10} y={y + 4} fontSize={14} fill={INK} textAnchor="middle">
+                {ACCIDENTAL_GLYPH[note.accidental]}
+              </text>
+            )}
+            {dotted && <circle cx={x + NOTE_RX + 5} cy={dotY} r={1.6} fill={INK} />}
+            {note.tieToNext && (
+              <path
+                d={`M ${x + NOTE_RX} ${y + (stemUp ? 5 : -5)} Q ${(x + tieEndX) / 2} ${y + (stemUp ? 13 : -13)} ${tieEndX} ${y + (stemUp ? 5 : -5)}`}
+                fill="none"
+                stroke={INK}
+                strokeWidth={1.1}
+              />
+            )}
+          </g>
+        );
+      })}
+
+      {base !== "whole" && (
+        <line x1={stemX} x2={stemX} y1={stemFrom} y2={stemTo} stroke={INK} strokeWidth={1.2} />
+      )}
+      {Array.from({ length: flags }, (_, i) => {
+        const y0 = stemTo + (stemUp ? i * 7 : -i * 7);
+        return (
+          <path
+            key={i}
+            d={`M ${stemX} ${y0} q 8 ${stemUp ? 6 : -6} 6 ${stemUp ? 16 : -16}`}
+            fill="none"
+            stroke={INK}
+            strokeWidth={1.6}
+          />
+        );
+      })}
+    </g>
+  );
+}
+
+function SystemHeader({ score, systemIndex }: { score: NotatedScore; systemIndex: number }) {
+  const keySteps = score.fifths >= 0 ? SHARP_KEY_STEPS : FLAT_KEY_STEPS;
+  const keyGlyph = score.fifths >= 0 ? ACCIDENTAL_GLYPH.sharp : ACCIDENTAL_GLYPH.flat;
+  const keyCount = Math.abs(score.fifths);
+
+  return (
+    <g>
+      {/* Clefs */}
+      <text x={LEFT + 4} y={staffTop("treble") + STAFF_H + 8} fontSize={48} fill={INK}>
+        𝄞
+      </text>
+      <text x={LEFT + 4} y={staffTop("bass") + S * 2.6} fontSize={34} fill={INK}>
+        𝄢
+      </text>
+
+      {/* Key signature */}
+      {(["treble", "bass"] as Staff[]).map((staff) =>
+        keySteps.slice(0, keyCount).map((step, i) => (
+          <text
+            key={`${staff}${i}`}
+            x={LEFT + CLEF_W + i * KEY_ACC_W}
+            y={stepY(staff, staff === "treble" ? step : step - 14) + 4}
+            fontSize={14}
+            fill={INK}
+          >
+            {keyGlyph}
+          </text>
+        )),
+      )}
+
+      {/* Time signature (first system only) */}
+      {systemIndex === 0 &&
+        (["treble", "bass"] as Staff[]).map((staff) => {
+          const x = LEFT + CLEF_W + keyCount * KEY_ACC_W + TIME_SIG_W / 2;
+          return (
+            <g key={staff} fontSize={19} fontWeight={700} fontFamily="serif" fill={INK} textAnchor="middle">
+              <text x={x} y={staffTop(staff) + S * 1.75}>{score.beats}</text>
+              <text x={x} y={staffTop(staff) + S * 3.75}>{score.beatType}</text>
+            </g>
+          );
+        })}
+    </g>
+  );
+}
+
+// ── System (one row of measures) ──────────────────────────────────────
+
+interface SystemProps {
+  score: NotatedScore;
+  systemIndex: number;
+  measures: NotatedMeasure[];
+  /** Active measure index and fractional position, or null when not in this system */
+  cursor: { measure: number; fraction: number } | null;
+  onMeasureClick: (measureIndex: number) => void;
+}
+
+function ScoreSystem({ score, systemIndex, measures, cursor, onMeasureClick }: SystemProps) {
+  const contentX = LEFT + headerWidth(score, systemIndex);
+  const measureW = (SYSTEM_W - contentX - 4) / MEASURES_PER_SYSTEM;
+  const top = staffTop("treble");
+  const bottom = staffTop("bass") + STAFF_H;
+
+  /** x of a position (quarters) inside a measure slot */
+  const xAt = (slot: number, quarters: number) =>
+    contentX + slot * measureW + MEASURE_PAD + NOTE_RX + (quarters / score.measureQuarters) * (measureW - 2 * MEASURE_PAD);
+
+  return (
+    <svg viewBox={`0 0 ${SYSTEM_W} ${SYSTEM_H}`} className="w-full h-auto block select-none">
+      {/* Active measure highlight */}
+      {cursor && (
+        <rect
+          x={contentX + (cursor.measure - measures[0].index) * measureW}
+          y={top - 16}
+          width={measureW}
+          height={bottom - top + 32}
+          fill="#FDF2F8"
+        />
+      )}
+
+      {/* Staff lines */}
+      {(["treble", "bass"] as Staff[]).map((staff) =>
+        [0, 1, 2, 3, 4].map((i) => (
+          <line
+            key={`${staff}${i}`}
+            x1={LEFT}
+            x2={contentX + measures.length * measureW}
+            y1={staffTop(staff) + i * S}
+            y2={staffTop(staff) + i * S}
+            stroke={INK}
+            strokeOpacity={0.6}
+            strokeWidth={1}
+          />
+        )),
+      )}
+
+      {/* System bracket */}
+      <line x1={LEFT} x2={LEFT} y1={top} y2={bottom} stroke={INK} strokeWidth={2} />
+
+      <SystemHeader score={score} systemIndex={systemIndex} />
+
+      {measures.map((measure, slot) => {
+        const x0 = contentX + slot * measureW;
+        return (
+          <g key={measure.index}>
+            {/* Measure number */}
+            {slot === 0 && (
+              <text x={x0 + 2} y={top - 8} fontSize={10} fill="#94A3B8">
+                {measure.index + 1}
+              </text>
+            )}
+
+            {(["treble", "bass"] as Staff[]).map((staff) => {
+              const chords = measure.staves[staff];
+              return chords.map((chord, i) => {
+                const x = chord.measureRest ? x0 + measureW / 2 : xAt(slot, chord.start);
+                const next = chords[i + 1];
+                const tieEndX = next ? xAt(slot, next.start) - NOTE_RX : x0 + measureW + MEASURE_PAD;
+                return <Chord key={`${staff}${i}`} chord={chord} staff={staff} x={x} tieEndX={tieEndX} />;
+              });
+            })}
+
+            {/* Bar line */}
+            <line
+              x1={x0 + measureW}
+              x2={x0 + measureW}
+              y1={top}
+              y2={bottom}
+              stroke={INK}
+              strokeWidth={measure.index === score.measures.length - 1 ? 3 : 1}
+            />
+
+            {/* Click target: seek to the start of this measure */}
+            <rect
+              x={x0}
+              y={top - 20}
+              width={measureW}
+              height={bottom - top + 40}
+              fill="transparent"
+              className="cursor-pointer hover:fill-pink-200/20"
+              onClick={() => onMeasureClick(measure.index)}
+            >
+              <title>{`Play from measure ${measure.index + 1}`}</title>
+            </rect>
+          </g>
+        );
+      })}
+
+      {/* Playback cursor */}
+      {cursor && (
+        <line
+          x1={xAt(cursor.measure - measures[0].index, cursor.fraction * score.measureQuarters) - NOTE_RX}
+          x2={xAt(cursor.measure - measures[0].index, cursor.fraction * score.measureQuarters) - NOTE_RX}
+          y1={top - 14}
+          y2={bottom + 14}
+          stroke={CURSOR_COLOR}
+          strokeWidth={2.5}
+          strokeLinecap="round"
+          pointerEvents="none"
+        />
+      )}
+    </svg>
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+
+export function ScoreTab({ state, controls, isFullscreen = false, pianoSwitcher, beatGridRef }: ScoreTabProps) {
+  const { loadState, isPlaying, progress, duration, bpm, timeSignature, keySignature } = state;
+  const { togglePlayback, stopPlayback, seekTo, formatTime, getAllNotes } = controls;
+
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const systemRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  // The beat grid is filled in before duration is set, so duration keys the memo
+  const score = useMemo(
+    () => buildNotation(getAllNotes(), { bpm, timeSignature, keySignature, beatGrid: beatGridRef?.current }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [getAllNotes, bpm, timeSignature, keySignature, beatGridRef, duration],
+  );
+
+  const systems = useMemo(() => {
+    const rows: NotatedMeasure[][] = [];
+    for (let i = 0; i < score.measures.length; i += MEASURES_PER_SYSTEM) {
+      rows.push(score.measures.slice(i, i + MEASURES_PER_SYSTEM));
+    }
+    return rows;
+  }, [score]);
+
+  const cursor = scorePosition(score, progress);
+  const activeSystem = Math.floor(cursor.measure / MEASURES_PER_SYSTEM);
+
+  // Keep the system being played in view
+  useEffect(() => {
+    if (!isPlaying) return;
+    const container = scrollRef.current;
+    const el = systemRefs.current[activeSystem];
+    if (!container || !el) return;
+    const top = el.offsetTop - container.offsetTop;
+    if (top < container.scrollTop || top + el.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top, behavior: "smooth" });
+    }
+  }, [activeSystem, isPlaying]);
+
+  if (loadState !== "ready") return null;
+
+  return (
+    <div
+      className={`${
+        isFullscreen
+          ? "absolute inset-0 flex flex-col gap-3 overflow-hidden"
+          : "space-y-4"
+      }`}
+    >
+      {/* Score */}
+      <div
+        ref={scrollRef}
+        className={`relative w-full overflow-y-auto bg-white ${
+          isFullscreen
+            ? "flex-1 min-h-0 rounded-lg border border-pink-200/20"
+            : "rounded-2xl border border-pink-200/40"
+        }`}
+        style={isFullscreen ? undefined : { height: "min(60vh, 520px)" }}
+      >
+        <div className="px-4 py-2">
+          {systems.map((measures, i) => (
+            <div key={i} ref={(el) => { systemRefs.current[i] = el; }}>
+              <ScoreSystem
+                score={score}
+                systemIndex={i}
+                measures={measures}
+                cursor={i === activeSystem && progress > 0 ? cursor : null}
+                onMeasureClick={(m) => seekTo(measureStartTime(score, m))}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center justify-center gap-3 shrink-0 flex-wrap">
+        <button
+          onClick={togglePlayback}
+          className="flex items-center justify-center w-12 h-12 rounded-full bg-pink-400 hover:bg-pink-500 text-white transition-colors shadow-lg hover:shadow-xl"
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? (
+            <Pause className="w-5 h-5" />
+          ) : (
+            <Play className="w-5 h-5 ml-0.5" />
+          )}
+        </button>
+        <button
+          onClick={stopPlayback}
+          className="flex items-center justify-center w-9 h-9 rounded-full bg-white border border-pink-200 text-pink-400 hover:bg-pink-50 transition-colors"
+          aria-label="Stop"
+        >
+          <Square className="w-3.5 h-3.5" />
+        </button>
+
+        <span className="text-xs text-slate-400 tabular-nums">
+          Measure {cursor.measure + 1}/{score.measures.length} · {formatTime(progress)} / {formatTime(duration)}
+        </span>
+
+        {pianoSwitcher && <div className="ml-1">{pianoSwitcher}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { TrendingUp } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import type { SpeedTrainerConfig } from "@/lib/piano/speed-trainer";
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+const START_OPTIONS = [0.5, 0.6, 0.7, 0.8];
+const STEP_OPTIONS = [0.05, 0.1];
+const TARGET_OPTIONS = [0.8, 0.9, 1, 1.1];
+const THRESHOLD_OPTIONS = [80, 90, 95];
+
+// ── Props ─────────────────────────────────────────────────────────────
+
+interface SpeedTrainerControlProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  config: SpeedTrainerConfig;
+  onConfigChange: (config: SpeedTrainerConfig) => void;
+  /** Highest speed mastered on this score */
+  bestSpeed: number | null;
+  /** Settings can only change between ramps */
+  disabled?: boolean;
+}
+
+// ── Option row ────────────────────────────────────────────────────────
+
+function OptionRow({
+  label,
+  options,
+  value,
+  format,
+  disabled,
+  onSelect,
+}: {
+  label: string;
+  options: number[];
+  value: number;
+  format: (n: number) => string;
+  disabled?: boolean;
+  onSelect: (n: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <span className="text-xs text-[#2D3142]">{label}</span>
+      <div className="flex rounded-full border border-pink-200 bg-white overflow-hidden text-xs font-medium">
+        {options.map((opt) => (
+          <button
+            key={opt}
+            onClick={() => onSelect(opt)}
+            disabled={disabled}
+            className={`flex-1 px-1.5 py-1 transition disabled:cursor-not-allowed ${
+              Math.abs(value - opt) < 0.001
+                ? "bg-pink-400 text-white"
+                : "text-pink-400 hover:bg-pink-50 disabled:hover:bg-transparent"
+            }`}
+          >
+            {format(opt)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+
+const percent = (speed: number) => `${Math.round(speed * 100)}%`;
+
+/** Flowing-mode speed trainer: on/off, ramp settings and the best speed mastered. */
+export function SpeedTrainerControl({
+  enabled,
+  onEnabledChange,
+  config,
+  onConfigChange,
+  bestSpeed,
+  disabled,
+}: SpeedTrainerControlProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-xs font-medium transition ${
+            enabled
+              ? "bg-pink-400 border-pink-400 text-white"
+              : "bg-white border-pink-200 text-pink-400 hover:bg-pink-50"
+          }`}
+          title="Speed trainer"
+        >
+          <TrendingUp className="w-3.5 h-3.5" />
+          {enabled ? `Trainer ${percent(config.startSpeed)}→${percent(config.targetSpeed)}` : "Speed trainer"}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="top" align="start" className="w-64">
+        <DropdownMenuLabel>Speed trainer</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <div className="space-y-3 px-2 py-1.5">
+          <p className="text-[11px] text-slate-400">
+            Replays the passage, speeding up after every pass at or above the threshold and slowing down after a
+            miss, until you pass at the target speed.
+          </p>
+
+          <div className="flex rounded-full border border-pink-200 bg-white overflow-hidden text-xs font-medium">
+            {[true, false].map((on) => (
+              <button
+                key={String(on)}
+                onClick={() => onEnabledChange(on)}
+                disabled={disabled}
+                className={`flex-1 px-1.5 py-1 transition disabled:cursor-not-allowed ${
+                  enabled === on
+                    ? "bg-pink-400 text-white"
+                    : "text-pink-400 hover:bg-pink-50 disabled:hover:bg-transparent"
+                }`}
+              >
+                {on ? "On" : "Off"}
+              </button>
+            ))}
+          </div>
+
+          <OptionRow
+            label="Start at"
+            options={START_OPTIONS}
+            value={config.startSpeed}
+            format={percent}
+            disabled={disabled}
+            onSelect={(startSpeed) =>
+              onConfigChange({ ...config, startSpeed, targetSpeed: Math.max(config.targetSpeed, startSpeed) })
+            }
+          />
+          <OptionRow
+            label="Step"
+            options={STEP_OPTIONS}
+            value={config.step}
+            format={(n) => `+${Math.round(n * 100)}%`}
+            disabled={disabled}
+            onSelect={(step) => onConfigChange({ ...config, step })}
+          />
+          <OptionRow
+            label="Target"
+            options={TARGET_OPTIONS}
+            value={config.targetSpeed}
+            format={percent}
+            disabled={disabled}
+            onSelect={(targetSpeed) =>
+              onConfigChange({ ...config, targetSpeed, startSpeed: Math.min(config.startSpeed, targetSpeed) })
+            }
+          />
+          <OptionRow
+            label="Pass with accuracy"
+            options={THRESHOLD_OPTIONS}
+            value={config.passThreshold}
+            format={(n) => `${n}%`}
+            disabled={disabled}
+            onSelect={(passThreshold) => onConfigChange({ ...config, passThreshold })}
+          />
+
+          <p className="text-[11px] text-slate-400">
+            {bestSpeed !== null ? `Best mastered speed: ${percent(bestSpeed)}` : "No speed mastered yet on this piece."}
+          </p>
+          {disabled && <p className="text-[11px] text-slate-400">Reset the run to change the trainer.</p>}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
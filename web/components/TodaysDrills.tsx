@@ -0,0 +1,52 @@
+"use client";
+
+import Link from "next/link";
+import { Repeat } from "lucide-react";
+import { useDueDrills } from "@/lib/hooks/usePracticeDrills";
+
+// ── Component ─────────────────────────────────────────────────────────
+
+/** Dashboard list of drills due today; each opens its piece's Practice tab on the passage. */
+export function TodaysDrills() {
+  const { drills, loading } = useDueDrills();
+
+  if (loading || drills.length === 0) return null;
+
+  return (
+    <section className="mb-10">
+      <h2 className="text-2xl font-semibold text-sakura-text-pink mb-1">Today&apos;s drills</h2>
+      <p className="text-sakura-dark/50 text-sm mb-4">
+        Short passages from your recent practice, brought back just before you&apos;d forget them.
+      </p>
+      <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+        {drills.map((drill) => {
+          const overdue = new Date(drill.due_at) < new Date(new Date().toDateString());
+          return (
+            <Link
+              key={drill.id}
+              href={`/tutorial/${drill.score_id}?drill=${drill.id}`}
+              className="group rounded-2xl bg-white/80 backdrop-blur-sm p-4 transition-all duration-300 hover:scale-[1.02] hover:bg-white"
+              style={{ boxShadow: "0 4px 24px rgba(217, 108, 142, 0.12)" }}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="truncate font-semibold text-sakura-text-pink">
+                    {drill.scores?.title?.trim() || "Untitled"}
+                  </p>
+                  <p className="text-sm text-sakura-dark/70">{drill.label}</p>
+                </div>
+                <Repeat className="w-4 h-4 shrink-0 text-sakura-text-pink/60 group-hover:text-sakura-text-pink" />
+              </div>
+              <p className="mt-3 text-xs text-sakura-dark/40">
+                {drill.playback_speed}× speed
+                {drill.last_accuracy_pct !== null && ` · last ${Math.round(drill.last_accuracy_pct)}%`}
+                {drill.repetitions === 0 && drill.last_practised_at === null && " · new"}
+                {overdue && " · overdue"}
+              </p>
+            </Link>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
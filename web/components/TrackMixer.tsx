@@ -0,0 +1,129 @@
+"use client";
+
+import { SlidersHorizontal } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import type { TrackMix } from "@/lib/hooks/useMidiPlayer";
+import { GM_PROGRAMS, gmInstrumentLabel, type TrackInstrument } from "@/lib/piano";
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Override choices: the studio piano, then the GM set in program order */
+const INSTRUMENT_CHOICES: TrackInstrument[] = ["piano", ...GM_PROGRAMS];
+
+// ── Props ─────────────────────────────────────────────────────────────
+
+interface TrackMixerProps {
+  tracks: TrackMix[];
+  setTrackMute: (track: number, muted: boolean) => void;
+  setTrackSolo: (track: number, solo: boolean) => void;
+  setTrackGain: (track: number, gain: number) => void;
+  setTrackInstrument: (track: number, instrument: TrackInstrument | null) => void;
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+
+/** Per-track mute / solo / volume / instrument mixer, shown as a dropdown panel. */
+export function TrackMixer({ tracks, setTrackMute, setTrackSolo, setTrackGain, setTrackInstrument }: TrackMixerProps) {
+  const anySolo = tracks.some((t) => t.solo);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`flex items-center gap-1.5 rounded-full bg-white/80 backdrop-blur-md border shadow-sm px-3 py-1.5 text-xs transition-all ${
+            tracks.some((t) => t.muted || t.solo || t.gain < 1 || t.instrumentOverride)
+              ? "border-pink-300 text-pink-600"
+              : "border-pink-100 text-slate-500 hover:text-pink-600 hover:border-pink-200"
+          }`}
+          title="Track mixer"
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+          <span className="hidden sm:inline">Mixer</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="top" align="end" className="w-72">
+        <DropdownMenuLabel>Tracks</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <div className="space-y-2 px-2 py-1.5">
+          {tracks.map((track) => {
+            const audible = !track.muted && (!anySolo || track.solo);
+            return (
+              <div key={track.index} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`flex-1 truncate text-xs font-medium ${
+                      audible ? "text-[#2D3142]" : "text-slate-300"
+                    }`}
+                    title={track.name}
+                  >
+                    {track.name}
+                  </span>
+                  <span className="text-[10px] text-slate-400 tabular-nums">
+                    {track.noteCount} notes
+                  </span>
+                  <button
+                    onClick={() => setTrackMute(track.index, !track.muted)}
+                    className={`w-6 h-6 rounded-md text-[10px] font-bold border transition ${
+                      track.muted
+                        ? "bg-red-400 border-red-400 text-white"
+                        : "bg-white border-pink-100 text-slate-400 hover:bg-pink-50"
+                    }`}
+                    aria-pressed={track.muted}
+                    aria-label={`Mute ${track.name}`}
+                    title="Mute"
+                  >
+                    M
+                  </button>
+                  <button
+                    onClick={() => setTrackSolo(track.index, !track.solo)}
+                    className={`w-6 h-6 rounded-md text-[10px] font-bold border transition ${
+                      track.solo
+                        ? "bg-amber-400 border-amber-400 text-white"
+                        : "bg-white border-pink-100 text-slate-400 hover:bg-pink-50"
+                    }`}
+                    aria-pressed={track.solo}
+                    aria-label={`Solo ${track.name}`}
+                    title="Solo"
+                  >
+                    S
+                  </button>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={track.gain}
+                  onChange={(e) => setTrackGain(track.index, Number(e.target.value))}
+                  className="w-full accent-pink-400"
+                  aria-label={`${track.name} volume`}
+                />
+                <select
+                  value={track.instrumentOverride ?? ""}
+                  onChange={(e) =>
+                    setTrackInstrument(track.index, (e.target.value || null) as TrackInstrument | null)
+                  }
+                  className="w-full rounded-md border border-pink-100 bg-white px-1.5 py-0.5 text-[11px] text-[#2D3142] outline-none focus:border-pink-300"
+                  aria-label={`${track.name} instrument`}
+                >
+                  <option value="">Auto · {gmInstrumentLabel(track.autoInstrument)}</option>
+                  {INSTRUMENT_CHOICES.map((name) => (
+                    <option key={name} value={name}>
+                      {gmInstrumentLabel(name)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,29 @@
+import { GoogleGenAI } from "@google/genai";
+import type { FeedbackProvider } from "./types";
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+/**
+ * Google Gemini via @google/genai (reads GEMINI_API_KEY / GOOGLE_API_KEY).
+ * GEMINI_MODEL overrides the model name.
+ */
+export function geminiProvider(): FeedbackProvider {
+  const ai = new GoogleGenAI({});
+  const model = process.env.GEMINI_MODEL || DEFAULT_MODEL;
+
+  return {
+    name: "gemini",
+
+    async generate({ prompt }) {
+      const resp = await ai.models.generateContent({ model, contents: prompt });
+      return (resp.text ?? "").trim();
+    },
+
+    async *stream({ prompt }) {
+      const resp = await ai.models.generateContentStream({ model, contents: prompt });
+      for await (const chunk of resp) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+}
@@ -0,0 +1,41 @@
+export type { FeedbackProvider, FeedbackRequest } from "./types";
+export { geminiProvider } from "./gemini";
+export { openaiProvider } from "./openai";
+export { ruleBasedProvider, buildRuleBasedFeedback } from "./rule-based";
+export { mockProvider } from "./mock";
+
+import type { FeedbackProvider } from "./types";
+import { geminiProvider } from "./gemini";
+import { openaiProvider } from "./openai";
+import { ruleBasedProvider } from "./rule-based";
+import { mockProvider } from "./mock";
+
+const PROVIDERS: Record<string, () => FeedbackProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  "rule-based": ruleBasedProvider,
+  mock: mockProvider,
+};
+
+/** Provider to use when FEEDBACK_PROVIDER is unset, based on which credentials exist. */
+function defaultProviderName() {
+  if (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY) return "gemini";
+  if (process.env.OPENAI_BASE_URL || process.env.OPENAI_API_KEY) return "openai";
+  return "rule-based";
+}
+
+/**
+ * Provider selected by the FEEDBACK_PROVIDER env var
+ * (gemini | openai | rule-based | mock). When unset, Gemini or the
+ * OpenAI-compatible provider is used if configured, else rule-based.
+ */
+export function getFeedbackProvider(): FeedbackProvider {
+  const name = (process.env.FEEDBACK_PROVIDER || defaultProviderName()).toLowerCase();
+  const create = PROVIDERS[name];
+  if (!create) {
+    throw new Error(
+      `Unknown FEEDBACK_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(", ")}.`,
+    );
+  }
+  return create();
+}
@@ -0,0 +1,35 @@
+import type { FeedbackProvider } from "./types";
+
+/** Delay between streamed words, so the UI behaves like a real model. */
+const WORD_DELAY_MS = 30;
+
+const MOCK_FEEDBACK = `Great job sticking with this piece all the way through — that kind of focus is exactly how pieces come together.
+
+A couple of spots tripped you up more than once, so it's worth giving them some extra attention:
+
+- **Slow it down:** loop the trickiest bars at a slower speed until they feel easy.
+- **Hands separately:** practise each hand on its own before putting them back together.
+- **Count out loud:** keep a steady pulse so the rhythm stays even through the hard parts.
+
+Keep at it — you're making real progress!`;
+
+/**
+ * Offline stand-in for a real model. Returns canned feedback (ignoring the
+ * prompt) so the feedback flow can be exercised without an API key.
+ */
+export function mockProvider(): FeedbackProvider {
+  return {
+    name: "mock",
+
+    async generate() {
+      return MOCK_FEEDBACK;
+    },
+
+    async *stream() {
+      for (const word of MOCK_FEEDBACK.match(/\S+\s*/g) ?? []) {
+        await new Promise((resolve) => setTimeout(resolve, WORD_DELAY_MS));
+        yield word;
+      }
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import type { FeedbackProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+type ChatCompletion = { choices?: { message?: { content?: string } }[] };
+type ChatCompletionChunk = { choices?: { delta?: { content?: string } }[] };
+
+/**
+ * Any OpenAI-compatible /chat/completions endpoint — OpenAI itself, or a
+ * local server such as Ollama (OPENAI_BASE_URL=http://localhost:11434/v1).
+ * Reads OPENAI_BASE_URL, OPENAI_API_KEY (optional for local servers) and OPENAI_MODEL.
+ */
+export function openaiProvider(): FeedbackProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const apiKey = process.env.OPENAI_API_KEY;
+  const model = process.env.OPENAI_MODEL || DEFAULT_MODEL;
+
+  async function request(prompt: string, stream: boolean) {
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: [{ role: "user", content: prompt }],
+      }),
+    });
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      throw new Error(`OpenAI-compatible API error ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+    }
+    return res;
+  }
+
+  return {
+    name: "openai",
+
+    async generate({ prompt }) {
+      const res = await request(prompt, false);
+      const data: ChatCompletion = await res.json();
+      return (data.choices?.[0]?.message?.content ?? "").trim();
+    },
+
+    async *stream({ prompt }) {
+      const res = await request(prompt, true);
+      if (!res.body) throw new Error("OpenAI-compatible API returned no body");
+
+      // Server-Sent Events: one `data: {json}` line per delta, ending with `data: [DONE]`
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+          const payload = trimmed.slice(5).trim();
+          if (payload === "[DONE]") return;
+          let chunk: ChatCompletionChunk;
+          try {
+            chunk = JSON.parse(payload);
+          } catch {
+            continue; // keep-alives and partial lines from some proxies
+          }
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      }
+    },
+  };
+}
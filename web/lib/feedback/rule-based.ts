@@ -0,0 +1,97 @@
+import type { PracticeSummary } from "@/lib/piano/practice-summary";
+import type { FeedbackProvider } from "./types";
+
+// ── Template feedback ─────────────────────────────────────────────────
+
+function opening(s: PracticeSummary): string {
+  if (s.accuracyPct >= 80) {
+    return `Wonderful work on "${s.pieceTitle}" — ${s.accuracyPct}% accuracy is a really strong run!`;
+  }
+  if (s.accuracyPct >= 40) {
+    return `Nice effort on "${s.pieceTitle}" — you got ${s.hits} notes right (${s.accuracyPct}% accuracy), and the piece is clearly starting to take shape.`;
+  }
+  return `Thanks for sticking with "${s.pieceTitle}" — every run through builds familiarity, even when it feels tough. You landed ${s.hits} notes this time, and that's a foundation to build on.`;
+}
+
+function problems(s: PracticeSummary): string | null {
+  const parts: string[] = [];
+  if (s.topMissed.length > 0) {
+    parts.push(`the note${s.topMissed.length > 1 ? "s" : ""} you missed most were ${s.topMissed.slice(0, 2).map((n) => n.note).join(" and ")}`);
+  }
+  if (s.topWrong.length > 0) {
+    parts.push(`you often pressed ${s.topWrong.slice(0, 2).map((n) => n.note).join(" or ")} by mistake`);
+  }
+  if (s.hotspots.length > 0) {
+    parts.push(`the section around step ${s.hotspots[0].step} gave you the most trouble`);
+  }
+  if (parts.length === 0) return null;
+  const sentence = parts.join(", and ");
+  return `Looking at the details, ${sentence}.`;
+}
+
+function tips(s: PracticeSummary): string[] {
+  const list: string[] = [];
+  if (s.hotspots.length > 0) {
+    list.push(`**Isolate the hard spot:** loop the passage around step ${s.hotspots[0].step} a few times on its own before playing it in context.`);
+  }
+  if (s.topMissed.length > 0) {
+    list.push(`**Find your landmarks:** before you start, locate ${s.topMissed[0].note} on the keyboard so your hand already knows where it's going.`);
+  }
+  if (s.dynamics && s.dynamics.tooSoft + s.dynamics.tooLoud > s.dynamics.matched) {
+    const direction = s.dynamics.avgVelocityDelta > 0 ? "louder" : "softer";
+    list.push(`**Listen to your touch:** many notes came out ${direction} than marked — play the passage slowly and match each note's volume to the score.`);
+  }
+  if (s.release && s.release.early + s.release.late > s.release.good) {
+    const fault = s.release.early >= s.release.late ? "let go of notes too soon" : "held notes past their value";
+    list.push(`**Shape the note lengths:** you often ${fault} — count each note's full value out loud and lift exactly on the next beat.`);
+  }
+  if (s.playbackSpeed >= 1) {
+    list.push("**Hands separately:** if a passage feels shaky, practise each hand alone and then put them back together.");
+  } else {
+    list.push("**Nudge the tempo up gradually:** once a run feels comfortable, try the next speed step rather than jumping straight to full tempo.");
+  }
+  list.push("**Count steadily:** keep an even pulse — it's better to play slowly and in time than fast and uneven.");
+  list.push("**Short, focused sessions:** a few minutes of careful repetition every day beats one long session.");
+  return list.slice(0, 3);
+}
+
+function speedNote(s: PracticeSummary): string {
+  return s.playbackSpeed < 1
+    ? `Practising at ${s.playbackSpeed}x is a smart choice — stay at this speed until it feels easy, then speed up.`
+    : `And you did it at ${s.playbackSpeed}x speed — great job practising at tempo!`;
+}
+
+/** Deterministic feedback built straight from a practice summary. */
+export function buildRuleBasedFeedback(s: PracticeSummary): string {
+  const paragraphs = [opening(s), problems(s), tips(s).map((t) => `- ${t}`).join("\n"), speedNote(s)];
+  return paragraphs.filter((p): p is string => !!p).join("\n\n");
+}
+
+const GENERIC_FEEDBACK =
+  "Thanks for practising! Detailed feedback isn't available for this request, so here are some general tips:\n\n" +
+  "- **Slow it down:** practise tricky passages at a slower speed until they feel comfortable.\n" +
+  "- **Hands separately:** learn each hand on its own before combining them.\n" +
+  "- **Count steadily:** keep an even pulse so the rhythm stays consistent.";
+
+// ── Provider ──────────────────────────────────────────────────────────
+
+/**
+ * No-model fallback used when no API key is configured. Works from the
+ * structured summary; prompt-only requests get generic practice tips.
+ */
+export function ruleBasedProvider(): FeedbackProvider {
+  const build = ({ summary }: { summary?: PracticeSummary }) =>
+    summary ? buildRuleBasedFeedback(summary) : GENERIC_FEEDBACK;
+
+  return {
+    name: "rule-based",
+
+    async generate(request) {
+      return build(request);
+    },
+
+    async *stream(request) {
+      yield* build(request).match(/\S+\s*/g) ?? [];
+    },
+  };
+}
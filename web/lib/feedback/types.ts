@@ -0,0 +1,21 @@
+// ── Feedback model providers ──────────────────────────────────────────
+// /api/piano-feedback builds a prompt and hands it to one of these, so the
+// model behind the "AI Sensei" can be swapped (e.g. a mock in tests).
+
+import type { PracticeSummary } from "@/lib/piano/practice-summary";
+
+export interface FeedbackRequest {
+  /** Full prompt for language-model providers */
+  prompt: string;
+  /** Structured results, when the request came from PracticeTab */
+  summary?: PracticeSummary;
+}
+
+export interface FeedbackProvider {
+  /** Short identifier, used in logs */
+  name: string;
+  /** Generate the full feedback text in one go. */
+  generate: (request: FeedbackRequest) => Promise<string>;
+  /** Generate the feedback as a stream of text chunks. */
+  stream: (request: FeedbackRequest) => AsyncIterable<string>;
+}
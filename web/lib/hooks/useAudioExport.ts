@@ -0,0 +1,133 @@
+"use client";
+
+/**
+ * useAudioExport – offline renders a score (or its loop region) at the
+ * current playback speed and downloads it as WAV or Opus, without video.
+ */
+
+import { useState, useCallback, useRef } from "react";
+import type { Midi } from "@tonejs/midi";
+import type { PianoPlayerFactory } from "@/lib/piano";
+import type { MasterEffects } from "@/lib/piano/master-bus";
+import type { TrackMix } from "@/lib/piano/track-mix";
+import { renderScoreAudio, resampleBuffer } from "@/lib/piano/offline-render";
+import {
+  AUDIO_FILE_FORMATS,
+  OPUS_SAMPLE_RATE,
+  downloadBlob,
+  encodeOpusWebm,
+  encodeWav,
+  exportBaseName,
+  type AudioFileFormat,
+} from "@/lib/piano/audio-file";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export interface AudioExportOptions {
+  midiRef: React.RefObject<Midi | null>;
+  playbackSpeed: number;
+  /** Virtual-time range (LEAD_IN_SEC included) — the whole piece or the loop */
+  range: { start: number; end: number };
+  /** Renders as itself when it supports offline rendering, else Salamander */
+  pianoFactory?: PianoPlayerFactory;
+  masterEffects?: MasterEffects;
+  /** Track mixer, so muted, soloed and re-voiced tracks sound as they do live */
+  tracks?: TrackMix[];
+  format: AudioFileFormat;
+  /** Song title (used for filename) */
+  title: string;
+  /** Original BPM from MIDI header */
+  bpm: number;
+  /** Appended to the filename, e.g. "loop 0:12-0:30" */
+  suffix?: string;
+}
+
+export interface AudioExportResult {
+  exportAudio: (opts: AudioExportOptions) => Promise<void>;
+  /** 0-100 while exporting, null when idle */
+  exportProgress: number | null;
+  isExporting: boolean;
+  /** User-visible error if export failed */
+  exportError: string | null;
+  cancelExport: () => void;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Share of the progress bar spent rendering (the rest is encoding) */
+const RENDER_PROGRESS = 70;
+
+// ── Hook ──────────────────────────────────────────────────────────────
+
+export function useAudioExport(): AudioExportResult {
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  const cancelExport = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  const exportAudio = useCallback(
+    async (opts: AudioExportOptions) => {
+      const { midiRef, playbackSpeed, range, pianoFactory, masterEffects, tracks, format, title, bpm, suffix } = opts;
+      if (isExporting) return;
+
+      cancelledRef.current = false;
+      setIsExporting(true);
+      setExportProgress(0);
+      setExportError(null);
+
+      try {
+        const midi = midiRef.current;
+        if (!midi) throw new Error("No MIDI data loaded");
+        if (range.end <= range.start) throw new Error("Nothing to export in this range");
+
+        // ── 1. Render ────────────────────────────────────────────────
+        setExportProgress(1);
+        const rendered = await renderScoreAudio(midi, { playbackSpeed, range, pianoFactory, masterEffects, tracks });
+        if (cancelledRef.current) return;
+        setExportProgress(RENDER_PROGRESS);
+
+        // ── 2. Encode ────────────────────────────────────────────────
+        let blob: Blob | null;
+        if (format === "opus") {
+          const audio = await resampleBuffer(rendered, OPUS_SAMPLE_RATE);
+          blob = await encodeOpusWebm(
+            audio,
+            (f) => setExportProgress(Math.round(RENDER_PROGRESS + f * (99 - RENDER_PROGRESS))),
+            () => cancelledRef.current,
+          );
+        } else {
+          blob = encodeWav(rendered, format === "wav24" ? 24 : 16);
+        }
+        if (!blob || cancelledRef.current) return;
+
+        // Filename: "{title} {effectiveBpm}bpm[ suffix].{ext}"
+        const extension = AUDIO_FILE_FORMATS.find((f) => f.id === format)?.extension ?? "wav";
+        const baseName = exportBaseName(title, bpm, playbackSpeed, "piano");
+        const safeSuffix = suffix ? ` ${suffix.replace(/[<>:"\/\\|?*]+/g, ".")}` : "";
+        downloadBlob(blob, `${baseName}${safeSuffix}.${extension}`);
+
+        setExportProgress(100);
+      } catch (err) {
+        if (cancelledRef.current) return;
+        console.error("Audio export failed:", err);
+        setExportError(err instanceof Error ? err.message : "Export failed");
+      } finally {
+        setIsExporting(false);
+        setTimeout(() => setExportProgress(null), 1500);
+      }
+    },
+    [isExporting]
+  );
+
+  return {
+    exportAudio,
+    exportProgress,
+    isExporting,
+    exportError,
+    cancelExport,
+  };
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/**
+ * Piano layout on the home row (white keys) and the row above (black keys),
+ * by physical key code so it works on any keyboard layout. Values are
+ * semitones above the current octave's C.
+ */
+const KEY_SEMITONES: Record<string, number> = {
+  KeyA: 0, KeyW: 1, KeyS: 2, KeyE: 3, KeyD: 4, KeyF: 5, KeyT: 6, KeyG: 7,
+  KeyY: 8, KeyH: 9, KeyU: 10, KeyJ: 11, KeyK: 12, KeyO: 13, KeyL: 14, KeyP: 15,
+  Semicolon: 16, Quote: 17,
+};
+
+const OCTAVE_DOWN_CODE = "KeyZ";
+const OCTAVE_UP_CODE = "KeyX";
+
+/** Octave of the "A" key's C (4 → middle C) */
+const DEFAULT_OCTAVE = 4;
+const MIN_OCTAVE = 1;
+const MAX_OCTAVE = 7;
+
+/** Text fields keep their keys */
+function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+// ── Hook ──────────────────────────────────────────────────────────────
+
+/**
+ * Play notes from the computer keyboard: A–' are the white keys from C,
+ * W E T Y U O P the black keys, Z / X shift the octave. Held keys are
+ * tracked so an octave shift mid-note still releases the right pitch.
+ */
+export function useComputerKeyboard({
+  enabled,
+  onNoteOn,
+  onNoteOff,
+}: {
+  enabled: boolean;
+  onNoteOn: (midi: number) => void;
+  onNoteOff: (midi: number) => void;
+}) {
+  const [octave, setOctave] = useState(DEFAULT_OCTAVE);
+  const octaveRef = useRef(DEFAULT_OCTAVE);
+  /** Key code → MIDI note it started */
+  const downRef = useRef<Map<string, number>>(new Map());
+
+  // Latest callbacks without re-binding the listeners
+  const onNoteOnRef = useRef(onNoteOn);
+  const onNoteOffRef = useRef(onNoteOff);
+  onNoteOnRef.current = onNoteOn;
+  onNoteOffRef.current = onNoteOff;
+
+  const shiftOctave = useCallback((delta: number) => {
+    const next = Math.max(MIN_OCTAVE, Math.min(MAX_OCTAVE, octaveRef.current + delta));
+    octaveRef.current = next;
+    setOctave(next);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const releaseAll = () => {
+      for (const midi of downRef.current.values()) onNoteOffRef.current(midi);
+      downRef.current = new Map();
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+
+      if (e.code === OCTAVE_DOWN_CODE || e.code === OCTAVE_UP_CODE) {
+        e.preventDefault();
+        if (!e.repeat) shiftOctave(e.code === OCTAVE_UP_CODE ? 1 : -1);
+        return;
+      }
+
+      const semitone = KEY_SEMITONES[e.code];
+      if (semitone === undefined) return;
+      e.preventDefault();
+      if (e.repeat || downRef.current.has(e.code)) return;
+
+      const midi = (octaveRef.current + 1) * 12 + semitone;
+      if (midi > 127) return;
+      downRef.current.set(e.code, midi);
+      onNoteOnRef.current(midi);
+    };
+
+    const onKeyUp = (e: KeyboardEvent) => {
+      const midi = downRef.current.get(e.code);
+      if (midi === undefined) return;
+      downRef.current.delete(e.code);
+      onNoteOffRef.current(midi);
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    // Key-ups are lost while the window is unfocused
+    window.addEventListener("blur", releaseAll);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", releaseAll);
+      releaseAll();
+    };
+  }, [enabled, shiftOctave]);
+
+  return { octave, shiftOctave };
+}
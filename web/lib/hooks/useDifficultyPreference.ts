@@ -0,0 +1,51 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  DEFAULT_DIFFICULTY,
+  parseDifficultyPreference,
+  type DifficultyPreference,
+} from "@/lib/piano/difficulty";
+
+/** Key in the Supabase auth user metadata */
+const METADATA_KEY = "practice_difficulty";
+
+// ── Hook ──────────────────────────────────────────────────────────────
+
+/**
+ * The signed-in user's practice difficulty, kept in their auth metadata so
+ * it follows them across devices. Signed-out users get Standard and
+ * nothing is saved.
+ */
+export function useDifficultyPreference() {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [preference, setPreference] = useState<DifficultyPreference>(DEFAULT_DIFFICULTY);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (cancelled) return;
+      if (user) setPreference(parseDifficultyPreference(user.user_metadata?.[METADATA_KEY]));
+      setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase]);
+
+  const savePreference = useCallback(
+    async (next: DifficultyPreference) => {
+      setPreference(next);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { error } = await supabase.auth.updateUser({ data: { [METADATA_KEY]: next } });
+      if (error) console.error("Error saving difficulty preference:", error);
+    },
+    [supabase]
+  );
+
+  return { preference, loaded, savePreference };
+}
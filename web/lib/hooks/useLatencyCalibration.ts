@@ -0,0 +1,162 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as Tone from "tone";
+import { createMetronome, type Metronome } from "@/lib/piano/metronome";
+import { MAX_LATENCY_MS, median } from "@/lib/piano/latency";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export type CalibrationStatus = "idle" | "running" | "done";
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+const CALIBRATION_BPM = 90;
+/** Clicks to settle into the beat before taps count */
+const LEAD_IN_CLICKS = 4;
+/** Clicks whose taps are measured */
+const MEASURED_CLICKS = 12;
+/** Fewer usable taps than this and the run is rejected */
+const MIN_TAPS = 6;
+/** Delay before the first click so it isn't clipped (seconds) */
+const START_DELAY_SEC = 0.5;
+
+// ── Hook ──────────────────────────────────────────────────────────────
+
+/**
+ * Tap-along latency calibration: plays a steady click and records how far
+ * each key press on `device` lands from the nearest click. The result is
+ * the median offset in ms (positive = the keyboard reads late).
+ *
+ * Listens with addEventListener so it coexists with the practice hook's
+ * `onmidimessage` handler on the same input.
+ */
+export function useLatencyCalibration(device: MIDIInput | undefined) {
+  const [status, setStatus] = useState<CalibrationStatus>("idle");
+  /** Clicks played so far in the current run */
+  const [clicks, setClicks] = useState(0);
+  /** Usable taps so far */
+  const [taps, setTaps] = useState(0);
+  const [result, setResult] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const metronomeRef = useRef<Metronome | null>(null);
+  /** performance.now() of each click as heard */
+  const clickTimesRef = useRef<number[]>([]);
+  /** First tap offset per measured click, by click index */
+  const offsetsRef = useRef<Map<number, number>>(new Map());
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const listenerRef = useRef<((e: Event) => void) | null>(null);
+
+  const cleanup = useCallback(() => {
+    timersRef.current.forEach(clearTimeout);
+    timersRef.current = [];
+    if (device && listenerRef.current) device.removeEventListener("midimessage", listenerRef.current);
+    listenerRef.current = null;
+    metronomeRef.current?.dispose();
+    metronomeRef.current = null;
+  }, [device]);
+
+  const finish = useCallback(() => {
+    const offsets = [...offsetsRef.current.values()];
+    cleanup();
+    setStatus("done");
+    if (offsets.length < MIN_TAPS) {
+      setResult(null);
+      setError(`Only ${offsets.length} taps landed near a click — try again and tap along with every click.`);
+      return;
+    }
+    const value = Math.round(median(offsets));
+    if (Math.abs(value) > MAX_LATENCY_MS) {
+      setResult(null);
+      setError("The taps were too far from the clicks to measure — try again.");
+      return;
+    }
+    setResult(value);
+  }, [cleanup]);
+
+  const start = useCallback(async () => {
+    if (!device) {
+      setError("Connect a MIDI keyboard first.");
+      return;
+    }
+    cleanup();
+    await Tone.start();
+
+    const beatSec = 60 / CALIBRATION_BPM;
+    const total = LEAD_IN_CLICKS + MEASURED_CLICKS;
+    const metronome = createMetronome();
+    metronomeRef.current = metronome;
+
+    // Map the AudioContext clock onto performance.now(), which MIDI event
+    // timestamps use. Output latency stays in — it is part of what we measure.
+    const audioStart = Tone.immediate() + START_DELAY_SEC;
+    const perfStart = performance.now() + START_DELAY_SEC * 1000;
+    clickTimesRef.current = [];
+    offsetsRef.current = new Map();
+
+    for (let i = 0; i < total; i++) {
+      metronome.click(i % 4 === 0, audioStart + i * beatSec);
+      const perfTime = perfStart + i * beatSec * 1000;
+      clickTimesRef.current.push(perfTime);
+      timersRef.current.push(setTimeout(() => setClicks(i + 1), perfTime - performance.now()));
+    }
+    timersRef.current.push(
+      setTimeout(finish, perfStart + total * beatSec * 1000 - performance.now()),
+    );
+
+    const listener = (e: Event) => {
+      const msg = e as MIDIMessageEvent;
+      const data = msg.data;
+      if (!data || data.length < 3) return;
+      const [s, , velocity] = data;
+      if ((s & 0xf0) !== 0x90 || velocity === 0) return;
+
+      const tapTime = msg.timeStamp || performance.now();
+      const times = clickTimesRef.current;
+      let nearest = 0;
+      for (let i = 1; i < times.length; i++) {
+        if (Math.abs(times[i] - tapTime) < Math.abs(times[nearest] - tapTime)) nearest = i;
+      }
+      const offset = tapTime - times[nearest];
+      if (nearest < LEAD_IN_CLICKS || Math.abs(offset) > (beatSec * 1000) / 2) return;
+      if (offsetsRef.current.has(nearest)) return;
+      offsetsRef.current.set(nearest, offset);
+      setTaps(offsetsRef.current.size);
+    };
+    listenerRef.current = listener;
+    device.addEventListener("midimessage", listener);
+
+    setClicks(0);
+    setTaps(0);
+    setResult(null);
+    setError(null);
+    setStatus("running");
+  }, [device, cleanup, finish]);
+
+  const cancel = useCallback(() => {
+    cleanup();
+    setStatus("idle");
+    setClicks(0);
+    setTaps(0);
+  }, [cleanup]);
+
+  // Stop if the device changes or the component unmounts mid-run
+  useEffect(() => cleanup, [cleanup]);
+
+  return {
+    state: {
+      status,
+      clicks,
+      totalClicks: LEAD_IN_CLICKS + MEASURED_CLICKS,
+      leadInClicks: LEAD_IN_CLICKS,
+      taps,
+      result,
+      error,
+    },
+    controls: {
+      start,
+      cancel,
+    },
+  };
+}
@@ -4,21 +4,50 @@ import { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { createClient } from "@/lib/supabase/client";
 import { Midi } from "@tonejs/midi";
 import * as Tone from "tone";
-import type { PianoPlayer, PianoPlayerFactory } from "@/lib/piano";
-import { splendidPiano } from "@/lib/piano";
-
-/** Seconds of silence prepended so the user can prepare before notes begin. */
-export const LEAD_IN_SEC = 1;
+import type { PianoPlayer, PianoPlayerFactory, TrackInstrument } from "@/lib/piano";
+import { instrumentForProgram, soundfontInstrument, splendidPiano } from "@/lib/piano";
+import { registerSampleCache } from "@/lib/piano/sample-cache";
+import { createMetronome, type Metronome } from "@/lib/piano/metronome";
+import {
+  createMasterBus,
+  DEFAULT_MASTER_EFFECTS,
+  loadMasterEffects,
+  normalizeMasterEffects,
+  saveMasterEffects,
+  type MasterBus,
+  type MasterEffects,
+} from "@/lib/piano/master-bus";
+import { buildBeatGrid, type BeatGrid, type BeatLine } from "@/lib/piano/beat-grid";
+import { pedalSpansByTrack, pedalSustain, type PedalSpan } from "@/lib/piano/sustain";
+import { LEAD_IN_SEC, type NoteEvent } from "@/lib/piano/timeline";
+import { trackInstrument, trackLevel, type TrackMix } from "@/lib/piano/track-mix";
+
+export { LEAD_IN_SEC, type NoteEvent };
+export { trackInstrument, type TrackMix };
+
+/** Shortest A/B loop region that can be set (seconds of virtual time). */
+export const MIN_LOOP_SEC = 0.5;
+/** Time constant of a track fader move (seconds), short enough to feel instant without clicking */
+const TRACK_FADE_SEC = 0.02;
 
 export type LoadState = "loading" | "ready" | "error";
 
-export interface NoteEvent {
+/** Tempo change at a point in the piece (time in virtual seconds, LEAD_IN_SEC included) */
+export interface TempoChange {
   time: number;
-  duration: number;
-  midi: number;
-  name: string;
-  velocity: number;
-  track: number;
+  bpm: number;
+}
+
+export interface TimeSignatureChange {
+  time: number;
+  /** e.g. "3/4" */
+  timeSignature: string;
+}
+
+export interface KeySignatureChange {
+  time: number;
+  /** e.g. "G major" */
+  keySignature: string;
 }
 
 export interface MidiPlayerState {
@@ -31,10 +60,30 @@ export interface MidiPlayerState {
   bpm: number;
   noteCount: number;
   trackCount: number;
+  /** Mixer settings for every MIDI track that contains notes */
+  tracks: TrackMix[];
   activeNotes: string[];
   keySignature: string;
   timeSignature: string;
+  /** Every tempo change in the file, in time order (at least one entry once loaded) */
+  tempoMap: TempoChange[];
+  timeSignatures: TimeSignatureChange[];
+  keySignatures: KeySignatureChange[];
+  /** Tempo in effect at the playhead (rounded BPM at 1× speed) */
+  currentBpm: number;
   playbackSpeed: number;
+  /** Start of the A/B loop region in virtual time (null when not looping) */
+  loopStart: number | null;
+  /** End of the A/B loop region in virtual time (null when not looping) */
+  loopEnd: number | null;
+  /** Click on every beat of the tempo map during playback and practice */
+  metronomeEnabled: boolean;
+  /** Linear metronome level 0 – 1, independent of the piano */
+  metronomeVolume: number;
+  /** Bars counted in before flowing practice starts (0 = none) */
+  countInBars: number;
+  /** Reverb, EQ, width and limiter on the shared master bus */
+  masterEffects: MasterEffects;
 }
 
 export interface MidiPlayerControls {
@@ -45,16 +94,56 @@ export interface MidiPlayerControls {
   formatTime: (seconds: number) => string;
   getAllNotes: () => NoteEvent[];
   setPlaybackSpeed: (speed: number) => void;
+  /** Loop playback between two virtual times (seconds, LEAD_IN_SEC included). */
+  setLoop: (start: number, end: number) => void;
+  clearLoop: () => void;
+  setTrackMute: (track: number, muted: boolean) => void;
+  setTrackSolo: (track: number, solo: boolean) => void;
+  setTrackGain: (track: number, gain: number) => void;
+  /** Play a track on another instrument (null goes back to the file's program) */
+  setTrackInstrument: (track: number, instrument: TrackInstrument | null) => void;
+  setMetronomeEnabled: (enabled: boolean) => void;
+  setMetronomeVolume: (volume: number) => void;
+  setCountInBars: (bars: number) => void;
+  setMasterEffects: (effects: MasterEffects) => void;
 }
 
 export interface MidiPlayerRefs {
   midiRef: React.RefObject<Midi | null>;
   pianoRef: React.RefObject<PianoPlayer | null>;
+  metronomeRef: React.RefObject<Metronome | null>;
+  /** Effects chain every player's output goes through */
+  masterBusRef: React.RefObject<MasterBus | null>;
+  /** Beat lines of the loaded piece (empty until loaded) */
+  beatGridRef: React.RefObject<BeatGrid>;
+  /** Sustain pedal spans per MIDI track (indexed like `midi.tracks`) */
+  pedalSpansRef: React.RefObject<PedalSpan[][]>;
 }
 
+/** A player dedicated to one track, playing into its fader. */
+interface TrackPlayer {
+  instrument: TrackInstrument;
+  player: PianoPlayer;
+}
+
+/** The tempo change in effect at `time`, or the first one before it starts. */
+export function tempoAt(tempoMap: TempoChange[], time: number): TempoChange | undefined {
+  let current = tempoMap[0];
+  for (const change of tempoMap) {
+    if (change.time > time) break;
+    current = change;
+  }
+  return current;
+}
+
+/**
+ * Load a score by id (or play an in-memory `recording` instead, e.g. an
+ * unsaved take from the recorder) and drive Tone.js playback of it.
+ */
 export function useMidiPlayer(
   id: string | undefined,
   pianoFactory: PianoPlayerFactory = splendidPiano,
+  recording?: Midi | null,
 ) {
   const supabase = useMemo(() => createClient(), []);
 
@@ -67,20 +156,81 @@ export function useMidiPlayer(
   const [bpm, setBpm] = useState(120);
   const [noteCount, setNoteCount] = useState(0);
   const [trackCount, setTrackCount] = useState(0);
+  const [tracks, setTracks] = useState<TrackMix[]>([]);
   const [activeNotes, setActiveNotes] = useState<string[]>([]);
   const [midiLoaded, setMidiLoaded] = useState(false);
   const [keySignature, setKeySignature] = useState("");
   const [timeSignature, setTimeSignature] = useState("");
+  const [tempoMap, setTempoMap] = useState<TempoChange[]>([]);
+  const [timeSignatures, setTimeSignatures] = useState<TimeSignatureChange[]>([]);
+  const [keySignatures, setKeySignatures] = useState<KeySignatureChange[]>([]);
   const [playbackSpeed, setPlaybackSpeedState] = useState(1);
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [loopEnd, setLoopEnd] = useState<number | null>(null);
+  const [metronomeEnabled, setMetronomeEnabledState] = useState(false);
+  const [metronomeVolume, setMetronomeVolumeState] = useState(0.6);
+  const [countInBars, setCountInBarsState] = useState(1);
+  const [masterEffects, setMasterEffectsState] = useState<MasterEffects>(DEFAULT_MASTER_EFFECTS);
 
   const pianoRef = useRef<PianoPlayer | null>(null);
+  /** Piano kind the track players on the piano were made with */
+  const pianoFactoryRef = useRef(pianoFactory);
+  /** Each track's fader: its player plays into it and it feeds the master bus */
+  const trackGainsRef = useRef<Map<number, GainNode>>(new Map());
+  /** Each track's loaded player, by track index: its GM instrument or a piano of its own */
+  const trackPlayersRef = useRef<Map<number, TrackPlayer>>(new Map());
+  /** Track players still loading, so overlapping syncs share one load */
+  const trackPlayerLoadsRef = useRef<Map<number, TrackPlayer & { load: Promise<void> }>>(new Map());
   const disposedRef = useRef(false);
   const playbackSpeedRef = useRef(1);
   const durationRef = useRef(0);
+  /** Active A/B loop region in virtual time — read when (re)scheduling */
+  const loopRef = useRef<{ start: number; end: number } | null>(null);
+  /** Mixer settings — read by the Tone.Part callbacks so changes apply live */
+  const tracksRef = useRef<TrackMix[]>([]);
 
   const partsRef = useRef<Tone.Part[]>([]);
   const progressInterval = useRef<ReturnType<typeof setInterval> | null>(null);
   const midiRef = useRef<Midi | null>(null);
+  const metronomeRef = useRef<Metronome | null>(null);
+  const masterBusRef = useRef<MasterBus | null>(null);
+  const beatGridRef = useRef<BeatGrid>([]);
+  const pedalSpansRef = useRef<PedalSpan[][]>([]);
+
+  // Metronome lives for the lifetime of the page, independent of the piano
+  useEffect(() => {
+    metronomeRef.current = createMetronome();
+    return () => {
+      metronomeRef.current?.dispose();
+      metronomeRef.current = null;
+    };
+  }, []);
+
+  // So does the master bus; the pianos created below play into it
+  useEffect(() => {
+    const effects = loadMasterEffects();
+    masterBusRef.current = createMasterBus(Tone.getContext().rawContext as AudioContext, effects);
+    setMasterEffectsState(effects);
+    return () => {
+      masterBusRef.current?.dispose();
+      masterBusRef.current = null;
+    };
+  }, []);
+
+  // When the A/B loop wraps, release what is still ringing from the end of
+  // the region (and its highlights) before the next pass is scheduled
+  useEffect(() => {
+    const transport = Tone.getTransport();
+    const onLoopEnd = () => {
+      stopVoices();
+      setActiveNotes([]);
+    };
+    transport.on("loopEnd", onLoopEnd);
+    return () => {
+      transport.off("loopEnd", onLoopEnd);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -89,14 +239,27 @@ export function useMidiPlayer(
       stopPlayback();
       disposedRef.current = true;
       pianoRef.current?.dispose();
+      trackPlayersRef.current.forEach(({ player }) => player.dispose());
+      trackPlayersRef.current.clear();
+      // Loads still in flight dispose their players when they find themselves dropped
+      trackPlayerLoadsRef.current.clear();
+      trackGainsRef.current.forEach((gain) => gain.disconnect());
+      trackGainsRef.current.clear();
       partsRef.current.forEach((p) => p.dispose());
       Tone.getTransport().cancel();
+      Tone.getTransport().loop = false;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Fetch score and MIDI file on mount
+  // Fetch score and MIDI file on mount (or take the in-memory recording)
   useEffect(() => {
+    if (recording) {
+      stopPlayback();
+      setTitle(recording.name || "Untitled recording");
+      applyMidi(recording);
+      return;
+    }
     if (!id) return;
 
     async function load() {
@@ -123,42 +286,7 @@ export function useMidiPlayer(
         }
 
         const arrayBuf = await res.arrayBuffer();
-        const midi = new Midi(arrayBuf);
-        midiRef.current = midi;
-
-        const tempos = midi.header.tempos;
-        if (tempos.length > 0) {
-          setBpm(Math.round(tempos[0].bpm));
-        }
-
-        const keySigs = midi.header.keySignatures;
-        if (keySigs.length > 0) {
-          const k = keySigs[0];
-          setKeySignature(`${k.key} ${k.scale}`);
-        }
-
-        const timeSigs = midi.header.timeSignatures;
-        if (timeSigs.length > 0) {
-          const t = timeSigs[0].timeSignature;
-          setTimeSignature(`${t[0]}/${t[1]}`);
-        }
-
-        let totalNotes = 0;
-        let maxEnd = 0;
-        midi.tracks.forEach((track) => {
-          totalNotes += track.notes.length;
-          track.notes.forEach((n) => {
-            const end = n.time + n.duration;
-            if (end > maxEnd) maxEnd = end;
-          });
-        });
-
-        setNoteCount(totalNotes);
-        setTrackCount(midi.tracks.filter((t) => t.notes.length > 0).length);
-        const dur = maxEnd + LEAD_IN_SEC;
-        setDuration(dur);
-        durationRef.current = dur;
-        setMidiLoaded(true);
+        applyMidi(new Midi(arrayBuf));
       } catch (e: any) {
         setError(e?.message ?? "Failed to load tutorial.");
         setLoadState("error");
@@ -167,7 +295,86 @@ export function useMidiPlayer(
 
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [id]);
+  }, [id, recording]);
+
+  /** Read tempo, signatures, tracks and duration from a parsed file and make it current. */
+  function applyMidi(midi: Midi) {
+    midiRef.current = midi;
+
+    const tempos = midi.header.tempos;
+    if (tempos.length > 0) {
+      setBpm(Math.round(tempos[0].bpm));
+    }
+
+    const keySigs = midi.header.keySignatures;
+    if (keySigs.length > 0) {
+      const k = keySigs[0];
+      setKeySignature(`${k.key} ${k.scale}`);
+    }
+
+    const timeSigs = midi.header.timeSignatures;
+    if (timeSigs.length > 0) {
+      const t = timeSigs[0].timeSignature;
+      setTimeSignature(`${t[0]}/${t[1]}`);
+    }
+
+    // Full tempo / signature maps, in virtual time, skipping repeats of the same value
+    const toTime = (ticks: number) => midi.header.ticksToSeconds(ticks) + LEAD_IN_SEC;
+    const map: TempoChange[] = [];
+    for (const t of [...tempos].sort((a, b) => a.ticks - b.ticks)) {
+      if (map.length > 0 && Math.abs(map[map.length - 1].bpm - t.bpm) < 0.01) continue;
+      map.push({ time: toTime(t.ticks), bpm: t.bpm });
+    }
+    setTempoMap(map.length > 0 ? map : [{ time: 0, bpm: 120 }]);
+    setTimeSignatures(
+      timeSigs.map((t) => ({
+        time: toTime(t.ticks),
+        timeSignature: `${t.timeSignature[0]}/${t.timeSignature[1]}`,
+      }))
+    );
+    setKeySignatures(
+      keySigs.map((k) => ({ time: toTime(k.ticks), keySignature: `${k.key} ${k.scale}` }))
+    );
+
+    let totalNotes = 0;
+    let maxEnd = 0;
+    midi.tracks.forEach((track) => {
+      totalNotes += track.notes.length;
+      track.notes.forEach((n) => {
+        const end = n.time + n.duration;
+        if (end > maxEnd) maxEnd = end;
+      });
+    });
+
+    setNoteCount(totalNotes);
+    setTrackCount(midi.tracks.filter((t) => t.notes.length > 0).length);
+    const mix: TrackMix[] = [];
+    midi.tracks.forEach((track, index) => {
+      if (track.notes.length === 0) return;
+      mix.push({
+        index,
+        name: track.name.trim() || `Track ${mix.length + 1}`,
+        noteCount: track.notes.length,
+        muted: false,
+        solo: false,
+        gain: 1,
+        program: track.instrument.number,
+        autoInstrument: instrumentForProgram(track.instrument.number, track.instrument.percussion),
+        instrumentOverride: null,
+      });
+    });
+    tracksRef.current = mix;
+    setTracks(mix);
+    const dur = maxEnd + LEAD_IN_SEC;
+    setDuration(dur);
+    durationRef.current = dur;
+    beatGridRef.current = buildBeatGrid(midi.header, dur);
+    pedalSpansRef.current = pedalSpansByTrack(midi);
+    applyTrackLevels();
+    // A replaced piece keeps the piano; its tracks get players of their own
+    if (pianoRef.current) syncTrackPlayers();
+    setMidiLoaded(true);
+  }
 
   // Create (or re-create) the piano player when the factory changes
   useEffect(() => {
@@ -184,9 +391,15 @@ export function useMidiPlayer(
       setError("");
 
       try {
+        // Samples are served from the offline cache once it controls the page
+        await registerSampleCache();
         const audioContext = Tone.getContext().rawContext as AudioContext;
-        const piano = pianoFactory(audioContext);
-        await piano.loaded;
+        const piano = pianoFactory(audioContext, masterBusRef.current?.input);
+        if (pianoFactoryRef.current !== pianoFactory) {
+          pianoFactoryRef.current = pianoFactory;
+          dropTrackPlayers((entry) => entry.instrument === "piano");
+        }
+        await Promise.all([piano.loaded, syncTrackPlayers()]);
 
         if (cancelled) {
           piano.dispose();
@@ -236,6 +449,117 @@ export function useMidiPlayer(
     }, 100);
   }
 
+  /** Silence the piano and every track player. */
+  function stopVoices() {
+    pianoRef.current?.stop();
+    trackPlayersRef.current.forEach(({ player }) => player.stop());
+  }
+
+  /** A track's fader, created on first use at the mixer's level and fed into the master bus. */
+  function trackGain(index: number): GainNode {
+    let gain = trackGainsRef.current.get(index);
+    if (!gain) {
+      const audioContext = Tone.getContext().rawContext as AudioContext;
+      gain = audioContext.createGain();
+      gain.gain.value = trackLevel(tracksRef.current, index);
+      gain.connect(masterBusRef.current?.input ?? audioContext.destination);
+      trackGainsRef.current.set(index, gain);
+    }
+    return gain;
+  }
+
+  /** Move every fader to the mixer's level (mute and solo included), without clicks. */
+  function applyTrackLevels() {
+    const now = Tone.getContext().rawContext.currentTime;
+    for (const [index, gain] of trackGainsRef.current) {
+      gain.gain.setTargetAtTime(trackLevel(tracksRef.current, index), now, TRACK_FADE_SEC);
+    }
+  }
+
+  /** The track's own player, or null while it loads (or when it failed to). */
+  function trackPlayer(index: number): PianoPlayer | null {
+    return trackPlayersRef.current.get(index)?.player ?? null;
+  }
+
+  /** Dispose the track players (and abandon the loads) that `stale` picks. */
+  function dropTrackPlayers(stale: (entry: TrackPlayer & { index: number }) => boolean) {
+    const players = trackPlayersRef.current;
+    for (const [index, entry] of players) {
+      if (!stale({ index, ...entry })) continue;
+      entry.player.dispose();
+      players.delete(index);
+    }
+    const loads = trackPlayerLoadsRef.current;
+    for (const [index, entry] of loads) {
+      if (stale({ index, ...entry })) loads.delete(index);
+    }
+  }
+
+  /**
+   * Give every track a player of its instrument (a piano of the selected
+   * kind for piano tracks), playing into its fader, and dispose the rest.
+   * A track plays on the shared piano until its player has loaded, and
+   * stays there if it fails to.
+   */
+  async function syncTrackPlayers() {
+    const mix = tracksRef.current;
+    const wanted = (index: number) => {
+      const entry = mix.find((t) => t.index === index);
+      return entry ? trackInstrument(entry) : null;
+    };
+    dropTrackPlayers(({ index, instrument }) => wanted(index) !== instrument);
+
+    const players = trackPlayersRef.current;
+    const loads = trackPlayerLoadsRef.current;
+    const audioContext = Tone.getContext().rawContext as AudioContext;
+    await Promise.all(
+      mix
+        .filter((t) => !players.has(t.index))
+        .map((t) => {
+          const pending = loads.get(t.index);
+          if (pending) return pending.load;
+          const instrument = trackInstrument(t);
+          const factory = instrument === "piano" ? pianoFactoryRef.current : soundfontInstrument(instrument);
+          const player = factory(audioContext, trackGain(t.index));
+          const load = (async () => {
+            try {
+              await player.loaded;
+              // Dropped while loading: the track moved on or the piece changed
+              if (loads.get(t.index)?.player !== player) {
+                player.dispose();
+                return;
+              }
+              players.set(t.index, { instrument, player });
+            } catch {
+              player.dispose();
+              console.error(`Failed to load the ${instrument} player; track ${t.index} plays on the shared piano.`);
+            } finally {
+              if (loads.get(t.index)?.player === player) loads.delete(t.index);
+            }
+          })();
+          loads.set(t.index, { instrument, player, load });
+          return load;
+        })
+    );
+  }
+
+  /**
+   * Sync the transport loop points with the A/B loop region.
+   * Loop points live in transport (wall-clock) seconds, so they have to be
+   * re-applied whenever the playback speed changes.
+   */
+  function applyLoopPoints() {
+    const transport = Tone.getTransport();
+    const loop = loopRef.current;
+    if (!loop) {
+      transport.loop = false;
+      return;
+    }
+    const speed = playbackSpeedRef.current;
+    transport.setLoopPoints(loop.start / speed, loop.end / speed);
+    transport.loop = true;
+  }
+
   /**
    * Re-schedule all MIDI parts from a given time offset.
    * The transport should be stopped/paused before calling this.
@@ -251,17 +575,25 @@ export function useMidiPlayer(
     partsRef.current.forEach((p) => p.dispose());
     partsRef.current = [];
 
-    midi.tracks.forEach((track) => {
+    midi.tracks.forEach((track, trackIndex) => {
       if (track.notes.length === 0) return;
+      const pedal = pedalSpansRef.current[trackIndex] ?? [];
 
       const part = new Tone.Part(
-        (t, note: { name: string; duration: number; velocity: number; originalDuration: number }) => {
+        (t, note: { name: string; duration: number; sustain: number; velocity: number; originalDuration: number }) => {
           if (disposedRef.current) return;
-          piano.start({
+          // Silent tracks (muted, or another is soloed) skip the note altogether
+          const level = trackLevel(tracksRef.current, trackIndex);
+          if (level <= 0) return;
+          // Each track plays through its own player and fader; until that has
+          // loaded it borrows the shared piano, scaled to the fader's level
+          const own = trackPlayer(trackIndex);
+          (own ?? piano).start({
             note: note.name,
             time: t,
             duration: note.duration,
-            velocity: note.velocity,
+            sustain: note.sustain,
+            velocity: own ? note.velocity : Math.min(1, note.velocity * level),
           });
           setActiveNotes((prev) => [...new Set([...prev, note.name])]);
           setTimeout(() => {
@@ -272,6 +604,7 @@ export function useMidiPlayer(
           time: (n.time + LEAD_IN_SEC) / speed,
           name: n.name,
           duration: n.duration / speed,
+          sustain: pedalSustain(pedal, n.time + n.duration + LEAD_IN_SEC) / speed,
           originalDuration: n.duration,
           velocity: n.velocity,
         }))
@@ -281,9 +614,27 @@ export function useMidiPlayer(
       partsRef.current.push(part);
     });
 
+    // Metronome: one click per beat line, accented on the downbeat. The
+    // enabled flag is read at trigger time so it can be toggled while playing.
+    const grid = beatGridRef.current;
+    if (grid.length > 0) {
+      const clicks = new Tone.Part(
+        (t, line: BeatLine) => {
+          if (disposedRef.current) return;
+          const metronome = metronomeRef.current;
+          if (metronome?.enabled) metronome.click(line.beat === 1, t);
+        },
+        grid.map((line) => ({ ...line, time: line.time / speed }))
+      );
+      clicks.start(0);
+      partsRef.current.push(clicks);
+    }
+
     transport.schedule(() => {
       stopPlayback();
     }, durationRef.current / speed + 1);
+
+    applyLoopPoints();
   }
 
   const seekTo = useCallback(
@@ -293,7 +644,7 @@ export function useMidiPlayer(
       const wasPlaying = transport.state === "started";
 
       // Release any ringing notes
-      pianoRef.current?.stop();
+      stopVoices();
       setActiveNotes([]);
 
       transport.pause();
@@ -345,46 +696,16 @@ export function useMidiPlayer(
       return;
     }
 
-    transport.cancel();
-    partsRef.current.forEach((p) => p.dispose());
-    partsRef.current = [];
+    rescheduleFrom(0);
     transport.position = 0;
 
     const speed = playbackSpeedRef.current;
-
-    midi.tracks.forEach((track) => {
-      if (track.notes.length === 0) return;
-
-      const part = new Tone.Part(
-        (time, note: { name: string; duration: number; velocity: number; originalDuration: number }) => {
-          if (disposedRef.current) return;
-          piano.start({
-            note: note.name,
-            time: time,
-            duration: note.duration,
-            velocity: note.velocity,
-          });
-          setActiveNotes((prev) => [...new Set([...prev, note.name])]);
-          setTimeout(() => {
-            setActiveNotes((prev) => prev.filter((n) => n !== note.name));
-          }, note.originalDuration * 1000 / speed);
-        },
-        track.notes.map((n) => ({
-          time: (n.time + LEAD_IN_SEC) / speed,
-          name: n.name,
-          duration: n.duration / speed,
-          originalDuration: n.duration,
-          velocity: n.velocity,
-        }))
-      );
-
-      part.start(0);
-      partsRef.current.push(part);
-    });
-
-    transport.schedule(() => {
-      stopPlayback();
-    }, durationRef.current / speed + 1);
+    // Start at the loop region rather than the top of the piece
+    const loop = loopRef.current;
+    if (loop) {
+      transport.seconds = loop.start / speed;
+      setProgress(loop.start);
+    }
 
     transport.start();
     setIsPlaying(true);
@@ -408,7 +729,7 @@ export function useMidiPlayer(
     if (transport.state === "started") {
       // Convert current transport position back to virtual (original) time
       const virtualTime = transport.seconds * oldSpeed;
-      pianoRef.current?.stop();
+      stopVoices();
       setActiveNotes([]);
       transport.pause();
       rescheduleFrom(virtualTime);
@@ -419,7 +740,7 @@ export function useMidiPlayer(
     } else if (transport.state === "paused") {
       // Paused: reschedule at the new speed so resume plays correctly
       const virtualTime = transport.seconds * oldSpeed;
-      pianoRef.current?.stop();
+      stopVoices();
       setActiveNotes([]);
       rescheduleFrom(virtualTime);
       transport.seconds = virtualTime / clamped;
@@ -428,11 +749,99 @@ export function useMidiPlayer(
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const setLoop = useCallback(
+    (start: number, end: number) => {
+      const total = durationRef.current;
+      const s = Math.max(0, Math.min(start, end, total));
+      const e = Math.min(total, Math.max(start, end));
+      if (e - s < MIN_LOOP_SEC) return;
+
+      loopRef.current = { start: s, end: e };
+      setLoopStart(s);
+      setLoopEnd(e);
+      applyLoopPoints();
+
+      // Jump into the region if the playhead is currently outside it
+      const transport = Tone.getTransport();
+      if (transport.state !== "stopped") {
+        const virtualTime = transport.seconds * playbackSpeedRef.current;
+        if (virtualTime < s || virtualTime >= e) seekTo(s);
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [seekTo]
+  );
+
+  const clearLoop = useCallback(() => {
+    loopRef.current = null;
+    setLoopStart(null);
+    setLoopEnd(null);
+    applyLoopPoints();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const updateTrack = useCallback((index: number, patch: Partial<TrackMix>) => {
+    const next = tracksRef.current.map((t) => (t.index === index ? { ...t, ...patch } : t));
+    tracksRef.current = next;
+    setTracks(next);
+    // Faders move right away, including notes already sounding
+    applyTrackLevels();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const setTrackMute = useCallback(
+    (index: number, muted: boolean) => updateTrack(index, { muted }),
+    [updateTrack]
+  );
+
+  const setTrackSolo = useCallback(
+    (index: number, solo: boolean) => updateTrack(index, { solo }),
+    [updateTrack]
+  );
+
+  const setTrackGain = useCallback(
+    (index: number, gain: number) => updateTrack(index, { gain: Math.max(0, Math.min(1, gain)) }),
+    [updateTrack]
+  );
+
+  const setTrackInstrument = useCallback(
+    (index: number, instrument: TrackInstrument | null) => {
+      updateTrack(index, { instrumentOverride: instrument });
+      // The track plays on the piano until its instrument has loaded
+      syncTrackPlayers();
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [updateTrack]
+  );
+
+  const setMetronomeEnabled = useCallback((enabled: boolean) => {
+    if (metronomeRef.current) metronomeRef.current.enabled = enabled;
+    setMetronomeEnabledState(enabled);
+  }, []);
+
+  const setMetronomeVolume = useCallback((volume: number) => {
+    const clamped = Math.max(0, Math.min(1, volume));
+    metronomeRef.current?.setVolume(clamped);
+    setMetronomeVolumeState(clamped);
+  }, []);
+
+  const setCountInBars = useCallback((bars: number) => {
+    setCountInBarsState(Math.max(0, Math.round(bars)));
+  }, []);
+
+  const setMasterEffects = useCallback((effects: MasterEffects) => {
+    const next = normalizeMasterEffects(effects);
+    masterBusRef.current?.apply(next);
+    saveMasterEffects(next);
+    setMasterEffectsState(next);
+  }, []);
+
   const getAllNotes = useCallback((): NoteEvent[] => {
     const midi = midiRef.current;
     if (!midi) return [];
     const notes: NoteEvent[] = [];
     midi.tracks.forEach((track, trackIndex) => {
+      const pedal = pedalSpansRef.current[trackIndex] ?? [];
       track.notes.forEach((n) => {
         notes.push({
           time: n.time + LEAD_IN_SEC,
@@ -441,12 +850,18 @@ export function useMidiPlayer(
           name: n.name,
           velocity: n.velocity,
           track: trackIndex,
+          sustain: pedalSustain(pedal, n.time + n.duration + LEAD_IN_SEC),
         });
       });
     });
     return notes;
   }, []);
 
+  const currentBpm = useMemo(
+    () => Math.round(tempoAt(tempoMap, progress)?.bpm ?? bpm),
+    [tempoMap, progress, bpm]
+  );
+
   return {
     state: {
       loadState,
@@ -458,10 +873,21 @@ export function useMidiPlayer(
       bpm,
       noteCount,
       trackCount,
+      tracks,
       activeNotes,
       keySignature,
       timeSignature,
+      tempoMap,
+      timeSignatures,
+      keySignatures,
+      currentBpm,
       playbackSpeed,
+      loopStart,
+      loopEnd,
+      metronomeEnabled,
+      metronomeVolume,
+      countInBars,
+      masterEffects,
     },
     controls: {
       togglePlayback,
@@ -471,10 +897,24 @@ export function useMidiPlayer(
       formatTime,
       getAllNotes,
       setPlaybackSpeed,
+      setLoop,
+      clearLoop,
+      setTrackMute,
+      setTrackSolo,
+      setTrackGain,
+      setTrackInstrument,
+      setMetronomeEnabled,
+      setMetronomeVolume,
+      setCountInBars,
+      setMasterEffects,
     },
     refs: {
       midiRef,
       pianoRef,
+      metronomeRef,
+      masterBusRef,
+      beatGridRef,
+      pedalSpansRef,
     },
   };
 }
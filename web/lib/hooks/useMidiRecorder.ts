@@ -0,0 +1,282 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Midi } from "@tonejs/midi";
+import { SUSTAIN_CC } from "@/lib/piano/sustain";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export type RecorderStatus = "idle" | "recording" | "stopped";
+
+export interface MidiRecorderState {
+  status: RecorderStatus;
+  /** Connected MIDI input devices */
+  midiDevices: { id: string; name: string; ref: MIDIInput }[];
+  /** Currently selected device id */
+  activeDevice: string | null;
+  /** Seconds since recording started (updated while recording) */
+  elapsed: number;
+  /** Notes captured so far */
+  noteCount: number;
+  /** Whether the sustain pedal is currently down */
+  pedalDown: boolean;
+  /** The finished take, once stopped with at least one note */
+  recording: Midi | null;
+  error: string | null;
+}
+
+export interface MidiRecorderControls {
+  setActiveDevice: (id: string) => void;
+  start: () => void;
+  stop: () => void;
+  /** Throw the take away and return to idle */
+  discard: () => void;
+}
+
+/** A raw captured event, in ms since recording started */
+interface RecordedNote {
+  midi: number;
+  velocity: number;
+  startMs: number;
+  endMs: number;
+}
+
+interface RecordedPedal {
+  value: number;
+  timeMs: number;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Tempo written to the file header; the grid is only nominal for a free performance */
+const RECORDING_BPM = 120;
+
+// ── MIDI builder ──────────────────────────────────────────────────────
+
+/**
+ * Build a single-track MIDI file from the captured events, shifted so the
+ * first event lands at zero.
+ */
+function buildRecording(notes: RecordedNote[], pedal: RecordedPedal[], name: string): Midi {
+  const firstMs = Math.min(
+    notes[0]?.startMs ?? Infinity,
+    pedal[0]?.timeMs ?? Infinity,
+  );
+  const offset = Number.isFinite(firstMs) ? firstMs : 0;
+
+  const midi = new Midi();
+  midi.name = name;
+  midi.header.setTempo(RECORDING_BPM);
+
+  const track = midi.addTrack();
+  track.name = "Piano";
+  for (const note of notes) {
+    track.addNote({
+      midi: note.midi,
+      time: (note.startMs - offset) / 1000,
+      duration: Math.max(0.01, (note.endMs - note.startMs) / 1000),
+      velocity: note.velocity,
+    });
+  }
+  for (const event of pedal) {
+    track.addCC({
+      number: SUSTAIN_CC,
+      value: event.value,
+      time: Math.max(0, (event.timeMs - offset) / 1000),
+    });
+  }
+  return midi;
+}
+
+// ── Hook ──────────────────────────────────────────────────────────────
+
+/**
+ * Capture note-on/off, velocity and sustain pedal (CC64) from a Web MIDI
+ * input into a `@tonejs/midi` Midi object.
+ */
+export function useMidiRecorder() {
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+  const [midiDevices, setMidiDevices] = useState<{ id: string; name: string; ref: MIDIInput }[]>([]);
+  const [activeDevice, setActiveDevice] = useState<string | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [noteCount, setNoteCount] = useState(0);
+  const [pedalDown, setPedalDown] = useState(false);
+  const [recording, setRecording] = useState<Midi | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const statusRef = useRef<RecorderStatus>("idle");
+  /** performance.now() when recording started — MIDI event timestamps share this clock */
+  const startWallRef = useRef(0);
+  const notesRef = useRef<RecordedNote[]>([]);
+  const pedalRef = useRef<RecordedPedal[]>([]);
+  /** Notes currently held, by MIDI number */
+  const openNotesRef = useRef<Map<number, RecordedNote>>(new Map());
+  const elapsedTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // ── MIDI device setup ───────────────────────────────────────────
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !navigator.requestMIDIAccess) {
+      setError("Web MIDI API not supported in this browser.");
+      return;
+    }
+
+    let access: MIDIAccess;
+    navigator.requestMIDIAccess()
+      .then((a) => {
+        access = a;
+        refreshDevices(a);
+        a.onstatechange = () => refreshDevices(a);
+      })
+      .catch(() => setError("MIDI access denied."));
+
+    return () => {
+      if (access) {
+        for (const i of access.inputs.values()) i.onmidimessage = null;
+      }
+    };
+  }, []);
+
+  function refreshDevices(access: MIDIAccess) {
+    const devices = Array.from(access.inputs.values()).map((i) => ({
+      id: i.id,
+      name: i.name ?? "Unknown Device",
+      ref: i as MIDIInput,
+    }));
+    setMidiDevices(devices);
+    if (devices.length > 0) {
+      setActiveDevice((prev) => prev ?? devices[0].id);
+    }
+  }
+
+  // ── MIDI message handler ────────────────────────────────────────
+  useEffect(() => {
+    midiDevices.forEach((d) => { d.ref.onmidimessage = null; });
+
+    const device = midiDevices.find((d) => d.id === activeDevice);
+    if (!device) return;
+
+    device.ref.onmidimessage = (msg: MIDIMessageEvent) => {
+      if (statusRef.current !== "recording") return;
+      const data = msg.data;
+      if (!data || data.length < 3) return;
+      const [s, data1, data2] = data;
+      const type = s & 0xf0;
+      // Event timestamps are on the performance.now() clock
+      const timeMs = (msg.timeStamp || performance.now()) - startWallRef.current;
+
+      if (type === 0x90 && data2 > 0) {
+        // Re-striking a held note ends the previous one
+        closeNote(data1, timeMs);
+        openNotesRef.current.set(data1, {
+          midi: data1,
+          velocity: data2 / 127,
+          startMs: timeMs,
+          endMs: timeMs,
+        });
+      } else if (type === 0x80 || (type === 0x90 && data2 === 0)) {
+        closeNote(data1, timeMs);
+      } else if (type === 0xb0 && data1 === SUSTAIN_CC) {
+        pedalRef.current.push({ value: data2 / 127, timeMs });
+        setPedalDown(data2 >= 64);
+      }
+    };
+
+    return () => {
+      device.ref.onmidimessage = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeDevice, midiDevices]);
+
+  function closeNote(midi: number, timeMs: number) {
+    const open = openNotesRef.current.get(midi);
+    if (!open) return;
+    openNotesRef.current.delete(midi);
+    open.endMs = timeMs;
+    notesRef.current.push(open);
+    setNoteCount(notesRef.current.length);
+  }
+
+  function clearElapsedTimer() {
+    if (elapsedTimerRef.current) clearInterval(elapsedTimerRef.current);
+    elapsedTimerRef.current = null;
+  }
+
+  // ── Controls ────────────────────────────────────────────────────
+  const start = useCallback(() => {
+    notesRef.current = [];
+    pedalRef.current = [];
+    openNotesRef.current = new Map();
+    setNoteCount(0);
+    setElapsed(0);
+    setPedalDown(false);
+    setRecording(null);
+    setError(null);
+
+    startWallRef.current = performance.now();
+    statusRef.current = "recording";
+    setStatus("recording");
+
+    clearElapsedTimer();
+    elapsedTimerRef.current = setInterval(() => {
+      setElapsed((performance.now() - startWallRef.current) / 1000);
+    }, 100);
+  }, []);
+
+  const stop = useCallback(() => {
+    if (statusRef.current !== "recording") return;
+    clearElapsedTimer();
+
+    // Close anything still held at the moment recording stopped
+    const stopMs = performance.now() - startWallRef.current;
+    for (const midi of [...openNotesRef.current.keys()]) closeNote(midi, stopMs);
+
+    const notes = [...notesRef.current].sort((a, b) => a.startMs - b.startMs);
+    statusRef.current = "stopped";
+    setStatus("stopped");
+
+    if (notes.length === 0) {
+      setError("Nothing was recorded — play a few notes after pressing Record.");
+      return;
+    }
+    const pedal = [...pedalRef.current].sort((a, b) => a.timeMs - b.timeMs);
+    setRecording(buildRecording(notes, pedal, `Recording ${new Date().toLocaleString()}`));
+  }, []);
+
+  const discard = useCallback(() => {
+    clearElapsedTimer();
+    notesRef.current = [];
+    pedalRef.current = [];
+    openNotesRef.current = new Map();
+    statusRef.current = "idle";
+    setStatus("idle");
+    setRecording(null);
+    setNoteCount(0);
+    setElapsed(0);
+    setPedalDown(false);
+    setError(null);
+  }, []);
+
+  // ── Cleanup on unmount ──────────────────────────────────────────
+  useEffect(() => {
+    return () => clearElapsedTimer();
+  }, []);
+
+  return {
+    state: {
+      status,
+      midiDevices,
+      activeDevice,
+      elapsed,
+      noteCount,
+      pedalDown,
+      recording,
+      error,
+    },
+    controls: {
+      setActiveDevice,
+      start,
+      stop,
+      discard,
+    },
+  };
+}
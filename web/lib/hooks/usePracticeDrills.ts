@@ -0,0 +1,191 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  NEW_DRILL_SCHEDULE,
+  scheduleDrill,
+  type DrillSegment,
+} from "@/lib/piano/drills";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/** A stored drill (row of `practice_drills`). */
+export interface PracticeDrillRecord {
+  id: string;
+  score_id: string;
+  created_at: string;
+  start_ms: number;
+  end_ms: number;
+  label: string;
+  playback_speed: number;
+  ease: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: string;
+  last_accuracy_pct: number | null;
+  last_practised_at: string | null;
+}
+
+/** A due drill with its piece's title, for the dashboard. */
+export interface DueDrill extends PracticeDrillRecord {
+  scores: { title: string | null } | null;
+}
+
+const DRILL_COLUMNS =
+  "id, score_id, created_at, start_ms, end_ms, label, playback_speed, ease, interval_days, repetitions, due_at, last_accuracy_pct, last_practised_at";
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+/** End of the local day — everything due before then is "today". */
+function endOfToday() {
+  const d = new Date();
+  d.setHours(23, 59, 59, 999);
+  return d;
+}
+
+// ── Score drills ──────────────────────────────────────────────────────
+
+/**
+ * Drills for one score, soonest due first. `addDrills` stores new passages
+ * (ones already drilled are left alone); `recordDrillRun` reschedules a
+ * drill after a practice run of it.
+ */
+export function usePracticeDrills(scoreId: string | undefined) {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [drills, setDrills] = useState<PracticeDrillRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!scoreId) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("practice_drills")
+      .select(DRILL_COLUMNS)
+      .eq("score_id", scoreId)
+      .order("due_at", { ascending: true });
+    if (error) console.error("Error fetching drills:", error);
+    else setDrills((data ?? []) as PracticeDrillRecord[]);
+    setLoading(false);
+  }, [supabase, scoreId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const addDrills = useCallback(
+    async (segments: DrillSegment[]) => {
+      if (!scoreId || segments.length === 0) return;
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const rows = segments.map((s) => ({
+        user_id: user.id,
+        score_id: scoreId,
+        start_ms: Math.round(s.startTime * 1000),
+        end_ms: Math.round(s.endTime * 1000),
+        label: s.label,
+        playback_speed: NEW_DRILL_SCHEDULE.playbackSpeed,
+        ease: NEW_DRILL_SCHEDULE.ease,
+        interval_days: NEW_DRILL_SCHEDULE.intervalDays,
+        repetitions: NEW_DRILL_SCHEDULE.repetitions,
+      }));
+      const { error } = await supabase
+        .from("practice_drills")
+        .upsert(rows, { onConflict: "user_id,score_id,start_ms", ignoreDuplicates: true });
+      if (error) {
+        console.error("Failed to save drills:", error);
+        return;
+      }
+      await refresh();
+    },
+    [supabase, scoreId, refresh],
+  );
+
+  const recordDrillRun = useCallback(
+    async (drill: PracticeDrillRecord, accuracyPct: number) => {
+      const next = scheduleDrill(
+        {
+          ease: drill.ease,
+          intervalDays: drill.interval_days,
+          repetitions: drill.repetitions,
+          playbackSpeed: drill.playback_speed,
+        },
+        accuracyPct,
+      );
+      const { data, error } = await supabase
+        .from("practice_drills")
+        .update({
+          ease: next.ease,
+          interval_days: next.intervalDays,
+          repetitions: next.repetitions,
+          playback_speed: next.playbackSpeed,
+          due_at: next.dueAt.toISOString(),
+          last_accuracy_pct: accuracyPct,
+          last_practised_at: new Date().toISOString(),
+        })
+        .eq("id", drill.id)
+        .select(DRILL_COLUMNS)
+        .single();
+      if (error) {
+        console.error("Failed to update drill:", error);
+        return;
+      }
+      setDrills((prev) => prev.map((d) => (d.id === drill.id ? (data as PracticeDrillRecord) : d)));
+    },
+    [supabase],
+  );
+
+  const deleteDrill = useCallback(
+    async (id: string) => {
+      const { error } = await supabase.from("practice_drills").delete().eq("id", id);
+      if (error) {
+        console.error("Failed to delete drill:", error);
+        return;
+      }
+      setDrills((prev) => prev.filter((d) => d.id !== id));
+    },
+    [supabase],
+  );
+
+  return { drills, loading, refresh, addDrills, recordDrillRun, deleteDrill };
+}
+
+// ── Today's drills ────────────────────────────────────────────────────
+
+/** Every drill of the signed-in user due by the end of today, across all scores. */
+export function useDueDrills() {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [drills, setDrills] = useState<DueDrill[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchDue = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        setDrills([]);
+        setLoading(false);
+        return;
+      }
+      const { data, error } = await supabase
+        .from("practice_drills")
+        .select(`${DRILL_COLUMNS}, scores(title)`)
+        .eq("user_id", user.id)
+        .lte("due_at", endOfToday().toISOString())
+        .order("due_at", { ascending: true })
+        // Without generated types the client reads `scores` as an array; it's many-to-one, so an object
+        .overrideTypes<DueDrill[], { merge: false }>();
+      if (error) console.error("Error fetching due drills:", error);
+      else setDrills(data ?? []);
+      setLoading(false);
+    };
+    fetchDue();
+  }, [supabase]);
+
+  return { drills, loading };
+}
@@ -5,7 +5,26 @@ import type { Midi } from "@tonejs/midi";
 import * as Tone from "tone";
 import type { PianoPlayer } from "@/lib/piano";
 import type { NoteEvent } from "@/lib/hooks/useMidiPlayer";
-import type { PracticeLogEntry, FlowingJudgment, FlowingRating } from "@/lib/piano/midi-helpers";
+import type { Metronome } from "@/lib/piano/metronome";
+import { beatIndexAt, meterAt, type BeatGrid } from "@/lib/piano/beat-grid";
+import { SUSTAIN_CC } from "@/lib/piano/sustain";
+import { getLatencyOffset, saveLatencyOffset } from "@/lib/piano/latency";
+import {
+  DEFAULT_DIFFICULTY,
+  resolveDifficulty,
+  sanitizeDifficulty,
+  type DifficultyPreference,
+  type DifficultySettings,
+} from "@/lib/piano/difficulty";
+import type {
+  PracticeLogEntry,
+  FlowingJudgment,
+  FlowingRating,
+  DynamicsRating,
+  ReleaseRating,
+  Articulation,
+} from "@/lib/piano/midi-helpers";
+import { classifyArticulation, detectBassTrack, noteHand } from "@/lib/piano/midi-helpers";
 import {
   JUDGMENT_PERFECT_COLOR,
   JUDGMENT_GREAT_COLOR,
@@ -27,7 +46,7 @@ export interface PracticeStep {
   requiredMidis: Set<number>;
   /** Full note events (for audio playback) */
   notes: NoteEvent[];
-  /** Longest note duration in this step (seconds) */
+  /** Longest sounding length in this step, pedal sustain included (seconds) */
   maxDuration: number;
 }
 
@@ -42,10 +61,15 @@ export type PracticeStatus =
 
 export type PracticeMode = "discrete" | "continuous" | "flowing";
 
+/** Which hand the user practises; the other hand is auto-played as accompaniment. */
+export type PracticeHand = "both" | "right" | "left";
+
 export interface PracticeModeState {
   status: PracticeStatus;
   /** Current practice mode */
   practiceMode: PracticeMode;
+  /** Hand being practised */
+  practiceHand: PracticeHand;
   /** Current position in the piece (seconds) — drives falling notes canvas */
   practiceTime: number;
   /** Current step index the user is on */
@@ -74,34 +98,85 @@ export interface PracticeModeState {
   showSkipButton: boolean;
   /** Total reference note count (for flowing mode accuracy) */
   flowingTotalNotes: number;
+  /** Flowing mode: also judge key velocity against the reference */
+  dynamicsEnabled: boolean;
+  /** Allowed velocity difference (0 – 127 scale) for a dynamics "match" */
+  dynamicsTolerance: number;
+  /** Chosen difficulty profile (and the user's custom values) */
+  difficulty: DifficultyPreference;
+  /** Judgment windows and tolerances in effect for the profile */
+  difficultySettings: DifficultySettings;
+  /** Calibrated input latency of the active device, subtracted from flowing timing (ms) */
+  latencyOffsetMs: number;
+}
+
+/** Metronome wiring from the player; clicks follow the practice clock. */
+export interface PracticeMetronome {
+  metronomeRef: React.RefObject<Metronome | null>;
+  beatGridRef: React.RefObject<BeatGrid>;
+  /** Bars counted in before flowing practice starts */
+  countInBars: number;
 }
 
 export interface PracticeModeControls {
-  start: () => void;
+  /** Returns the count-in length in ms (0 when none); the clock starts after it. */
+  start: () => number;
   reset: () => void;
   skipStep: () => void;
   setActiveDevice: (id: string) => void;
   setPracticeMode: (mode: PracticeMode) => void;
+  setPracticeHand: (hand: PracticeHand) => void;
   togglePause: () => void;
+  setDynamicsEnabled: (enabled: boolean) => void;
+  setDynamicsTolerance: (tolerance: number) => void;
+  setDifficulty: (difficulty: DifficultyPreference) => void;
+  /** Store the latency offset for the active device (0 clears it) */
+  setLatencyOffset: (offsetMs: number) => void;
+  /** Computer keyboard / on-screen keys: same path as a MIDI note-on (velocity 1 – 127) */
+  virtualNoteOn: (midi: number, velocity?: number) => void;
+  virtualNoteOff: (midi: number) => void;
+}
+
+/** A matched flowing-mode note whose key is still down */
+interface OpenFlowingNote {
+  /** Index into the flowing reference notes */
+  noteIndex: number;
+  /** Index of its entry in the session log */
+  logIndex: number;
+  /** Practice time of the press (seconds) */
+  pressedAt: number;
 }
 
 // ── Constants ─────────────────────────────────────────────────────────
 
-const CHORD_TOLERANCE_SEC = 0.03; // 30ms — notes within this window = same step
-/** If user holds a note for longer than its duration × this factor, reset step */
-const OVER_HOLD_FACTOR = 1.5;
+// Chord tolerance, over-hold factor and the flowing-mode timing windows
+// come from the difficulty profile (lib/piano/difficulty.ts).
+
 /** Minimum effective note duration for the over-hold check (seconds) */
 const MIN_EFFECTIVE_DURATION = 0.3;
 
-// Flowing mode timing thresholds (ms)
-const FLOWING_PERFECT_MS = 50;
-const FLOWING_GREAT_MS = 150;
-const FLOWING_OKAY_MS = 300;
-const FLOWING_MATCH_WINDOW_MS = 500;
+/** A release within this fraction of the reference duration counts as good… */
+const RELEASE_TOLERANCE_RATIO = 0.3;
+/** …or within this many ms, whichever is larger (short notes) */
+const RELEASE_MIN_TOLERANCE_MS = 120;
+
+/** Velocity of notes from the computer keyboard and on-screen keys */
+const VIRTUAL_VELOCITY = 90;
+
+/** Default velocity tolerance (0 – 127 scale) for dynamics scoring */
+export const DEFAULT_DYNAMICS_TOLERANCE = 20;
+
+/** Delay before the first count-in click so it isn't clipped (seconds) */
+const COUNT_IN_LEAD_SEC = 0.05;
 
 // ── Step builder ──────────────────────────────────────────────────────
 
-function buildSteps(allNotes: NoteEvent[]): PracticeStep[] {
+/** How long a note sounds: its key-down duration plus any pedal sustain */
+function soundingDuration(note: NoteEvent) {
+  return note.duration + (note.sustain ?? 0);
+}
+
+function buildSteps(allNotes: NoteEvent[], chordToleranceSec: number): PracticeStep[] {
   if (allNotes.length === 0) return [];
 
   const sorted = [...allNotes].sort((a, b) => a.time - b.time || a.midi - b.midi);
@@ -112,7 +187,7 @@ function buildSteps(allNotes: NoteEvent[]): PracticeStep[] {
 
   for (let i = 1; i < sorted.length; i++) {
     const note = sorted[i];
-    if (note.time - groupTime <= CHORD_TOLERANCE_SEC) {
+    if (note.time - groupTime <= chordToleranceSec) {
       currentGroup.push(note);
     } else {
       steps.push({
@@ -121,7 +196,7 @@ function buildSteps(allNotes: NoteEvent[]): PracticeStep[] {
         midis: new Set(currentGroup.map((n) => n.midi)),
         requiredMidis: new Set(),  // placeholder — filled in second pass
         notes: currentGroup,
-        maxDuration: Math.max(...currentGroup.map((n) => n.duration)),
+        maxDuration: Math.max(...currentGroup.map(soundingDuration)),
       });
       currentGroup = [note];
       groupTime = note.time;
@@ -133,19 +208,20 @@ function buildSteps(allNotes: NoteEvent[]): PracticeStep[] {
     midis: new Set(currentGroup.map((n) => n.midi)),
     requiredMidis: new Set(),  // placeholder — filled in second pass
     notes: currentGroup,
-    maxDuration: Math.max(...currentGroup.map((n) => n.duration)),
+    maxDuration: Math.max(...currentGroup.map(soundingDuration)),
   });
 
   // Second pass: compute requiredMidis for each step.
   // A step's requiredMidis = its own midis PLUS any notes from earlier steps
-  // whose duration extends past this step's start time (i.e. still sounding).
+  // whose duration (or pedal sustain) extends past this step's start time
+  // (i.e. still sounding). The user may hold these with the key or the pedal.
   for (const step of steps) {
     const required = new Set(step.midis);
     for (const note of sorted) {
       // Only consider notes that started strictly before this step
-      if (note.time >= step.time - CHORD_TOLERANCE_SEC) continue;
+      if (note.time >= step.time - chordToleranceSec) continue;
       // Note still sounding at this step's time
-      if (note.time + note.duration > step.time + CHORD_TOLERANCE_SEC) {
+      if (note.time + soundingDuration(note) > step.time + chordToleranceSec) {
         required.add(note.midi);
       }
     }
@@ -155,15 +231,54 @@ function buildSteps(allNotes: NoteEvent[]): PracticeStep[] {
   return steps;
 }
 
+// ── Hand split ────────────────────────────────────────────────────────
+
+/**
+ * Split the piece into the notes the user practises and the accompaniment
+ * that is auto-played for the other hand. Both lists are sorted by time.
+ */
+function splitHands(allNotes: NoteEvent[], hand: PracticeHand) {
+  const sorted = [...allNotes].sort((a, b) => a.time - b.time);
+  if (hand === "both") return { practised: sorted, accompaniment: [] as NoteEvent[] };
+
+  const bassTrack = detectBassTrack(allNotes);
+  const practised: NoteEvent[] = [];
+  const accompaniment: NoteEvent[] = [];
+  for (const note of sorted) {
+    (noteHand(note, bassTrack) === hand ? practised : accompaniment).push(note);
+  }
+  return { practised, accompaniment };
+}
+
 // ── Flowing-mode rating helper ────────────────────────────────────────
 
-function rateTimingOffset(absMs: number): FlowingRating {
-  if (absMs <= FLOWING_PERFECT_MS) return "perfect";
-  if (absMs <= FLOWING_GREAT_MS) return "great";
-  if (absMs <= FLOWING_OKAY_MS) return "okay";
+function rateTimingOffset(absMs: number, difficulty: DifficultySettings): FlowingRating {
+  if (absMs <= difficulty.perfectMs) return "perfect";
+  if (absMs <= difficulty.greatMs) return "great";
+  if (absMs <= difficulty.okayMs) return "okay";
   return "poor";
 }
 
+function rateDynamics(velocityDelta: number, tolerance: number): DynamicsRating {
+  if (Math.abs(velocityDelta) <= tolerance) return "match";
+  return velocityDelta < 0 ? "too-soft" : "too-loud";
+}
+
+function dynamicsDetail(rating: DynamicsRating): { text: string; color: string } {
+  switch (rating) {
+    case "match": return { text: "Good touch", color: JUDGMENT_GREAT_COLOR };
+    case "too-soft": return { text: "Too soft", color: JUDGMENT_OKAY_COLOR };
+    case "too-loud": return { text: "Too loud", color: JUDGMENT_OKAY_COLOR };
+  }
+}
+
+function rateRelease(releaseOffsetMs: number, referenceMs: number): ReleaseRating {
+  const tolerance = Math.max(RELEASE_MIN_TOLERANCE_MS, referenceMs * RELEASE_TOLERANCE_RATIO);
+  if (releaseOffsetMs < -tolerance) return "early";
+  if (releaseOffsetMs > tolerance) return "late";
+  return "good";
+}
+
 function ratingColor(rating: FlowingRating): string {
   switch (rating) {
     case "perfect": return JUDGMENT_PERFECT_COLOR;
@@ -192,12 +307,16 @@ export function usePracticeMode(
   getAllNotes: () => NoteEvent[],
   layoutInfoRef?: React.RefObject<{ W: number; hitY: number; lo: number; hi: number; whiteCount: number } | null>,
   playbackSpeed: number = 1,
+  metronome?: PracticeMetronome,
 ) {
   // Keep a ref so animation callbacks always get the latest value
   const playbackSpeedRef = useRef(playbackSpeed);
   playbackSpeedRef.current = playbackSpeed;
+  const countInBarsRef = useRef(metronome?.countInBars ?? 0);
+  countInBarsRef.current = metronome?.countInBars ?? 0;
   // ── React state (for UI rendering) ─────────────────────────────
   const [practiceMode, setPracticeModeState] = useState<PracticeMode>("flowing");
+  const [practiceHand, setPracticeHandState] = useState<PracticeHand>("both");
   const [status, setStatus] = useState<PracticeStatus>("idle");
   const [practiceTime, setPracticeTime] = useState(0);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
@@ -206,17 +325,32 @@ export function usePracticeMode(
   const [wrongNote, setWrongNote] = useState<number | null>(null);
   const [midiDevices, setMidiDevices] = useState<{ id: string; name: string; ref: MIDIInput }[]>([]);
   const [activeDevice, setActiveDevice] = useState<string | null>(null);
+  const [latencyOffsetMs, setLatencyOffsetMs] = useState(0);
   const [sessionLog, setSessionLog] = useState<PracticeLogEntry[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [heldNotes, setHeldNotes] = useState<Set<number>>(new Set());
   const [showSkipButton, setShowSkipButton] = useState(false);
   const [flowingTotalNotes, setFlowingTotalNotes] = useState(0);
+  const [dynamicsEnabled, setDynamicsEnabled] = useState(false);
+  const [dynamicsTolerance, setDynamicsToleranceState] = useState(DEFAULT_DYNAMICS_TOLERANCE);
+  const [difficulty, setDifficultyState] = useState<DifficultyPreference>(DEFAULT_DIFFICULTY);
 
   // ── Refs (source of truth for async callbacks — avoids stale closures) ──
   const stepsRef = useRef<PracticeStep[]>([]);
   const stepIndexRef = useRef(0);
   const statusRef = useRef<PracticeStatus>("idle");
   const practiceModeRef = useRef<PracticeMode>("flowing");
+  const practiceHandRef = useRef<PracticeHand>("both");
+  /** Calibrated latency of the active device (ms) */
+  const latencyOffsetRef = useRef(0);
+  /** Settings of the current difficulty profile */
+  const difficultyRef = useRef<DifficultySettings>(resolveDifficulty(DEFAULT_DIFFICULTY));
+  /** Velocity tolerance for dynamics scoring, or null when it is off */
+  const dynamicsToleranceRef = useRef<number | null>(null);
+  /** Other-hand notes auto-played through the piano (sorted by time) */
+  const accompanimentRef = useRef<NoteEvent[]>([]);
+  /** Flowing mode: index of the next accompaniment note to play */
+  const accompanimentIdxRef = useRef(0);
   const satisfiedRef = useRef<Set<number>>(new Set());
   const sessionLogRef = useRef<PracticeLogEntry[]>([]);
   const sessionStartRef = useRef(0);
@@ -224,6 +358,10 @@ export function usePracticeMode(
   /** Notes that must be released and re-pressed before they count as satisfied
    *  (same note appearing in consecutive steps — re-articulation). */
   const rearticNeededRef = useRef<Set<number>>(new Set());
+  /** Whether the user's sustain pedal (CC64) is down */
+  const pedalDownRef = useRef(false);
+  /** Keys released while the pedal was down — still "held" until it lifts */
+  const pedalHeldRef = useRef<Set<number>>(new Set());
 
   /** The real-time practice clock — updated per-frame during sustaining.
    *  The canvas reads from this ref directly for smooth animation. */
@@ -246,31 +384,94 @@ export function usePracticeMode(
   const flowingMatchedRef = useRef<Set<number>>(new Set());
   /** Set of indices that have been logged as misses */
   const flowingMissedRef = useRef<Set<number>>(new Set());
+  /** Articulation of each reference note (indexed like flowingAllNotesRef) */
+  const flowingArticulationRef = useRef<(Articulation | undefined)[]>([]);
+  /** Matched notes whose key is still down, by MIDI number — judged on release */
+  const flowingOpenRef = useRef<Map<number, OpenFlowingNote>>(new Map());
   /** Active judgment popups — read directly by the canvas */
   const judgmentsRef = useRef<FlowingJudgment[]>([]);
   /** End time of the last note in the piece (for completion detection) */
   const flowingEndTimeRef = useRef(0);
 
+  // ── Metronome refs ──────────────────────────────────────────────
+  /** Index of the next beat line the practice clock will cross */
+  const metronomeBeatIdxRef = useRef(0);
+
   // Keep refs in sync
   useEffect(() => { statusRef.current = status; }, [status]);
   useEffect(() => { practiceModeRef.current = practiceMode; }, [practiceMode]);
 
+  // ── Discrete mode metronome ─────────────────────────────────────
+  // The discrete clock only moves when a step is played, so the click
+  // free-runs at the tempo and meter around the current step instead.
+  const discretePulse = practiceMode === "discrete" && (status === "playing" || status === "waiting");
+  useEffect(() => {
+    if (!discretePulse) return;
+    let beat = 0;
+    let timer: ReturnType<typeof setTimeout>;
+
+    function pulse() {
+      const { beatSec, beatsPerBar } = meterAt(metronome?.beatGridRef.current ?? [], practiceTimeRef.current);
+      const click = metronome?.metronomeRef.current;
+      if (click?.enabled) click.click(beat % beatsPerBar === 0);
+      beat++;
+      timer = setTimeout(pulse, (beatSec / playbackSpeedRef.current) * 1000);
+    }
+
+    pulse();
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [discretePulse]);
+
   const setPracticeMode = useCallback((mode: PracticeMode) => {
     setPracticeModeState(mode);
     practiceModeRef.current = mode;
   }, []);
 
+  const setPracticeHand = useCallback((hand: PracticeHand) => {
+    setPracticeHandState(hand);
+    practiceHandRef.current = hand;
+  }, []);
+
+  useEffect(() => {
+    dynamicsToleranceRef.current = dynamicsEnabled ? dynamicsTolerance : null;
+  }, [dynamicsEnabled, dynamicsTolerance]);
+
+  const setDynamicsTolerance = useCallback((tolerance: number) => {
+    setDynamicsToleranceState(Math.max(1, Math.min(127, Math.round(tolerance))));
+  }, []);
+
+  useEffect(() => {
+    const offset = getLatencyOffset(activeDevice);
+    latencyOffsetRef.current = offset;
+    setLatencyOffsetMs(offset);
+  }, [activeDevice]);
+
+  const setLatencyOffset = useCallback((offsetMs: number) => {
+    if (!activeDevice) return;
+    saveLatencyOffset(activeDevice, offsetMs);
+    const stored = getLatencyOffset(activeDevice);
+    latencyOffsetRef.current = stored;
+    setLatencyOffsetMs(stored);
+  }, [activeDevice]);
+
+  const setDifficulty = useCallback((pref: DifficultyPreference) => {
+    const next = { profile: pref.profile, custom: sanitizeDifficulty(pref.custom) };
+    difficultyRef.current = resolveDifficulty(next);
+    setDifficultyState(next);
+  }, []);
+
   // ── Build steps when MIDI data is available ─────────────────────
   const buildAllSteps = useCallback(() => {
     const notes = getAllNotes();
     if (notes.length === 0) return [];
-    return buildSteps(notes);
+    return buildSteps(notes, difficultyRef.current.chordToleranceSec);
   }, [getAllNotes]);
 
   // ── MIDI device setup ───────────────────────────────────────────
   useEffect(() => {
     if (typeof navigator === "undefined" || !navigator.requestMIDIAccess) {
-      setError("Web MIDI API not supported in this browser.");
+      setError("Web MIDI API not supported in this browser — play with the computer keyboard or on-screen keys instead.");
       return;
     }
 
@@ -281,7 +482,7 @@ export function usePracticeMode(
         refreshDevices(a);
         a.onstatechange = () => refreshDevices(a);
       })
-      .catch(() => setError("MIDI access denied."));
+      .catch(() => setError("MIDI access denied — play with the computer keyboard or on-screen keys instead."));
 
     return () => {
       if (access) {
@@ -311,11 +512,88 @@ export function usePracticeMode(
       piano.start({
         note: note.name,
         duration: note.duration,
+        sustain: note.sustain,
+        velocity: note.velocity,
+      });
+    }
+    playStepAccompanimentInline(step);
+  }
+
+  /**
+   * Hands-separate (discrete / continuous): play the other hand's notes that
+   * fall between this step and the next, spaced out at the playback speed.
+   */
+  function playStepAccompanimentInline(step: PracticeStep) {
+    const accompaniment = accompanimentRef.current;
+    const piano = pianoRef.current;
+    if (!piano || accompaniment.length === 0) return;
+
+    const next = stepsRef.current[step.index + 1];
+    const { chordToleranceSec } = difficultyRef.current;
+    const from = step.time - chordToleranceSec;
+    const to = next ? next.time - chordToleranceSec : Infinity;
+    const speed = playbackSpeedRef.current;
+    const now = Tone.now();
+
+    for (const note of accompaniment) {
+      if (note.time < from) continue;
+      if (note.time >= to) break;
+      piano.start({
+        note: note.name,
+        time: now + Math.max(0, note.time - step.time) / speed,
+        duration: note.duration / speed,
+        sustain: (note.sustain ?? 0) / speed,
         velocity: note.velocity,
       });
     }
   }
 
+  // ── Metronome helpers ───────────────────────────────────────────
+
+  /** Point the beat cursor at the first beat line after `time`. */
+  function seekMetronome(time: number) {
+    metronomeBeatIdxRef.current = beatIndexAt(metronome?.beatGridRef.current ?? [], time) + 1;
+  }
+
+  /**
+   * Click for every beat line the practice clock has passed since the last
+   * call. Silent while the reference playback is running, since the
+   * player's own metronome part is already clicking along with it.
+   */
+  function clickBeatsUpTo(time: number) {
+    const grid = metronome?.beatGridRef.current ?? [];
+    const click = metronome?.metronomeRef.current;
+    let crossed: BeatGrid[number] | null = null;
+    while (metronomeBeatIdxRef.current < grid.length && grid[metronomeBeatIdxRef.current].time <= time) {
+      crossed = grid[metronomeBeatIdxRef.current++];
+    }
+    // Only the latest beat sounds, so a dropped frame doesn't produce a burst
+    if (!crossed || !click?.enabled) return;
+    if (Tone.getTransport().state === "started") return;
+    click.click(crossed.beat === 1);
+  }
+
+  /**
+   * Schedule `countInBars` bars of clicks (accented downbeats) in the meter
+   * at `time`, scaled by the playback speed. Plays whether or not the
+   * metronome is switched on. Returns the count-in length in ms.
+   */
+  function playCountIn(time: number): number {
+    const bars = countInBarsRef.current;
+    const click = metronome?.metronomeRef.current;
+    if (bars <= 0 || !click) return 0;
+
+    Tone.start();
+    const { beatSec, beatsPerBar } = meterAt(metronome?.beatGridRef.current ?? [], time);
+    const interval = beatSec / playbackSpeedRef.current;
+    const beats = bars * beatsPerBar;
+    const from = Tone.now() + COUNT_IN_LEAD_SEC;
+    for (let i = 0; i < beats; i++) {
+      click.click(i % beatsPerBar === 0, from + i * interval);
+    }
+    return (COUNT_IN_LEAD_SEC + beats * interval) * 1000;
+  }
+
   // ── Core sustain / navigation functions ─────────────────────────
   // Defined as plain functions that read exclusively from refs, so they
   // always get current values. Stored in refs so async callbacks (MIDI
@@ -352,6 +630,7 @@ export function usePracticeMode(
   function startSustainLoop() {
     cancelAnimationFrame(sustainAnimRef.current);
     let lastStateUpdate = performance.now();
+    seekMetronome(sustainBasePracticeRef.current);
 
     function tick() {
       if (statusRef.current !== "sustaining") return;
@@ -396,7 +675,7 @@ export function usePracticeMode(
           ? currentSteps[nextIdx].time - step.time
           : effectiveDuration;
       const overHoldLimit =
-        step.time + Math.max(effectiveDuration, gapToNext) * OVER_HOLD_FACTOR;
+        step.time + Math.max(effectiveDuration, gapToNext) * difficultyRef.current.overHoldFactor;
 
       if (newTime >= overHoldLimit) {
         cancelAnimationFrame(sustainAnimRef.current);
@@ -413,6 +692,7 @@ export function usePracticeMode(
 
       // ── Normal tick — advance time ────────────────────────────────
       practiceTimeRef.current = newTime;
+      clickBeatsUpTo(newTime);
 
       // Throttled React state update (100ms) for the UI time display
       if (now - lastStateUpdate > 100) {
@@ -548,21 +828,41 @@ export function usePracticeMode(
   function startFlowingLoop() {
     cancelAnimationFrame(flowingAnimRef.current);
     let lastStateUpdate = performance.now();
+    seekMetronome(flowingStartOffsetRef.current);
 
     function tick() {
       if (statusRef.current !== "flowing") return;
 
       const now = performance.now();
-      const elapsed = ((now - flowingStartWallRef.current) * playbackSpeedRef.current) / 1000;
+      // The wall-clock start lies in the future during a count-in; hold the clock until then
+      const elapsed = Math.max(0, ((now - flowingStartWallRef.current) * playbackSpeedRef.current) / 1000);
       const newTime = flowingStartOffsetRef.current + elapsed;
 
       practiceTimeRef.current = newTime;
+      clickBeatsUpTo(newTime);
+
+      // ── Auto-play the other hand (hands-separate) ───────────────
+      const accompaniment = accompanimentRef.current;
+      const piano = pianoRef.current;
+      while (
+        accompanimentIdxRef.current < accompaniment.length &&
+        accompaniment[accompanimentIdxRef.current].time <= newTime
+      ) {
+        const note = accompaniment[accompanimentIdxRef.current++];
+        piano?.start({
+          note: note.name,
+          duration: note.duration / playbackSpeedRef.current,
+          sustain: (note.sustain ?? 0) / playbackSpeedRef.current,
+          velocity: note.velocity,
+        });
+      }
 
       // ── Detect missed notes ─────────────────────────────────────
       const allNotes = flowingAllNotesRef.current;
       const matched = flowingMatchedRef.current;
       const missed = flowingMissedRef.current;
-      const missDeadline = newTime - FLOWING_MATCH_WINDOW_MS / 1000;
+      // Measured on the latency-compensated clock, so a slow keyboard isn't marked missed
+      const missDeadline = flowingInputTime(latencyOffsetRef.current) - difficultyRef.current.matchWindowMs / 1000;
 
       for (let i = 0; i < allNotes.length; i++) {
         if (matched.has(i) || missed.has(i)) continue;
@@ -576,6 +876,7 @@ export function usePracticeMode(
             playedMidi: 0,
             correct: false,
             timestamp: performance.now() - sessionStartRef.current,
+            time: note.time,
             timingOffsetMs: undefined,
             rating: "miss",
           };
@@ -589,6 +890,9 @@ export function usePracticeMode(
       // ── Completion check ────────────────────────────────────────
       if (newTime >= flowingEndTimeRef.current + 1.0) {
         cancelAnimationFrame(flowingAnimRef.current);
+        // Keys still down are judged as released now, so every hit gets a release rating
+        for (const open of flowingOpenRef.current.values()) judgeFlowingRelease(open, newTime);
+        flowingOpenRef.current.clear();
         // Log any remaining unmatched notes as misses
         for (let i = 0; i < allNotes.length; i++) {
           if (!matched.has(i) && !missed.has(i)) {
@@ -600,6 +904,7 @@ export function usePracticeMode(
               playedMidi: 0,
               correct: false,
               timestamp: performance.now() - sessionStartRef.current,
+              time: note.time,
               timingOffsetMs: undefined,
               rating: "miss",
             };
@@ -625,15 +930,48 @@ export function usePracticeMode(
     flowingAnimRef.current = requestAnimationFrame(tick);
   }
 
+  /** Add a judgment popup above `midi`'s key on the hit line. */
+  function pushJudgment(midi: number, judgment: Pick<FlowingJudgment, "text" | "color" | "detail">) {
+    const layout = layoutInfoRef?.current;
+    if (!layout) return;
+
+    const { W: canvasWidth, hitY, lo, whiteCount } = layout;
+    const whiteKeyWidth = canvasWidth / whiteCount;
+    const blackKeyWidth = whiteKeyWidth * 0.6;
+    let whiteIndex = 0;
+    for (let m = lo; m < midi; m++) {
+      if (!(new Set([1, 3, 6, 8, 10])).has(m % 12)) whiteIndex++;
+    }
+    const isBlack = new Set([1, 3, 6, 8, 10]).has(midi % 12);
+    const centreX = isBlack
+      ? whiteIndex * whiteKeyWidth - blackKeyWidth / 2 + blackKeyWidth / 2
+      : whiteIndex * whiteKeyWidth + whiteKeyWidth / 2;
+
+    judgmentsRef.current = [
+      ...judgmentsRef.current,
+      { ...judgment, x: centreX, y: hitY - 30, createdAt: performance.now() },
+    ];
+  }
+
+  /**
+   * Practice time a key event really happened at: the clock minus its
+   * source's calibrated latency (wall-clock ms, so scaled by the speed).
+   */
+  function flowingInputTime(latencyMs: number) {
+    return practiceTimeRef.current - (latencyMs / 1000) * playbackSpeedRef.current;
+  }
+
   /**
    * Handle a note-on in flowing mode: find the closest unmatched reference
    * note with the same MIDI pitch within the timing window and rate it.
+   * With dynamics scoring on, `velocity` (0 – 127) is judged as well.
    */
-  function handleFlowingNoteOn(midi: number) {
-    const currentTime = practiceTimeRef.current;
+  function handleFlowingNoteOn(midi: number, velocity: number, latencyMs: number) {
+    const currentTime = flowingInputTime(latencyMs);
     const allNotes = flowingAllNotesRef.current;
     const matched = flowingMatchedRef.current;
     const missed = flowingMissedRef.current;
+    const difficulty = difficultyRef.current;
 
     // Find closest unmatched reference note with matching pitch within the window
     let bestIdx = -1;
@@ -645,7 +983,7 @@ export function usePracticeMode(
       if (note.midi !== midi) continue;
       const offsetMs = (currentTime - note.time) * 1000;
       const absOffset = Math.abs(offsetMs);
-      if (absOffset <= FLOWING_MATCH_WINDOW_MS && absOffset < bestAbsOffset) {
+      if (absOffset <= difficulty.matchWindowMs && absOffset < bestAbsOffset) {
         bestAbsOffset = absOffset;
         bestIdx = i;
       }
@@ -656,7 +994,11 @@ export function usePracticeMode(
       matched.add(bestIdx);
       const note = allNotes[bestIdx];
       const offsetMs = (currentTime - note.time) * 1000;
-      const rating = rateTimingOffset(Math.abs(offsetMs));
+      const rating = rateTimingOffset(Math.abs(offsetMs), difficulty);
+
+      const tolerance = dynamicsToleranceRef.current;
+      const velocityDelta = tolerance !== null ? velocity - Math.round(note.velocity * 127) : undefined;
+      const dynamics = velocityDelta !== undefined ? rateDynamics(velocityDelta, tolerance!) : undefined;
 
       const logEntry: PracticeLogEntry = {
         stepIndex: bestIdx,
@@ -664,38 +1006,28 @@ export function usePracticeMode(
         playedMidi: midi,
         correct: true,
         timestamp: performance.now() - sessionStartRef.current,
+        time: note.time,
         timingOffsetMs: Math.round(offsetMs),
         rating,
+        velocityDelta,
+        dynamics,
+        articulation: flowingArticulationRef.current[bestIdx],
       };
       sessionLogRef.current = [...sessionLogRef.current, logEntry];
       setSessionLog([...sessionLogRef.current]);
 
+      flowingOpenRef.current.set(midi, {
+        noteIndex: bestIdx,
+        logIndex: sessionLogRef.current.length - 1,
+        pressedAt: currentTime,
+      });
+
       // Create judgment popup
-      const layout = layoutInfoRef?.current;
-      if (layout) {
-        const { W: canvasWidth, hitY, lo, hi, whiteCount } = layout;
-        const whiteKeyWidth = canvasWidth / whiteCount;
-        const blackKeyWidth = whiteKeyWidth * 0.6;
-        let whiteIndex = 0;
-        for (let m = lo; m < midi; m++) {
-          if (!(new Set([1, 3, 6, 8, 10])).has(m % 12)) whiteIndex++;
-        }
-        const isBlack = new Set([1, 3, 6, 8, 10]).has(midi % 12);
-        const centreX = isBlack
-          ? whiteIndex * whiteKeyWidth - blackKeyWidth / 2 + blackKeyWidth / 2
-          : whiteIndex * whiteKeyWidth + whiteKeyWidth / 2;
-
-        judgmentsRef.current = [
-          ...judgmentsRef.current,
-          {
-            text: ratingText(rating),
-            color: ratingColor(rating),
-            x: centreX,
-            y: hitY - 30,
-            createdAt: performance.now(),
-          },
-        ];
-      }
+      pushJudgment(midi, {
+        text: ratingText(rating),
+        color: ratingColor(rating),
+        detail: dynamics ? dynamicsDetail(dynamics) : undefined,
+      });
     } else {
       // Extra note — no matching reference note found
       const logEntry: PracticeLogEntry = {
@@ -704,6 +1036,7 @@ export function usePracticeMode(
         playedMidi: midi,
         correct: false,
         timestamp: performance.now() - sessionStartRef.current,
+        time: currentTime,
         timingOffsetMs: undefined,
         rating: undefined,
       };
@@ -712,79 +1045,68 @@ export function usePracticeMode(
     }
   }
 
-  // ── Attach MIDI input listener ──────────────────────────────────
-  useEffect(() => {
-    if (!activeDevice || !midiDevices.length) return;
-
-    // Clear previous listeners
-    midiDevices.forEach((d) => { d.ref.onmidimessage = null; });
-
-    const device = midiDevices.find((d) => d.id === activeDevice);
-    if (!device) return;
-
-    device.ref.onmidimessage = (msg: MIDIMessageEvent) => {
-      const st = statusRef.current;
-
-      // ── Flowing mode handler ──────────────────────────────────
-      if (st === "flowing" || st === "paused") {
-        const data = msg.data;
-        if (!data || data.length < 3) return;
-        const [s, midi, velocity] = data;
-        const type = s & 0xf0;
-
-        if (type === 0x90 && velocity > 0) {
-          // Track held notes
-          const newHeld = new Set(heldNotesRef.current);
-          newHeld.add(midi);
-          heldNotesRef.current = newHeld;
-          setHeldNotes(new Set(newHeld));
-
-          // Play the note sound
-          const piano = pianoRef.current;
-          if (piano) {
-            Tone.start();
-            // Find matching note for duration/velocity or use defaults
-            const allNotes = flowingAllNotesRef.current;
-            const matched = flowingMatchedRef.current;
-            const currentTime = practiceTimeRef.current;
-            let matchedNote: NoteEvent | undefined;
-            for (let i = 0; i < allNotes.length; i++) {
-              if (matched.has(i)) continue;
-              if (allNotes[i].midi === midi && Math.abs(allNotes[i].time - currentTime) < 0.5) {
-                matchedNote = allNotes[i];
-                break;
-              }
-            }
-            piano.start({
-              note: matchedNote?.name || `${["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"][midi % 12]}${Math.floor(midi / 12) - 1}`,
-              duration: matchedNote?.duration || 0.5,
-              velocity: velocity / 127,
-            });
-          }
+  /**
+   * Compare how long a matched note was held (until `releasedAt`, in
+   * practice seconds) with its reference duration and fill in its log
+   * entry. Updates the log ref only; callers publish it.
+   */
+  function judgeFlowingRelease(open: OpenFlowingNote, releasedAt: number): ReleaseRating | null {
+    const note = flowingAllNotesRef.current[open.noteIndex];
+    const heldMs = (releasedAt - open.pressedAt) * 1000;
+    const referenceMs = note.duration * 1000;
+    const releaseOffsetMs = heldMs - referenceMs;
+    const release = rateRelease(releaseOffsetMs, referenceMs);
+
+    const log = [...sessionLogRef.current];
+    const entry = log[open.logIndex];
+    if (!entry) return null;
+    log[open.logIndex] = {
+      ...entry,
+      heldMs: Math.round(heldMs),
+      releaseOffsetMs: Math.round(releaseOffsetMs),
+      release,
+    };
+    sessionLogRef.current = log;
+    return release;
+  }
 
-          if (st === "flowing") {
-            handleFlowingNoteOn(midi);
-          }
-        }
+  /**
+   * Handle a key release in flowing mode and judge it. Only bad releases
+   * get a popup, so the hit line isn't flooded.
+   */
+  function handleFlowingNoteOff(midi: number, latencyMs: number) {
+    const open = flowingOpenRef.current.get(midi);
+    if (!open) return;
+    flowingOpenRef.current.delete(midi);
+    // Holding through a pause would count paused time as neither held nor released
+    if (statusRef.current !== "flowing") return;
+
+    const release = judgeFlowingRelease(open, flowingInputTime(latencyMs));
+    if (!release) return;
+    setSessionLog([...sessionLogRef.current]);
+
+    if (release !== "good") {
+      pushJudgment(midi, {
+        text: release === "early" ? "Released early" : "Held too long",
+        color: JUDGMENT_OKAY_COLOR,
+      });
+    }
+  }
 
-        if (type === 0x80 || (type === 0x90 && velocity === 0)) {
-          const newHeld = new Set(heldNotesRef.current);
-          newHeld.delete(midi);
-          heldNotesRef.current = newHeld;
-          setHeldNotes(new Set(newHeld));
-        }
-        return;
-      }
+  // ── Input handling ──────────────────────────────────────────────
+  // One path for every note source: the selected MIDI input and the
+  // virtual inputs (computer keyboard, on-screen keys). `latencyMs` is the
+  // source's calibrated delay, subtracted from flowing-mode timing.
 
-      // ── Discrete / Continuous mode handler ────────────────────
-      if (st !== "playing" && st !== "waiting" && st !== "sustaining") return;
+  function handleMessage(data: Uint8Array, latencyMs: number) {
+    const st = statusRef.current;
 
-      const data = msg.data;
-      if (!data || data.length < 3) return;
+    // ── Flowing mode handler ──────────────────────────────────
+    if (st === "flowing" || st === "paused") {
+      if (data.length < 3) return;
       const [s, midi, velocity] = data;
       const type = s & 0xf0;
 
-      // ── Note-on ─────────────────────────────────────────────────
       if (type === 0x90 && velocity > 0) {
         // Track held notes
         const newHeld = new Set(heldNotesRef.current);
@@ -792,115 +1114,230 @@ export function usePracticeMode(
         heldNotesRef.current = newHeld;
         setHeldNotes(new Set(newHeld));
 
-        const currentSteps = stepsRef.current;
-        const idx = stepIndexRef.current;
-        if (idx >= currentSteps.length) return;
-
-        const step = currentSteps[idx];
-        const required = practiceModeRef.current === "continuous" ? step.requiredMidis : step.midis;
-
-        // Log the key press
-        const logEntry: PracticeLogEntry = {
-          stepIndex: idx,
-          expectedMidis: [...required],
-          playedMidi: midi,
-          correct: required.has(midi),
-          timestamp: performance.now() - sessionStartRef.current,
-        };
-        sessionLogRef.current = [...sessionLogRef.current, logEntry];
-        setSessionLog([...sessionLogRef.current]);
-
-        if (required.has(midi)) {
-          // ── Correct note ────────────────────────────────────────
-          // Clear re-articulation flag for this note (user re-pressed it)
-          if (rearticNeededRef.current.has(midi)) {
-            const newReartic = new Set(rearticNeededRef.current);
-            newReartic.delete(midi);
-            rearticNeededRef.current = newReartic;
-          }
-
-          const newSatisfied = new Set(satisfiedRef.current);
-          newSatisfied.add(midi);
-          satisfiedRef.current = newSatisfied;
-          setSatisfiedMidis(new Set(newSatisfied));
-          setWrongNote(null);
-
-          // Check if all notes satisfied → can start/resume sustaining
-          checkAndResumeRef.current();
-        } else {
-          // ── Wrong note ──────────────────────────────────────────
-          setWrongNote(midi);
-
-          if (st === "sustaining") {
-            // Pause the sustain loop, freeze practice time
-            cancelAnimationFrame(sustainAnimRef.current);
-            const frozenTime = practiceTimeRef.current;
-            setPracticeTime(frozenTime);
+        // Play the note sound
+        const piano = pianoRef.current;
+        if (piano) {
+          Tone.start();
+          // Find matching note for duration/velocity or use defaults
+          const allNotes = flowingAllNotesRef.current;
+          const matched = flowingMatchedRef.current;
+          const currentTime = practiceTimeRef.current;
+          let matchedNote: NoteEvent | undefined;
+          for (let i = 0; i < allNotes.length; i++) {
+            if (matched.has(i)) continue;
+            if (allNotes[i].midi === midi && Math.abs(allNotes[i].time - currentTime) < 0.5) {
+              matchedNote = allNotes[i];
+              break;
+            }
           }
+          piano.start({
+            note: matchedNote?.name || `${["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"][midi % 12]}${Math.floor(midi / 12) - 1}`,
+            duration: matchedNote?.duration || 0.5,
+            velocity: velocity / 127,
+          });
+        }
 
-          setStatus("waiting");
-          statusRef.current = "waiting";
-
-          // Clear wrong-note highlight after 800ms, then try to auto-resume
-          setTimeout(() => {
-            setWrongNote((prev) => (prev === midi ? null : prev));
-            // After clearing, check if all expected are still held → resume
-            checkAndResumeRef.current();
-          }, 800);
+        if (st === "flowing") {
+          handleFlowingNoteOn(midi, velocity, latencyMs);
         }
       }
 
-      // ── Note-off ────────────────────────────────────────────────
       if (type === 0x80 || (type === 0x90 && velocity === 0)) {
         const newHeld = new Set(heldNotesRef.current);
         newHeld.delete(midi);
         heldNotesRef.current = newHeld;
         setHeldNotes(new Set(newHeld));
+      }
+      return;
+    }
+
+    // ── Discrete / Continuous mode handler ────────────────────
+    if (st !== "playing" && st !== "waiting" && st !== "sustaining") return;
 
-        // Releasing a note that needs re-articulation is the first half of
-        // the re-press gesture — keep it in rearticNeeded (cleared on note-on).
+    if (data.length < 3) return;
+    const [s, midi, velocity] = data;
+    const type = s & 0xf0;
 
-        const currentSteps = stepsRef.current;
-        const idx = stepIndexRef.current;
-        if (idx >= currentSteps.length) return;
+    // ── Note-on ─────────────────────────────────────────────────
+    if (type === 0x90 && velocity > 0) {
+      // Track held notes
+      const newHeld = new Set(heldNotesRef.current);
+      newHeld.add(midi);
+      heldNotesRef.current = newHeld;
+      setHeldNotes(new Set(newHeld));
 
-        const step = currentSteps[idx];
-        const required = practiceModeRef.current === "continuous" ? step.requiredMidis : step.midis;
+      const currentSteps = stepsRef.current;
+      const idx = stepIndexRef.current;
+      if (idx >= currentSteps.length) return;
 
-        if (statusRef.current === "sustaining" && required.has(midi)) {
-          // Required note released during sustain — pause clock
+      const step = currentSteps[idx];
+      const required = practiceModeRef.current === "continuous" ? step.requiredMidis : step.midis;
+
+      // Log the key press
+      const logEntry: PracticeLogEntry = {
+        stepIndex: idx,
+        expectedMidis: [...required],
+        playedMidi: midi,
+        correct: required.has(midi),
+        timestamp: performance.now() - sessionStartRef.current,
+      };
+      sessionLogRef.current = [...sessionLogRef.current, logEntry];
+      setSessionLog([...sessionLogRef.current]);
+
+      if (required.has(midi)) {
+        // ── Correct note ────────────────────────────────────────
+        // Clear re-articulation flag for this note (user re-pressed it)
+        if (rearticNeededRef.current.has(midi)) {
+          const newReartic = new Set(rearticNeededRef.current);
+          newReartic.delete(midi);
+          rearticNeededRef.current = newReartic;
+        }
+
+        const newSatisfied = new Set(satisfiedRef.current);
+        newSatisfied.add(midi);
+        satisfiedRef.current = newSatisfied;
+        setSatisfiedMidis(new Set(newSatisfied));
+        setWrongNote(null);
+
+        // Check if all notes satisfied → can start/resume sustaining
+        checkAndResumeRef.current();
+      } else {
+        // ── Wrong note ──────────────────────────────────────────
+        setWrongNote(midi);
+
+        if (st === "sustaining") {
+          // Pause the sustain loop, freeze practice time
           cancelAnimationFrame(sustainAnimRef.current);
           const frozenTime = practiceTimeRef.current;
           setPracticeTime(frozenTime);
-
-          const newSatisfied = new Set(satisfiedRef.current);
-          newSatisfied.delete(midi);
-          satisfiedRef.current = newSatisfied;
-          setSatisfiedMidis(new Set(newSatisfied));
-
-          setStatus("playing");
-          statusRef.current = "playing";
-        } else if (required.has(midi)) {
-          // Correct note released while not sustaining
-          const newSatisfied = new Set(satisfiedRef.current);
-          newSatisfied.delete(midi);
-          satisfiedRef.current = newSatisfied;
-          setSatisfiedMidis(new Set(newSatisfied));
         }
 
-        // If in waiting state and a note was released, try to resume
-        if (statusRef.current === "waiting") {
+        setStatus("waiting");
+        statusRef.current = "waiting";
+
+        // Clear wrong-note highlight after 800ms, then try to auto-resume
+        setTimeout(() => {
+          setWrongNote((prev) => (prev === midi ? null : prev));
+          // After clearing, check if all expected are still held → resume
           checkAndResumeRef.current();
-        }
+        }, 800);
       }
+    }
+
+    // ── Note-off ────────────────────────────────────────────────
+    if (type === 0x80 || (type === 0x90 && velocity === 0)) {
+      const newHeld = new Set(heldNotesRef.current);
+      newHeld.delete(midi);
+      heldNotesRef.current = newHeld;
+      setHeldNotes(new Set(newHeld));
+
+      // Releasing a note that needs re-articulation is the first half of
+      // the re-press gesture — keep it in rearticNeeded (cleared on note-on).
+
+      const currentSteps = stepsRef.current;
+      const idx = stepIndexRef.current;
+      if (idx >= currentSteps.length) return;
+
+      const step = currentSteps[idx];
+      const required = practiceModeRef.current === "continuous" ? step.requiredMidis : step.midis;
+
+      if (statusRef.current === "sustaining" && required.has(midi)) {
+        // Required note released during sustain — pause clock
+        cancelAnimationFrame(sustainAnimRef.current);
+        const frozenTime = practiceTimeRef.current;
+        setPracticeTime(frozenTime);
+
+        const newSatisfied = new Set(satisfiedRef.current);
+        newSatisfied.delete(midi);
+        satisfiedRef.current = newSatisfied;
+        setSatisfiedMidis(new Set(newSatisfied));
+
+        setStatus("playing");
+        statusRef.current = "playing";
+      } else if (required.has(midi)) {
+        // Correct note released while not sustaining
+        const newSatisfied = new Set(satisfiedRef.current);
+        newSatisfied.delete(midi);
+        satisfiedRef.current = newSatisfied;
+        setSatisfiedMidis(new Set(newSatisfied));
+      }
+
+      // If in waiting state and a note was released, try to resume
+      if (statusRef.current === "waiting") {
+        checkAndResumeRef.current();
+      }
+    }
+  }
+
+  // ── Sustain pedal ───────────────────────────────────────────
+  // Keys released while the pedal is down stay held (they still sound),
+  // so they keep satisfying requiredMidis and the over-hold clock. When
+  // the pedal lifts they are released together.
+  function handleInput(data: Uint8Array, latencyMs: number) {
+    if (data.length < 3) return;
+    const [s, midi, value] = data;
+    const type = s & 0xf0;
+
+    if (type === 0xb0 && midi === SUSTAIN_CC) {
+      pedalDownRef.current = value >= 64;
+      if (!pedalDownRef.current) {
+        const released = [...pedalHeldRef.current];
+        pedalHeldRef.current = new Set();
+        for (const m of released) handleMessage(new Uint8Array([0x80, m, 0]), latencyMs);
+      }
+      return;
+    }
+
+    const isNoteOff = type === 0x80 || (type === 0x90 && value === 0);
+    // Note length is judged on the key, not on how long the pedal lets it ring
+    if (isNoteOff && (statusRef.current === "flowing" || statusRef.current === "paused")) {
+      handleFlowingNoteOff(midi, latencyMs);
+    }
+    if (isNoteOff && pedalDownRef.current) {
+      pedalHeldRef.current.add(midi);
+      return;
+    }
+    if (type === 0x90 && value > 0 && pedalHeldRef.current.has(midi)) {
+      // Re-striking a pedal-held key: release it first so re-articulation registers
+      pedalHeldRef.current.delete(midi);
+      handleMessage(new Uint8Array([0x80, midi, 0]), latencyMs);
+    }
+
+    handleMessage(data, latencyMs);
+  }
+
+  /** Latest handleInput — the MIDI listener and virtual input call through this */
+  const handleInputRef = useRef(handleInput);
+  handleInputRef.current = handleInput;
+
+  // ── Attach MIDI input listener ──────────────────────────────────
+  useEffect(() => {
+    if (!activeDevice || !midiDevices.length) return;
+
+    // Clear previous listeners
+    midiDevices.forEach((d) => { d.ref.onmidimessage = null; });
+
+    const device = midiDevices.find((d) => d.id === activeDevice);
+    if (!device) return;
+
+    device.ref.onmidimessage = (msg: MIDIMessageEvent) => {
+      if (msg.data) handleInputRef.current(msg.data, latencyOffsetRef.current);
     };
 
     return () => {
       device.ref.onmidimessage = null;
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeDevice, midiDevices]);
 
+  // ── Virtual input ───────────────────────────────────────────────
+  const virtualNoteOn = useCallback((midi: number, velocity = VIRTUAL_VELOCITY) => {
+    handleInputRef.current(new Uint8Array([0x90, midi, velocity]), 0);
+  }, []);
+
+  const virtualNoteOff = useCallback((midi: number) => {
+    handleInputRef.current(new Uint8Array([0x80, midi, 0]), 0);
+  }, []);
+
   // ── Skip step (escape hatch) ────────────────────────────────────
   const skipStep = useCallback(() => {
     const idx = stepIndexRef.current;
@@ -933,12 +1370,19 @@ export function usePracticeMode(
   }, []);
 
   // ── Start practice ──────────────────────────────────────────────
-  const start = useCallback(() => {
+  const start = useCallback((): number => {
     const allNotes = getAllNotes();
     if (allNotes.length === 0) {
       setError("No notes in this score.");
-      return;
+      return 0;
+    }
+
+    const { practised, accompaniment } = splitHands(allNotes, practiceHandRef.current);
+    if (practised.length === 0) {
+      setError(`No ${practiceHandRef.current}-hand notes in this score.`);
+      return 0;
     }
+    accompanimentRef.current = accompaniment;
 
     // Stop any Tone.Transport playback that may be running
     const transport = Tone.getTransport();
@@ -952,6 +1396,7 @@ export function usePracticeMode(
     satisfiedRef.current = new Set();
     heldNotesRef.current = new Set();
     rearticNeededRef.current = new Set();
+    pedalHeldRef.current = new Set();
     audioPlayedRef.current = false;
     setSessionLog([]);
     setError(null);
@@ -961,20 +1406,26 @@ export function usePracticeMode(
 
     if (practiceModeRef.current === "flowing") {
       // ── Flowing mode start ────────────────────────────────────
-      const sorted = [...allNotes].sort((a, b) => a.time - b.time);
+      const sorted = practised;
       flowingAllNotesRef.current = sorted;
       flowingMatchedRef.current = new Set();
       flowingMissedRef.current = new Set();
+      flowingArticulationRef.current = classifyArticulation(sorted);
+      flowingOpenRef.current = new Map();
       judgmentsRef.current = [];
       setFlowingTotalNotes(sorted.length);
 
-      const firstNoteTime = sorted[0].time;
+      // Include the accompaniment so an intro in the other hand isn't skipped
+      const firstNoteTime = Math.min(sorted[0].time, accompaniment[0]?.time ?? Infinity);
       // Start 2 seconds before first note so user can see notes coming
       const startOffset = Math.max(0, firstNoteTime - 2);
       const lastNote = sorted[sorted.length - 1];
       flowingEndTimeRef.current = lastNote.time + lastNote.duration;
       flowingStartOffsetRef.current = startOffset;
-      flowingStartWallRef.current = performance.now();
+      const countInMs = playCountIn(firstNoteTime);
+      flowingStartWallRef.current = performance.now() + countInMs;
+      accompanimentIdxRef.current = accompaniment.findIndex((n) => n.time >= startOffset);
+      if (accompanimentIdxRef.current < 0) accompanimentIdxRef.current = accompaniment.length;
 
       practiceTimeRef.current = startOffset;
       setPracticeTime(startOffset);
@@ -988,12 +1439,13 @@ export function usePracticeMode(
       setStatus("flowing");
       statusRef.current = "flowing";
       startFlowingLoop();
+      return countInMs;
     } else {
       // ── Discrete / Continuous mode start ──────────────────────
-      const allSteps = buildSteps(allNotes);
+      const allSteps = buildSteps(practised, difficultyRef.current.chordToleranceSec);
       if (allSteps.length === 0) {
         setError("No notes in this score.");
-        return;
+        return 0;
       }
 
       stepsRef.current = allSteps;
@@ -1010,6 +1462,7 @@ export function usePracticeMode(
       setStatus("playing");
       statusRef.current = "playing";
       startSkipTimer();
+      return 0;
     }
   }, [getAllNotes]);
 
@@ -1024,11 +1477,16 @@ export function usePracticeMode(
     sessionLogRef.current = [];
     heldNotesRef.current = new Set();
     rearticNeededRef.current = new Set();
+    pedalHeldRef.current = new Set();
     audioPlayedRef.current = false;
+    accompanimentRef.current = [];
+    accompanimentIdxRef.current = 0;
 
     flowingAllNotesRef.current = [];
     flowingMatchedRef.current = new Set();
     flowingMissedRef.current = new Set();
+    flowingArticulationRef.current = [];
+    flowingOpenRef.current = new Map();
     judgmentsRef.current = [];
     setFlowingTotalNotes(0);
 
@@ -1060,6 +1518,7 @@ export function usePracticeMode(
     state: {
       status,
       practiceMode,
+      practiceHand,
       practiceTime,
       currentStepIndex,
       totalSteps: stepsRef.current.length,
@@ -1074,6 +1533,11 @@ export function usePracticeMode(
       heldNotes,
       showSkipButton,
       flowingTotalNotes,
+      dynamicsEnabled,
+      dynamicsTolerance,
+      difficulty,
+      difficultySettings: resolveDifficulty(difficulty),
+      latencyOffsetMs,
     } satisfies PracticeModeState,
     controls: {
       start,
@@ -1081,7 +1545,14 @@ export function usePracticeMode(
       skipStep,
       setActiveDevice,
       setPracticeMode,
+      setPracticeHand,
       togglePause,
+      setDynamicsEnabled,
+      setDynamicsTolerance,
+      setDifficulty,
+      setLatencyOffset,
+      virtualNoteOn,
+      virtualNoteOff,
     } satisfies PracticeModeControls,
     stepsRef,
     /** Real-time practice clock ref — read by the canvas draw loop for smooth animation */
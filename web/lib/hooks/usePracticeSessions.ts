@@ -0,0 +1,111 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import type { PracticeLogEntry } from "@/lib/piano/midi-helpers";
+import type { PracticeMode } from "@/lib/hooks/usePracticeMode";
+import {
+  averageTimingOffsetMs,
+  buildRatingBreakdown,
+  type PracticeSummary,
+} from "@/lib/piano/practice-summary";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/** A stored practice run (row of `practice_sessions`). */
+export interface PracticeSessionRecord {
+  id: string;
+  created_at: string;
+  mode: PracticeMode;
+  playback_speed: number;
+  completed: boolean;
+  accuracy_pct: number;
+  avg_timing_offset_ms: number | null;
+  rating_breakdown: Record<string, number>;
+  summary: PracticeSummary;
+}
+
+export interface SavePracticeSessionArgs {
+  summary: PracticeSummary;
+  sessionLog: PracticeLogEntry[];
+  /** True when the run reached the end of the piece, false when it was reset early */
+  completed: boolean;
+}
+
+/** Columns read back for the history view (the raw log is write-only here). */
+const SESSION_COLUMNS =
+  "id, created_at, mode, playback_speed, completed, accuracy_pct, avg_timing_offset_ms, rating_breakdown, summary";
+
+// ── Hook ──────────────────────────────────────────────────────────────
+
+/**
+ * Practice history for one score. `sessions` is oldest-first so it can be
+ * charted directly; `saveSession` appends the new row locally on success.
+ */
+export function usePracticeSessions(scoreId: string | undefined) {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [sessions, setSessions] = useState<PracticeSessionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!scoreId) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const { data, error: dbErr } = await supabase
+      .from("practice_sessions")
+      .select(SESSION_COLUMNS)
+      .eq("score_id", scoreId)
+      .order("created_at", { ascending: true });
+    if (dbErr) {
+      console.error("Error fetching practice sessions:", dbErr);
+      setError(dbErr.message);
+    } else {
+      setSessions((data ?? []) as PracticeSessionRecord[]);
+    }
+    setLoading(false);
+  }, [supabase, scoreId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveSession = useCallback(
+    async ({ summary, sessionLog, completed }: SavePracticeSessionArgs) => {
+      if (!scoreId || sessionLog.length === 0) return;
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error: dbErr } = await supabase
+        .from("practice_sessions")
+        .insert({
+          user_id: user.id,
+          score_id: scoreId,
+          mode: summary.mode,
+          playback_speed: summary.playbackSpeed,
+          completed,
+          accuracy_pct: summary.accuracyPct,
+          avg_timing_offset_ms: averageTimingOffsetMs(sessionLog),
+          rating_breakdown: buildRatingBreakdown(sessionLog),
+          summary,
+          session_log: sessionLog,
+        })
+        .select(SESSION_COLUMNS)
+        .single();
+
+      if (dbErr) {
+        console.error("Failed to save practice session:", dbErr);
+        return;
+      }
+      setSessions((prev) => [...prev, data as PracticeSessionRecord]);
+    },
+    [supabase, scoreId],
+  );
+
+  return { sessions, loading, error, refresh, saveSession };
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import * as Tone from "tone";
+import { salamanderPiano, soundfontPiano, splendidPiano, type PianoPlayerFactory } from "@/lib/piano";
+import {
+  evictInstrument,
+  getSampleCacheEntries,
+  recordInstrumentCached,
+  registerSampleCache,
+  type SampleCacheEntry,
+  type SampleInstrumentId,
+} from "@/lib/piano/sample-cache";
+
+const FACTORIES: Record<SampleInstrumentId, PianoPlayerFactory> = {
+  splendid: splendidPiano,
+  salamander: salamanderPiano,
+  soundfont: soundfontPiano,
+};
+
+/**
+ * Offline sample cache status per instrument. `download` loads an
+ * instrument once (through the caching service worker) without playing
+ * it; `evict` deletes its stored samples.
+ */
+export function useSampleCache() {
+  const [entries, setEntries] = useState<Partial<Record<SampleInstrumentId, SampleCacheEntry>>>({});
+  /** False when service workers aren't available, or the page isn't controlled by one */
+  const [supported, setSupported] = useState(true);
+  const [busy, setBusy] = useState<SampleInstrumentId | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const list = await getSampleCacheEntries();
+      setEntries(Object.fromEntries(list.map((e) => [e.id, e])));
+    } catch (err) {
+      console.error("Failed to read the sample cache:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    registerSampleCache().then(setSupported);
+    refresh();
+  }, [refresh]);
+
+  const download = useCallback(
+    async (id: SampleInstrumentId) => {
+      setBusy(id);
+      setError(null);
+      try {
+        if (!(await registerSampleCache())) throw new Error("Offline caching isn't available in this browser.");
+        const piano = FACTORIES[id](Tone.getContext().rawContext as AudioContext);
+        await piano.loaded;
+        piano.dispose();
+        await recordInstrumentCached(id);
+        await refresh();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to download samples.");
+      } finally {
+        setBusy(null);
+      }
+    },
+    [refresh],
+  );
+
+  const evict = useCallback(
+    async (id: SampleInstrumentId) => {
+      setBusy(id);
+      setError(null);
+      try {
+        await evictInstrument(id);
+        await refresh();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to remove samples.");
+      } finally {
+        setBusy(null);
+      }
+    },
+    [refresh],
+  );
+
+  return { supported, entries, busy, error, refresh, download, evict };
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  DEFAULT_SPEED_TRAINER,
+  nextTrainerSpeed,
+  type SpeedTrainerConfig,
+  type SpeedTrainerPass,
+} from "@/lib/piano/speed-trainer";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/** A recorded pass plus where the ramp goes next. */
+export interface RecordedTrainerPass extends SpeedTrainerPass {
+  /** 1-based pass number within the ramp */
+  index: number;
+  /** Speed of the next pass, or null when the ramp is over */
+  nextSpeed: number | null;
+}
+
+// ── Hook ──────────────────────────────────────────────────────────────
+
+/**
+ * Speed-trainer state for one score. `begin` starts a ramp and returns the
+ * speed of its first pass; `recordPass` logs a finished pass and returns
+ * the speed of the next one. The highest speed passed is kept per score in
+ * `practice_speed_records`.
+ */
+export function useSpeedTrainer(scoreId: string | undefined) {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [enabled, setEnabled] = useState(false);
+  const [config, setConfig] = useState<SpeedTrainerConfig>(DEFAULT_SPEED_TRAINER);
+  const [running, setRunning] = useState(false);
+  const [passes, setPasses] = useState<SpeedTrainerPass[]>([]);
+  const [bestSpeed, setBestSpeed] = useState<number | null>(null);
+
+  // Passes are recorded from effects; refs keep the count and best current between renders
+  const passesRef = useRef<SpeedTrainerPass[]>([]);
+  const bestSpeedRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!scoreId) return;
+    const fetchBest = async () => {
+      const { data, error } = await supabase
+        .from("practice_speed_records")
+        .select("best_speed")
+        .eq("score_id", scoreId)
+        .maybeSingle();
+      if (error) {
+        console.error("Error fetching speed record:", error);
+        return;
+      }
+      bestSpeedRef.current = data?.best_speed ?? null;
+      setBestSpeed(bestSpeedRef.current);
+    };
+    fetchBest();
+  }, [supabase, scoreId]);
+
+  const saveBest = useCallback(
+    async (speed: number) => {
+      if (!scoreId || (bestSpeedRef.current !== null && speed <= bestSpeedRef.current)) return;
+      bestSpeedRef.current = speed;
+      setBestSpeed(speed);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { error } = await supabase
+        .from("practice_speed_records")
+        .upsert(
+          { user_id: user.id, score_id: scoreId, best_speed: speed, updated_at: new Date().toISOString() },
+          { onConflict: "user_id,score_id" },
+        );
+      if (error) console.error("Failed to save speed record:", error);
+    },
+    [supabase, scoreId],
+  );
+
+  const begin = useCallback(() => {
+    passesRef.current = [];
+    setPasses([]);
+    setRunning(true);
+    return config.startSpeed;
+  }, [config.startSpeed]);
+
+  const recordPass = useCallback(
+    (accuracyPct: number, speed: number): RecordedTrainerPass => {
+      const { outcome, nextSpeed } = nextTrainerSpeed(config, speed, accuracyPct);
+      const pass: SpeedTrainerPass = { speed, accuracyPct, outcome };
+      passesRef.current = [...passesRef.current, pass];
+      setPasses(passesRef.current);
+      if (outcome !== "down") saveBest(speed);
+      if (nextSpeed === null) setRunning(false);
+      return { ...pass, index: passesRef.current.length, nextSpeed };
+    },
+    [config, saveBest],
+  );
+
+  const stop = useCallback(() => setRunning(false), []);
+
+  return { enabled, setEnabled, config, setConfig, running, passes, bestSpeed, begin, recordPass, stop };
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import type { PianoPlayerFactory } from "@/lib/piano";
+import { classifySoundfontFiles, soundfontFactory, type SoundfontFormat } from "@/lib/piano/user-soundfont";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/** A stored SoundFont (row of `user_soundfonts`). */
+export interface UserSoundfontRecord {
+  id: string;
+  created_at: string;
+  name: string;
+  format: SoundfontFormat;
+  main_path: string;
+  sample_paths: string[];
+  size_bytes: number;
+}
+
+const BUCKET = "soundfonts";
+const COLUMNS = "id, created_at, name, format, main_path, sample_paths, size_bytes";
+/** Upload limit for a SoundFont and all its samples */
+const MAX_BYTES = 200 * 1024 * 1024;
+
+/** Parsed voices, kept for the page's lifetime so switching back is instant */
+const factoryCache = new Map<string, Promise<PianoPlayerFactory>>();
+
+// ── Hook ──────────────────────────────────────────────────────────────
+
+/**
+ * The signed-in user's uploaded SoundFonts. `upload` checks the files parse
+ * before storing them; `loadFactory` downloads and parses one into a
+ * PianoPlayerFactory.
+ */
+export function useUserSoundfonts() {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [soundfonts, setSoundfonts] = useState<UserSoundfontRecord[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const { data, error: dbErr } = await supabase
+      .from("user_soundfonts")
+      .select(COLUMNS)
+      .order("created_at", { ascending: true });
+    if (dbErr) console.error("Error fetching soundfonts:", dbErr);
+    else setSoundfonts((data ?? []) as UserSoundfontRecord[]);
+  }, [supabase]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const upload = useCallback(
+    async (files: File[]): Promise<UserSoundfontRecord | null> => {
+      setError(null);
+      const sorted = classifySoundfontFiles(files);
+      if (typeof sorted === "string") {
+        setError(sorted);
+        return null;
+      }
+      const size = files.reduce((sum, f) => sum + f.size, 0);
+      if (size > MAX_BYTES) {
+        setError("SoundFont too large (max 200MB).");
+        return null;
+      }
+
+      setUploading(true);
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          setError("You must be logged in to upload.");
+          return null;
+        }
+
+        const name = sorted.main.name.replace(/\.[^.]+$/, "");
+        // Parse first so a bad file fails before anything is uploaded
+        const factory = await soundfontFactory(
+          sorted.format,
+          name,
+          sorted.main,
+          sorted.samples.map((f) => ({ name: f.name, blob: f })),
+        );
+
+        const id = crypto.randomUUID();
+        const pathFor = (file: File) => `${user.id}/${id}/${file.name.replace(/[^a-zA-Z0-9._-]/g, "_")}`;
+        const uploaded: string[] = [];
+        for (const file of [sorted.main, ...sorted.samples]) {
+          const { data, error: uploadErr } = await supabase.storage
+            .from(BUCKET)
+            .upload(pathFor(file), file, { contentType: file.type || "application/octet-stream", upsert: false });
+          if (uploadErr) {
+            if (uploaded.length > 0) await supabase.storage.from(BUCKET).remove(uploaded);
+            setError(`Upload failed: ${uploadErr.message}`);
+            return null;
+          }
+          uploaded.push(data.path);
+        }
+
+        const { data, error: dbErr } = await supabase
+          .from("user_soundfonts")
+          .insert({
+            id,
+            user_id: user.id,
+            name,
+            format: sorted.format,
+            main_path: uploaded[0],
+            sample_paths: uploaded.slice(1),
+            size_bytes: size,
+          })
+          .select(COLUMNS)
+          .single();
+        if (dbErr) {
+          await supabase.storage.from(BUCKET).remove(uploaded);
+          setError("Couldn't save the SoundFont.");
+          return null;
+        }
+
+        const record = data as UserSoundfontRecord;
+        factoryCache.set(record.id, Promise.resolve(factory));
+        setSoundfonts((prev) => [...prev, record]);
+        return record;
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Couldn't read the SoundFont.");
+        return null;
+      } finally {
+        setUploading(false);
+      }
+    },
+    [supabase],
+  );
+
+  const remove = useCallback(
+    async (record: UserSoundfontRecord) => {
+      const { error: dbErr } = await supabase.from("user_soundfonts").delete().eq("id", record.id);
+      if (dbErr) {
+        console.error("Failed to delete soundfont:", dbErr);
+        return;
+      }
+      await supabase.storage.from(BUCKET).remove([record.main_path, ...record.sample_paths]);
+      factoryCache.delete(record.id);
+      setSoundfonts((prev) => prev.filter((s) => s.id !== record.id));
+    },
+    [supabase],
+  );
+
+  const loadFactory = useCallback(
+    (record: UserSoundfontRecord): Promise<PianoPlayerFactory> => {
+      const cached = factoryCache.get(record.id);
+      if (cached) return cached;
+
+      const download = async (path: string) => {
+        const { data, error: dlErr } = await supabase.storage.from(BUCKET).download(path);
+        if (dlErr || !data) throw new Error(`Couldn't download ${record.name}.`);
+        return data;
+      };
+      const pending = (async () => {
+        const [main, ...samples] = await Promise.all([record.main_path, ...record.sample_paths].map(download));
+        return soundfontFactory(
+          record.format,
+          record.name,
+          main,
+          samples.map((blob, i) => ({ name: record.sample_paths[i].split("/").pop() ?? "", blob })),
+        );
+      })();
+      factoryCache.set(record.id, pending);
+      // A failed load can be retried
+      pending.catch(() => factoryCache.delete(record.id));
+      return pending;
+    },
+    [supabase],
+  );
+
+  return { soundfonts, uploading, error, setError, upload, remove, loadFactory };
+}
@@ -10,15 +10,19 @@
 
 import { useState, useCallback, useRef } from "react";
 import { Midi } from "@tonejs/midi";
-import * as Tone from "tone";
 import type { PianoPlayerFactory } from "@/lib/piano";
 import type { NoteEvent } from "./useMidiPlayer";
-import { LEAD_IN_SEC } from "./useMidiPlayer";
 import {
   drawFallingNotesFrame,
   type DrawFrameLayout,
   type DrawFrameParams,
 } from "@/lib/piano/draw-frame";
+import type { BeatGrid } from "@/lib/piano/beat-grid";
+import type { PedalSpan } from "@/lib/piano/sustain";
+import { DEFAULT_MASTER_EFFECTS, type MasterEffects } from "@/lib/piano/master-bus";
+import type { TrackMix } from "@/lib/piano/track-mix";
+import { renderScoreAudio, resampleBuffer } from "@/lib/piano/offline-render";
+import { downloadBlob, exportBaseName } from "@/lib/piano/audio-file";
 
 // ── Types ─────────────────────────────────────────────────────────────
 
@@ -33,10 +37,18 @@ export interface VideoExportOptions {
   formatTime: (s: number) => string;
   midiRef: React.RefObject<Midi | null>;
   pianoFactory: PianoPlayerFactory;
+  /** Master bus settings, so the export sounds like live playback */
+  masterEffects?: MasterEffects;
+  /** Track mixer, so muted, soloed and re-voiced tracks sound as they do live */
+  tracks?: TrackMix[];
   /** Song title (used for filename) */
   title: string;
   /** Original BPM from MIDI header */
   bpm: number;
+  /** Bar / beat grid drawn behind the notes */
+  beatGrid?: BeatGrid;
+  /** Merged sustain-pedal spans drawn in the pedal lane */
+  pedalSpans?: PedalSpan[];
 }
 
 export interface VideoExportResult {
@@ -62,96 +74,6 @@ const AUDIO_SAMPLE_RATE = 48_000;
 
 // ── Helpers ───────────────────────────────────────────────────────────
 
-/**
- * Salamander Grand Piano sample mapping for Tone.Sampler.
- * One sample every minor third covers the full A0–C8 range;
- * Tone.Sampler interpolates for notes in between.
- */
-const SALAMANDER_SAMPLES: Record<string, string> = {
-  A0: "A0.mp3",
-  C1: "C1.mp3", "D#1": "Ds1.mp3", "F#1": "Fs1.mp3",
-  A1: "A1.mp3",
-  C2: "C2.mp3", "D#2": "Ds2.mp3", "F#2": "Fs2.mp3",
-  A2: "A2.mp3",
-  C3: "C3.mp3", "D#3": "Ds3.mp3", "F#3": "Fs3.mp3",
-  A3: "A3.mp3",
-  C4: "C4.mp3", "D#4": "Ds4.mp3", "F#4": "Fs4.mp3",
-  A4: "A4.mp3",
-  C5: "C5.mp3", "D#5": "Ds5.mp3", "F#5": "Fs5.mp3",
-  A5: "A5.mp3",
-  C6: "C6.mp3", "D#6": "Ds6.mp3", "F#6": "Fs6.mp3",
-  A6: "A6.mp3",
-  C7: "C7.mp3", "D#7": "Ds7.mp3", "F#7": "Fs7.mp3",
-  A7: "A7.mp3",
-  C8: "C8.mp3",
-};
-const SALAMANDER_BASE_URL = "https://tonejs.github.io/audio/salamander/";
-
-/**
- * Render all MIDI notes to an AudioBuffer using Tone.Offline + Tone.Sampler.
- *
- * We use Tone.js's own sampler (with Salamander piano samples) instead of the
- * smplr-based piano factory, because smplr's SplendidGrandPiano doesn't produce
- * audio in an OfflineAudioContext (it relies on internal scheduling / worklets
- * that are incompatible with offline rendering).
- *
- * Tone.Sampler + Tone.Offline is a proven combination — all audio nodes route
- * through Tone's internal destination which maps to the offline context.
- */
-async function renderAudioOffline(
-  midi: Midi,
-  playbackSpeed: number,
-  durationSec: number,
-): Promise<AudioBuffer> {
-  // Wall-clock duration the audio needs to cover
-  const wallDuration = durationSec / playbackSpeed + 2; // +2s padding
-
-  const toneBuffer = await Tone.Offline(async () => {
-    // Create a Tone.Sampler with Salamander Grand Piano samples
-    const sampler = new Tone.Sampler({
-      urls: SALAMANDER_SAMPLES,
-      baseUrl: SALAMANDER_BASE_URL,
-      release: 1,
-    }).toDestination();
-
-    // Wait for all samples to finish loading & decoding
-    await Tone.loaded();
-
-    // Schedule every note at its absolute wall-clock time
-    const speed = playbackSpeed;
-    for (const track of midi.tracks) {
-      for (const n of track.notes) {
-        const time = (n.time + LEAD_IN_SEC) / speed;
-        const dur = n.duration / speed;
-        sampler.triggerAttackRelease(n.name, dur, time, n.velocity);
-      }
-    }
-  }, wallDuration);
-
-  const buffer = toneBuffer.get() as AudioBuffer;
-  if (!buffer) throw new Error("Audio offline rendering produced no output");
-  return buffer;
-}
-
-/**
- * Resample an AudioBuffer to a target sample rate by decoding through an
- * OfflineAudioContext.
- */
-async function resampleBuffer(
-  src: AudioBuffer,
-  targetRate: number,
-): Promise<AudioBuffer> {
-  if (src.sampleRate === targetRate) return src;
-
-  const numFrames = Math.ceil(src.duration * targetRate);
-  const offCtx = new OfflineAudioContext(src.numberOfChannels, numFrames, targetRate);
-  const bufSrc = offCtx.createBufferSource();
-  bufSrc.buffer = src;
-  bufSrc.connect(offCtx.destination);
-  bufSrc.start(0);
-  return offCtx.startRendering();
-}
-
 /**
  * Interleave a multi-channel AudioBuffer into a single Float32Array.
  */
@@ -198,8 +120,12 @@ export function useVideoExport(): VideoExportResult {
       formatTime: formatTimeFn,
       midiRef,
       pianoFactory,
+      masterEffects = DEFAULT_MASTER_EFFECTS,
+      tracks,
       title,
       bpm,
+      beatGrid,
+      pedalSpans,
     } = opts;
 
     // Guard
@@ -217,7 +143,13 @@ export function useVideoExport(): VideoExportResult {
 
       // ── 1. Render audio offline ──────────────────────────────────
       setExportProgress(1);
-      const rawAudio = await renderAudioOffline(midi, playbackSpeed, duration);
+      const rawAudio = await renderScoreAudio(midi, {
+        playbackSpeed,
+        range: { start: 0, end: duration },
+        pianoFactory,
+        masterEffects,
+        tracks,
+      });
       if (cancelledRef.current) return;
 
       // Resample to target rate for Opus encoding
@@ -369,6 +301,8 @@ export function useVideoExport(): VideoExportResult {
         bassTrack,
         duration,
         formatTime: formatTimeFn,
+        beatGrid,
+        pedalSpans,
       };
 
       const BATCH_SIZE = 10;
@@ -437,23 +371,8 @@ export function useVideoExport(): VideoExportResult {
 
       const blob = new Blob([target.buffer], { type: "video/webm" });
 
-      // Build filename: "{title} {effectiveBpm}bpm.webm"
-      const effectiveBpm = Math.round(bpm * playbackSpeed);
-      const safeTitle = (title || "falling-notes")
-        .replace(/\.midi?$/i, "")  // strip .mid / .midi extension
-        .replace(/[<>:"\/\\|?*]+/g, "_")  // sanitise for filesystem
-        .trim();
-      const fileName = `${safeTitle} ${effectiveBpm}bpm.webm`;
-
-      // Trigger download
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = fileName;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      // Filename: "{title} {effectiveBpm}bpm.webm"
+      downloadBlob(blob, `${exportBaseName(title, bpm, playbackSpeed, "falling-notes")}.webm`);
 
       setExportProgress(100);
     } catch (err: any) {
@@ -0,0 +1,166 @@
+// ── Audio files ───────────────────────────────────────────────────────
+// Encodes rendered AudioBuffers for download: uncompressed WAV (16- or
+// 24-bit PCM) anywhere, and Opus in a WebM container where WebCodecs has
+// an Opus encoder (the same webm-muxer path as the video export).
+
+export type AudioFileFormat = "wav16" | "wav24" | "opus";
+
+export const AUDIO_FILE_FORMATS: { id: AudioFileFormat; label: string; extension: string }[] = [
+  { id: "wav16", label: "WAV · 16-bit", extension: "wav" },
+  { id: "wav24", label: "WAV · 24-bit", extension: "wav" },
+  { id: "opus", label: "Opus · compressed", extension: "webm" },
+];
+
+/** Opus only encodes at 48 kHz */
+export const OPUS_SAMPLE_RATE = 48_000;
+const OPUS_BITRATE = 192_000;
+const OPUS_CHUNK_FRAMES = 960;
+
+// ── WAV ───────────────────────────────────────────────────────────────
+
+/** Interleaved little-endian PCM in a RIFF/WAVE container. */
+export function encodeWav(buffer: AudioBuffer, bitDepth: 16 | 24): Blob {
+  const channels = buffer.numberOfChannels;
+  const frames = buffer.length;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataSize = frames * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i));
+  };
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  const max = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.round(Math.max(-1, Math.min(1, data[c][i])) * max);
+      if (bitDepth === 16) {
+        view.setInt16(offset, sample, true);
+      } else {
+        view.setUint8(offset, sample & 0xff);
+        view.setUint8(offset + 1, (sample >> 8) & 0xff);
+        view.setUint8(offset + 2, (sample >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return new Blob([view.buffer], { type: "audio/wav" });
+}
+
+// ── Opus (WebM) ───────────────────────────────────────────────────────
+
+/** Whether this browser can encode Opus via WebCodecs. */
+export async function opusSupported(): Promise<boolean> {
+  if (typeof AudioEncoder === "undefined") return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: "opus",
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels: 2,
+      bitrate: OPUS_BITRATE,
+    });
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encode a 48 kHz buffer as Opus in an audio-only WebM. `onProgress` gets
+ * 0 – 1; `isCancelled` is polled between chunks (resolves null when it is).
+ */
+export async function encodeOpusWebm(
+  buffer: AudioBuffer,
+  onProgress?: (fraction: number) => void,
+  isCancelled?: () => boolean,
+): Promise<Blob | null> {
+  const { Muxer, ArrayBufferTarget } = await import("webm-muxer");
+  const channels = buffer.numberOfChannels;
+  const target = new ArrayBufferTarget();
+  const muxer = new Muxer({
+    target,
+    audio: { codec: "A_OPUS", sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: channels },
+    firstTimestampBehavior: "offset",
+  });
+
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta ?? undefined),
+    error: (e) => console.error("AudioEncoder error:", e),
+  });
+  try {
+    encoder.configure({ codec: "opus", sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: channels, bitrate: OPUS_BITRATE });
+
+    const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+    for (let offset = 0; offset < buffer.length; offset += OPUS_CHUNK_FRAMES) {
+      if (isCancelled?.()) return null;
+      const frames = Math.min(OPUS_CHUNK_FRAMES, buffer.length - offset);
+      const planar = new Float32Array(frames * channels);
+      for (let c = 0; c < channels; c++) planar.set(data[c].subarray(offset, offset + frames), c * frames);
+
+      const audioData = new AudioData({
+        format: "f32-planar",
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfFrames: frames,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / OPUS_SAMPLE_RATE) * 1_000_000),
+        data: planar,
+      });
+      encoder.encode(audioData);
+      audioData.close();
+
+      // Backpressure, and a chance for the UI to update
+      if (encoder.encodeQueueSize > 100) {
+        onProgress?.(offset / buffer.length);
+        while (encoder.state === "configured" && encoder.encodeQueueSize > 50) {
+          await new Promise((r) => setTimeout(r, 0));
+        }
+      }
+    }
+
+    await encoder.flush();
+    muxer.finalize();
+    onProgress?.(1);
+    return new Blob([target.buffer], { type: "audio/webm" });
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+}
+
+// ── Download ──────────────────────────────────────────────────────────
+
+/** "{title} {effectiveBpm}bpm" with the MIDI extension and unsafe characters removed */
+export function exportBaseName(title: string, bpm: number, playbackSpeed: number, fallback: string) {
+  const effectiveBpm = Math.round(bpm * playbackSpeed);
+  const safeTitle = (title || fallback)
+    .replace(/\.midi?$/i, "") // strip .mid / .midi extension
+    .replace(/[<>:"\/\\|?*]+/g, "_") // sanitise for filesystem
+    .trim();
+  return `${safeTitle} ${effectiveBpm}bpm`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
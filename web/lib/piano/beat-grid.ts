@@ -0,0 +1,109 @@
+// ── Bar / beat grid ───────────────────────────────────────────────────
+// Bar and beat positions derived from the MIDI header's tempo map and
+// time signatures, in player time (LEAD_IN_SEC included). Used by the
+// falling-notes renderer for grid lines and the bar:beat readout, and by
+// the metronome for its clicks and count-in.
+
+import type { Midi } from "@tonejs/midi";
+import { LEAD_IN_SEC } from "./timeline";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export interface BeatLine {
+  /** Player time in seconds (LEAD_IN_SEC included) */
+  time: number;
+  /** 1-based measure number */
+  bar: number;
+  /** 1-based beat within the measure */
+  beat: number;
+}
+
+/** Beat lines in time order; lines with `beat === 1` are bar lines. */
+export type BeatGrid = BeatLine[];
+
+// ── Builder ───────────────────────────────────────────────────────────
+
+/**
+ * Walk the time-signature segments of the header in ticks, emitting one
+ * line per beat until `endTime`. A time signature change always starts a
+ * new bar.
+ */
+export function buildBeatGrid(header: Midi["header"], endTime: number): BeatGrid {
+  const ppq = header.ppq;
+  const signatures = [...header.timeSignatures].sort((a, b) => a.ticks - b.ticks);
+  if (signatures.length === 0 || signatures[0].ticks > 0) {
+    signatures.unshift({ ticks: 0, timeSignature: [4, 4] });
+  }
+
+  const grid: BeatGrid = [];
+  let bar = 1;
+
+  for (let i = 0; i < signatures.length; i++) {
+    const [beats, beatType] = signatures[i].timeSignature;
+    const beatTicks = (ppq * 4) / (beatType || 4);
+    const segmentEnd = signatures[i + 1]?.ticks ?? Infinity;
+
+    let beat = 1;
+    for (let ticks = signatures[i].ticks; ticks < segmentEnd; ticks += beatTicks) {
+      const time = header.ticksToSeconds(ticks) + LEAD_IN_SEC;
+      if (time > endTime) return grid;
+      grid.push({ time, bar, beat });
+      if (beat >= (beats || 4)) {
+        beat = 1;
+        bar++;
+      } else {
+        beat++;
+      }
+    }
+    // Next signature starts a fresh bar, even if this one ended mid-bar
+    if (beat !== 1) bar++;
+  }
+
+  return grid;
+}
+
+// ── Lookup ────────────────────────────────────────────────────────────
+
+/** Index of the beat line at or before `time`, or -1 during the lead-in. */
+export function beatIndexAt(grid: BeatGrid, time: number): number {
+  let lo = 0;
+  let hi = grid.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (grid[mid].time <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/** The beat line at or before `time`, or null during the lead-in. */
+export function beatAt(grid: BeatGrid, time: number): BeatLine | null {
+  const found = beatIndexAt(grid, time);
+  return found >= 0 ? grid[found] : null;
+}
+
+/**
+ * Beat length (seconds at 1× speed) and beats per bar in effect at `time`
+ * (the first beat is used during the lead-in). Falls back to 120 BPM in
+ * 4/4 when the grid is too short to measure.
+ */
+export function meterAt(grid: BeatGrid, time: number): { beatSec: number; beatsPerBar: number } {
+  if (grid.length < 2) return { beatSec: 0.5, beatsPerBar: 4 };
+  const i = Math.min(Math.max(0, beatIndexAt(grid, time)), grid.length - 2);
+
+  let beatsPerBar = grid[i].beat;
+  for (let j = i + 1; j < grid.length && grid[j].beat !== 1; j++) beatsPerBar = grid[j].beat;
+
+  return { beatSec: grid[i + 1].time - grid[i].time, beatsPerBar };
+}
+
+/** "Bar 12 · Beat 3" (or "Bar – · Beat –" before the first beat). */
+export function formatBarBeat(grid: BeatGrid, time: number): string {
+  const line = beatAt(grid, time);
+  return line ? `Bar ${line.bar} · Beat ${line.beat}` : "Bar – · Beat –";
+}
@@ -49,6 +49,40 @@ export function keyPosition(
   }
 }
 
+/**
+ * The key under a point on the keyboard (the inverse of `keyPosition`).
+ * `y` is measured from the top of the keyboard; black keys win where they
+ * overlap the white keys, down to `blackKeyHeight`. Returns null off the keys.
+ */
+export function keyAtPoint(
+  x: number,
+  y: number,
+  lo: number,
+  hi: number,
+  whiteCount: number,
+  keyboardWidth: number,
+  blackKeyHeight: number,
+): number | null {
+  if (x < 0 || x >= keyboardWidth || y < 0) return null;
+
+  if (y < blackKeyHeight) {
+    for (let m = lo; m <= hi; m++) {
+      if (!isBlackKey(m)) continue;
+      const pos = keyPosition(m, lo, hi, whiteCount, keyboardWidth);
+      if (x >= pos.x && x < pos.x + pos.w) return m;
+    }
+  }
+
+  const whiteIndex = Math.floor(x / (keyboardWidth / whiteCount));
+  let seen = 0;
+  for (let m = lo; m <= hi; m++) {
+    if (isBlackKey(m)) continue;
+    if (seen === whiteIndex) return m;
+    seen++;
+  }
+  return null;
+}
+
 // ── Note name helper ──────────────────────────────────────────────────
 
 const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
@@ -0,0 +1,112 @@
+// ── Difficulty profiles ───────────────────────────────────────────────
+// How strict practice mode is: the flowing-mode judgment windows, how far
+// apart notes may start and still count as one chord, and how long a step
+// may be over-held before it resets. Stored per user in auth metadata.
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export type DifficultyProfileId = "beginner" | "standard" | "expert" | "custom";
+
+export interface DifficultySettings {
+  /** Flowing mode: |offset| at or below this is "Perfect" (ms) */
+  perfectMs: number;
+  /** …"Great" (ms) */
+  greatMs: number;
+  /** …"Okay" (ms); anything later inside the match window is "Poor" */
+  okayMs: number;
+  /** Flowing mode: a key press further than this from any reference note is an extra note (ms) */
+  matchWindowMs: number;
+  /** Notes starting within this of each other form one step (seconds) */
+  chordToleranceSec: number;
+  /** Discrete / continuous: holding past duration × this resets the step */
+  overHoldFactor: number;
+}
+
+/** What is saved for the user: the chosen profile plus their custom values. */
+export interface DifficultyPreference {
+  profile: DifficultyProfileId;
+  custom: DifficultySettings;
+}
+
+// ── Profiles ──────────────────────────────────────────────────────────
+
+export const DIFFICULTY_PROFILES: Record<Exclude<DifficultyProfileId, "custom">, DifficultySettings> = {
+  beginner: {
+    perfectMs: 80,
+    greatMs: 200,
+    okayMs: 400,
+    matchWindowMs: 700,
+    chordToleranceSec: 0.06,
+    overHoldFactor: 2.5,
+  },
+  standard: {
+    perfectMs: 50,
+    greatMs: 150,
+    okayMs: 300,
+    matchWindowMs: 500,
+    chordToleranceSec: 0.03,
+    overHoldFactor: 1.5,
+  },
+  expert: {
+    perfectMs: 30,
+    greatMs: 80,
+    okayMs: 160,
+    matchWindowMs: 300,
+    chordToleranceSec: 0.02,
+    overHoldFactor: 1.25,
+  },
+};
+
+export const DIFFICULTY_OPTIONS: { value: DifficultyProfileId; label: string }[] = [
+  { value: "beginner", label: "Beginner" },
+  { value: "standard", label: "Standard" },
+  { value: "expert", label: "Expert" },
+  { value: "custom", label: "Custom" },
+];
+
+export const DEFAULT_DIFFICULTY: DifficultyPreference = {
+  profile: "standard",
+  custom: DIFFICULTY_PROFILES.standard,
+};
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+/** The settings a profile stands for (`custom` comes from the user's own values). */
+export function resolveDifficulty(pref: DifficultyPreference): DifficultySettings {
+  return pref.profile === "custom" ? pref.custom : DIFFICULTY_PROFILES[pref.profile];
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const n = typeof value === "number" && Number.isFinite(value) ? value : fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+/**
+ * Clamp custom settings to sensible ranges and keep the windows nested
+ * (Perfect ≤ Great ≤ Okay ≤ match window). Missing fields fall back to Standard.
+ */
+export function sanitizeDifficulty(settings: Partial<DifficultySettings> | undefined): DifficultySettings {
+  const base = DIFFICULTY_PROFILES.standard;
+  const s = settings ?? {};
+  const perfectMs = Math.round(clamp(s.perfectMs, 10, 500, base.perfectMs));
+  const greatMs = Math.round(clamp(s.greatMs, perfectMs, 1000, base.greatMs));
+  const okayMs = Math.round(clamp(s.okayMs, greatMs, 1500, base.okayMs));
+  const matchWindowMs = Math.round(clamp(s.matchWindowMs, okayMs, 2000, base.matchWindowMs));
+  return {
+    perfectMs,
+    greatMs,
+    okayMs,
+    matchWindowMs,
+    chordToleranceSec: clamp(s.chordToleranceSec, 0.005, 0.2, base.chordToleranceSec),
+    overHoldFactor: clamp(s.overHoldFactor, 1.1, 5, base.overHoldFactor),
+  };
+}
+
+/** Read a stored preference defensively (it comes from user metadata). */
+export function parseDifficultyPreference(raw: unknown): DifficultyPreference {
+  const obj = (raw && typeof raw === "object" ? raw : {}) as Partial<DifficultyPreference>;
+  const profile = DIFFICULTY_OPTIONS.some((o) => o.value === obj.profile)
+    ? (obj.profile as DifficultyProfileId)
+    : DEFAULT_DIFFICULTY.profile;
+  return { profile, custom: sanitizeDifficulty(obj.custom) };
+}
@@ -18,13 +18,22 @@ import {
   HIT_LINE_COLOR,
 } from "./canvas-utils";
 
-import type { NoteEvent } from "@/lib/hooks/useMidiPlayer";
+import { noteHand } from "./midi-helpers";
+import { formatBarBeat, type BeatGrid } from "./beat-grid";
+import { pedalSpanAt, type PedalSpan } from "./sustain";
+import type { NoteEvent } from "./timeline";
 
 // ── Constants ─────────────────────────────────────────────────────────
 export const LOOK_AHEAD = 4; // seconds visible above hit-line
 export const KEYBOARD_HEIGHT_RATIO = 0.15;
 export const BLACK_KEY_HEIGHT_RATIO = 0.6;
 export const MIN_BAR_PX = 6;
+const BAR_LINE_COLOR = "rgba(255,255,255,0.16)";
+const BEAT_LINE_COLOR = "rgba(255,255,255,0.05)";
+const BAR_NUMBER_COLOR = "rgba(255,255,255,0.35)";
+const PEDAL_LANE_W = 6;
+const PEDAL_LANE_BG = "rgba(255,255,255,0.04)";
+const PEDAL_COLOR = "rgba(255,183,197,0.55)";
 
 export interface DrawFrameLayout {
   lo: number;
@@ -38,6 +47,10 @@ export interface DrawFrameParams {
   bassTrack: number;
   duration: number;
   formatTime: (s: number) => string;
+  /** Bar / beat lines from the MIDI header; omitted → no grid and no bar:beat readout */
+  beatGrid?: BeatGrid;
+  /** Merged sustain-pedal spans; omitted or empty → no pedal lane */
+  pedalSpans?: PedalSpan[];
 }
 
 /**
@@ -47,7 +60,7 @@ export interface DrawFrameParams {
  * @param W          – Logical width  in CSS pixels
  * @param H          – Logical height in CSS pixels
  * @param currentTime – Virtual (original MIDI) time in seconds
- * @param params      – Notes, layout, bass-track index, duration, formatTime
+ * @param params      – Notes, layout, bass-track index, duration, formatTime, beat grid, pedal spans
  */
 export function drawFallingNotesFrame(
   ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
@@ -56,7 +69,7 @@ export function drawFallingNotesFrame(
   currentTime: number,
   params: DrawFrameParams,
 ) {
-  const { notes, layout, bassTrack, duration, formatTime } = params;
+  const { notes, layout, bassTrack, duration, formatTime, beatGrid, pedalSpans } = params;
   const { lo, hi, whiteCount } = layout;
 
   const kbHeight = H * KEYBOARD_HEIGHT_RATIO;
@@ -70,6 +83,40 @@ export function drawFallingNotesFrame(
   const whiteKeyWidth = W / whiteCount;
   const pxPerSec = playAreaHeight / LOOK_AHEAD;
 
+  // ── Bar / beat grid (behind the notes) ─────────────────────────
+  if (beatGrid) {
+    ctx.font = "10px system-ui, sans-serif";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "bottom";
+    for (const line of beatGrid) {
+      if (line.time < currentTime) continue;
+      if (line.time > currentTime + LOOK_AHEAD) break;
+      const y = Math.round(hitY - (line.time - currentTime) * pxPerSec);
+      const isBar = line.beat === 1;
+      ctx.fillStyle = isBar ? BAR_LINE_COLOR : BEAT_LINE_COLOR;
+      ctx.fillRect(0, y, W, 1);
+      if (isBar) {
+        ctx.fillStyle = BAR_NUMBER_COLOR;
+        ctx.fillText(String(line.bar), 4, y - 2);
+      }
+    }
+  }
+
+  // ── Sustain pedal lane (right edge, behind the notes) ──────────
+  const pedalLaneX = W - PEDAL_LANE_W - 2;
+  if (pedalSpans && pedalSpans.length > 0) {
+    ctx.fillStyle = PEDAL_LANE_BG;
+    ctx.fillRect(pedalLaneX, 0, PEDAL_LANE_W, playAreaHeight);
+    ctx.fillStyle = PEDAL_COLOR;
+    for (const span of pedalSpans) {
+      if (span.end < currentTime) continue;
+      if (span.start > currentTime + LOOK_AHEAD) break;
+      const yBottom = hitY - (Math.max(span.start, currentTime) - currentTime) * pxPerSec;
+      const yTop = Math.max(0, hitY - (span.end - currentTime) * pxPerSec);
+      ctx.fillRect(pedalLaneX, yTop, PEDAL_LANE_W, yBottom - yTop);
+    }
+  }
+
   // ── Falling note bars ──────────────────────────────────────────
   const activeKeys = new Set<number>();
 
@@ -93,7 +140,7 @@ export function drawFallingNotesFrame(
     const barW = pos.w - 2;
     const radius = Math.min(4, barW / 2, barHeight / 2);
 
-    const isBass = bassTrack >= 0 ? note.track === bassTrack : note.midi < 60;
+    const isBass = noteHand(note, bassTrack) === "left";
 
     ctx.fillStyle = noteColor(isBass, 0.85);
     ctx.beginPath();
@@ -179,4 +226,14 @@ export function drawFallingNotesFrame(
   ctx.textAlign = "left";
   ctx.textBaseline = "top";
   ctx.fillText(`${formatTime(currentTime)} / ${formatTime(duration)}`, 8, 8);
+  if (beatGrid) {
+    ctx.fillText(formatBarBeat(beatGrid, currentTime), 8, 24);
+  }
+  if (pedalSpans && pedalSpanAt(pedalSpans, currentTime)) {
+    ctx.fillStyle = PEDAL_COLOR;
+    ctx.font = "bold 11px system-ui, sans-serif";
+    ctx.textAlign = "right";
+    ctx.textBaseline = "bottom";
+    ctx.fillText("Ped.", pedalLaneX - 4, hitY - 4);
+  }
 }
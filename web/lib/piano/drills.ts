@@ -0,0 +1,152 @@
+// ── Practice drills ───────────────────────────────────────────────────
+// Short passages cut around the hotspots of a practice run, practised in
+// isolation at reduced speed and brought back on an SM-2 spaced-repetition
+// schedule. Times are player time (LEAD_IN_SEC included).
+
+import type { BeatGrid } from "@/lib/piano/beat-grid";
+import type { PracticeSummary } from "@/lib/piano/practice-summary";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export interface DrillSegment {
+  startTime: number;
+  endTime: number;
+  /** e.g. "Bars 12–14" */
+  label: string;
+}
+
+/** SM-2 state plus the speed the drill is practised at. */
+export interface DrillSchedule {
+  ease: number;
+  intervalDays: number;
+  repetitions: number;
+  playbackSpeed: number;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** A hotspot needs at least this many fails to become a drill */
+const MIN_DRILL_FAILS = 2;
+/** At most this many drills are created from one run */
+const MAX_DRILLS_PER_RUN = 3;
+/** Bars of run-up before the bar with the hotspot */
+const BARS_BEFORE = 1;
+/** Bars after it */
+const BARS_AFTER = 1;
+/** Fallback passage around the hotspot when the piece has no bar grid (seconds) */
+const SECONDS_BEFORE = 2;
+const SECONDS_AFTER = 4;
+
+export const DRILL_START_SPEED = 0.75;
+const DRILL_MIN_SPEED = 0.5;
+const DRILL_SPEED_STEP = 0.1;
+
+const MIN_EASE = 1.3;
+
+export const NEW_DRILL_SCHEDULE: DrillSchedule = {
+  ease: 2.5,
+  intervalDays: 0,
+  repetitions: 0,
+  playbackSpeed: DRILL_START_SPEED,
+};
+
+// ── Segments ──────────────────────────────────────────────────────────
+
+function formatSeconds(sec: number) {
+  const m = Math.floor(sec / 60);
+  const s = Math.floor(sec % 60);
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
+
+/** The passage around `time`: whole bars when the grid has them, else a few seconds. */
+export function drillSegmentAt(time: number, grid: BeatGrid, pieceEnd: number): DrillSegment {
+  const bars = grid.filter((line) => line.beat === 1);
+  let barIdx = -1;
+  for (let i = 0; i < bars.length && bars[i].time <= time; i++) barIdx = i;
+
+  if (barIdx < 0) {
+    const startTime = Math.max(0, time - SECONDS_BEFORE);
+    return {
+      startTime,
+      endTime: Math.min(pieceEnd, time + SECONDS_AFTER),
+      label: `Around ${formatSeconds(time)}`,
+    };
+  }
+
+  const first = bars[Math.max(0, barIdx - BARS_BEFORE)];
+  const after = bars[barIdx + BARS_AFTER + 1];
+  const last = bars[Math.min(bars.length - 1, barIdx + BARS_AFTER)];
+  return {
+    startTime: first.time,
+    endTime: after ? after.time : pieceEnd,
+    label: first.bar === last.bar ? `Bar ${first.bar}` : `Bars ${first.bar}–${last.bar}`,
+  };
+}
+
+/**
+ * Drill passages for a run's hotspots. `stepTime` maps a hotspot step to
+ * its player time (steps are note indices in flowing mode). Passages that
+ * start at the same place are only returned once.
+ */
+export function buildDrillSegments(args: {
+  hotspots: PracticeSummary["hotspots"];
+  stepTime: (step: number) => number | undefined;
+  grid: BeatGrid;
+  pieceEnd: number;
+}): DrillSegment[] {
+  const { hotspots, stepTime, grid, pieceEnd } = args;
+  const segments: DrillSegment[] = [];
+
+  for (const { step, fails } of hotspots) {
+    if (fails < MIN_DRILL_FAILS) continue;
+    const time = stepTime(step);
+    if (time === undefined) continue;
+    const segment = drillSegmentAt(time, grid, pieceEnd);
+    if (segment.endTime <= segment.startTime) continue;
+    if (segments.some((s) => Math.abs(s.startTime - segment.startTime) < 0.001)) continue;
+    segments.push(segment);
+    if (segments.length >= MAX_DRILLS_PER_RUN) break;
+  }
+  return segments;
+}
+
+// ── Scheduling (SM-2) ─────────────────────────────────────────────────
+
+/** SM-2 recall quality (0 – 5) from a drill run's accuracy. */
+export function drillQuality(accuracyPct: number): number {
+  if (accuracyPct >= 95) return 5;
+  if (accuracyPct >= 85) return 4;
+  if (accuracyPct >= 70) return 3;
+  if (accuracyPct >= 50) return 2;
+  if (accuracyPct >= 30) return 1;
+  return 0;
+}
+
+/**
+ * Next schedule after a drill run. A failed run (quality < 3) starts the
+ * repetitions over with its ease unchanged, as in SM-2, comes back tomorrow
+ * and slows down; a strong run (quality ≥ 4) speeds the drill up towards
+ * full tempo.
+ */
+export function scheduleDrill(prev: DrillSchedule, accuracyPct: number, now = new Date()) {
+  const q = drillQuality(accuracyPct);
+  const ease = q < 3 ? prev.ease : Math.max(MIN_EASE, prev.ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (q < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = prev.repetitions + 1;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(prev.intervalDays * ease);
+  }
+
+  let playbackSpeed = prev.playbackSpeed;
+  if (q >= 4) playbackSpeed = Math.min(1, playbackSpeed + DRILL_SPEED_STEP);
+  else if (q < 3) playbackSpeed = Math.max(DRILL_MIN_SPEED, playbackSpeed - DRILL_SPEED_STEP);
+  playbackSpeed = Math.round(playbackSpeed * 100) / 100;
+
+  const dueAt = new Date(now.getTime() + intervalDays * 24 * 60 * 60 * 1000);
+  return { ease, intervalDays, repetitions, playbackSpeed, dueAt };
+}
@@ -1,4 +1,11 @@
 export type { PianoPlayer, PianoPlayerFactory, NoteStartOptions } from "./types";
 export { salamanderPiano } from "./salamander";
 export { splendidPiano } from "./splendid";
-export { soundfontPiano } from "./soundfont";
+export { soundfontPiano, soundfontInstrument, electricPiano, organ, strings } from "./soundfont";
+export {
+  GM_PROGRAMS,
+  gmInstrumentLabel,
+  instrumentForProgram,
+  type GmInstrumentName,
+  type TrackInstrument,
+} from "./gm";
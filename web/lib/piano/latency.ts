@@ -0,0 +1,45 @@
+// ── Input latency ─────────────────────────────────────────────────────
+// Per-device offset (ms) between when a key is really struck and when the
+// app sees it, including the audio output delay the player hears the beat
+// through. Measured by the tap-along calibration and subtracted from
+// flowing-mode timing. Stored in localStorage, keyed by MIDIInput id, since
+// it belongs to this browser's hardware rather than to the account.
+
+const STORAGE_KEY = "piano-latency-offsets";
+
+/** Offsets beyond this are treated as a bad calibration (ms) */
+export const MAX_LATENCY_MS = 500;
+
+function readAll(): Record<string, number> {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Stored latency offset for a MIDI input, or 0 when it was never calibrated. */
+export function getLatencyOffset(deviceId: string | null | undefined): number {
+  if (!deviceId) return 0;
+  const value = readAll()[deviceId];
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/** Store (or with 0, forget) the latency offset for a MIDI input. */
+export function saveLatencyOffset(deviceId: string, offsetMs: number) {
+  if (typeof window === "undefined") return;
+  const all = readAll();
+  const clamped = Math.round(Math.max(-MAX_LATENCY_MS, Math.min(MAX_LATENCY_MS, offsetMs)));
+  if (clamped === 0) delete all[deviceId];
+  else all[deviceId] = clamped;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,254 @@
+// ── Master bus ────────────────────────────────────────────────────────
+// Every PianoPlayer (the studio piano and the GM track instruments) plays
+// into one shared bus instead of straight to the speakers:
+//
+//   input → 3-band EQ → dry + reverb → stereo width → limiter → destination
+//
+// Built from plain Web Audio nodes, so the same chain runs on the live
+// context and on the OfflineAudioContext video export renders with — the
+// export sounds like what was heard. The settings are a listening
+// preference of this browser, so they live in localStorage.
+
+// ── Settings ──────────────────────────────────────────────────────────
+
+export type ReverbRoom = "room" | "chamber" | "hall" | "cathedral";
+
+export interface MasterEffects {
+  reverb: {
+    room: ReverbRoom;
+    /** Wet level 0 – 1 (0 = no reverb) */
+    mix: number;
+  };
+  /** Band gains in dB, ±EQ_RANGE_DB */
+  eq: { low: number; mid: number; high: number };
+  /** 0 = mono, 1 = as played, 2 = extra wide */
+  width: number;
+  /** Brick-wall limiter at LIMITER_CEILING_DB, so dense chords don't clip */
+  limiter: boolean;
+}
+
+export const DEFAULT_MASTER_EFFECTS: MasterEffects = {
+  reverb: { room: "room", mix: 0 },
+  eq: { low: 0, mid: 0, high: 0 },
+  width: 1,
+  limiter: true,
+};
+
+interface RoomPreset {
+  label: string;
+  /** Impulse response length (seconds) */
+  decay: number;
+  /** Seconds before the first reflection */
+  preDelay: number;
+  /** Lowpass on the reverb return (Hz) — bigger rooms sound darker */
+  damping: number;
+}
+
+export const REVERB_ROOMS: Record<ReverbRoom, RoomPreset> = {
+  room: { label: "Room", decay: 0.8, preDelay: 0.005, damping: 9000 },
+  chamber: { label: "Chamber", decay: 1.6, preDelay: 0.012, damping: 7000 },
+  hall: { label: "Concert hall", decay: 2.8, preDelay: 0.025, damping: 5500 },
+  cathedral: { label: "Cathedral", decay: 5, preDelay: 0.04, damping: 4000 },
+};
+
+export const EQ_RANGE_DB = 12;
+export const MAX_WIDTH = 2;
+const LIMITER_CEILING_DB = -1;
+
+const EQ_LOW_HZ = 200;
+const EQ_MID_HZ = 1000;
+const EQ_HIGH_HZ = 4000;
+/** Time constant for live parameter changes, so sliders don't click */
+const RAMP_SEC = 0.02;
+
+const STORAGE_KEY = "piano-master-effects";
+
+function clamp(value: unknown, min: number, max: number, fallback: number) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+}
+
+/** Fill in / clamp a possibly partial or stale settings object. */
+export function normalizeMasterEffects(value: Partial<MasterEffects> | null | undefined): MasterEffects {
+  const d = DEFAULT_MASTER_EFFECTS;
+  const room = value?.reverb?.room;
+  return {
+    reverb: {
+      room: room && room in REVERB_ROOMS ? room : d.reverb.room,
+      mix: clamp(value?.reverb?.mix, 0, 1, d.reverb.mix),
+    },
+    eq: {
+      low: clamp(value?.eq?.low, -EQ_RANGE_DB, EQ_RANGE_DB, d.eq.low),
+      mid: clamp(value?.eq?.mid, -EQ_RANGE_DB, EQ_RANGE_DB, d.eq.mid),
+      high: clamp(value?.eq?.high, -EQ_RANGE_DB, EQ_RANGE_DB, d.eq.high),
+    },
+    width: clamp(value?.width, 0, MAX_WIDTH, d.width),
+    limiter: typeof value?.limiter === "boolean" ? value.limiter : d.limiter,
+  };
+}
+
+/** Stored settings, or the defaults. */
+export function loadMasterEffects(): MasterEffects {
+  if (typeof window === "undefined") return DEFAULT_MASTER_EFFECTS;
+  try {
+    return normalizeMasterEffects(JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null"));
+  } catch {
+    return DEFAULT_MASTER_EFFECTS;
+  }
+}
+
+export function saveMasterEffects(effects: MasterEffects) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(effects));
+}
+
+// ── Building blocks ───────────────────────────────────────────────────
+
+/** Small seeded PRNG (mulberry32) — live and exported reverb use the same tail */
+function seededRandom(seed: number) {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Stereo impulse response: exponentially decaying noise after a pre-delay. */
+function impulseResponse(context: BaseAudioContext, preset: RoomPreset): AudioBuffer {
+  const rate = context.sampleRate;
+  const delay = Math.round(preset.preDelay * rate);
+  const length = delay + Math.round(preset.decay * rate);
+  const buffer = context.createBuffer(2, length, rate);
+  for (let ch = 0; ch < 2; ch++) {
+    const data = buffer.getChannelData(ch);
+    const random = seededRandom(ch + 1);
+    for (let i = delay; i < length; i++) {
+      // -60 dB at the end of the tail
+      const t = (i - delay) / (length - delay);
+      data[i] = (random() * 2 - 1) * Math.pow(0.001, t);
+    }
+  }
+  return buffer;
+}
+
+/** Hard clip at `ceiling` (linear) and pass everything below it unchanged. */
+function clipCurve(ceiling: number): Float32Array<ArrayBuffer> {
+  const size = 2049;
+  const curve = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = (i / (size - 1)) * 2 - 1;
+    curve[i] = Math.max(-ceiling, Math.min(ceiling, x));
+  }
+  return curve;
+}
+
+// ── Bus ───────────────────────────────────────────────────────────────
+
+export interface MasterBus {
+  /** Where players connect their output */
+  readonly input: AudioNode;
+  /** Apply new settings (ramped, so it's safe while playing). */
+  apply(effects: MasterEffects): void;
+  dispose(): void;
+}
+
+export function createMasterBus(context: BaseAudioContext, effects: MasterEffects = DEFAULT_MASTER_EFFECTS): MasterBus {
+  const input = context.createGain();
+
+  // EQ
+  const low = context.createBiquadFilter();
+  low.type = "lowshelf";
+  low.frequency.value = EQ_LOW_HZ;
+  const mid = context.createBiquadFilter();
+  mid.type = "peaking";
+  mid.frequency.value = EQ_MID_HZ;
+  mid.Q.value = 0.8;
+  const high = context.createBiquadFilter();
+  high.type = "highshelf";
+  high.frequency.value = EQ_HIGH_HZ;
+  input.connect(low).connect(mid).connect(high);
+
+  // Reverb: dry and wet summed into the width stage
+  const sum = context.createGain();
+  const dry = context.createGain();
+  const convolver = context.createConvolver();
+  const damping = context.createBiquadFilter();
+  damping.type = "lowpass";
+  const wet = context.createGain();
+  high.connect(dry).connect(sum);
+  high.connect(convolver).connect(damping).connect(wet).connect(sum);
+
+  // Stereo width: L' = a·L + b·R, R' = a·R + b·L with a = (1+w)/2, b = (1−w)/2
+  const splitter = context.createChannelSplitter(2);
+  // Mono players are up-mixed to L = R before splitting
+  sum.channelCount = 2;
+  sum.channelCountMode = "explicit";
+  sum.channelInterpretation = "speakers";
+  const merger = context.createChannelMerger(2);
+  const ll = context.createGain();
+  const rl = context.createGain();
+  const rr = context.createGain();
+  const lr = context.createGain();
+  sum.connect(splitter);
+  splitter.connect(ll, 0).connect(merger, 0, 0);
+  splitter.connect(rl, 1).connect(merger, 0, 0);
+  splitter.connect(rr, 1).connect(merger, 0, 1);
+  splitter.connect(lr, 0).connect(merger, 0, 1);
+
+  // Limiter: a fast compressor for the body of a peak, then a hard clip at
+  // the ceiling for whatever gets through before it reacts
+  const compressor = context.createDynamicsCompressor();
+  compressor.knee.value = 0;
+  compressor.attack.value = 0.002;
+  compressor.release.value = 0.15;
+  const clipper = context.createWaveShaper();
+  merger.connect(compressor).connect(clipper).connect(context.destination);
+
+  let room: ReverbRoom | null = null;
+  let limiterCurve: Float32Array<ArrayBuffer> | null = null;
+
+  const ramp = (param: AudioParam, value: number) => param.setTargetAtTime(value, context.currentTime, RAMP_SEC);
+
+  function apply(next: MasterEffects) {
+    const e = normalizeMasterEffects(next);
+
+    ramp(low.gain, e.eq.low);
+    ramp(mid.gain, e.eq.mid);
+    ramp(high.gain, e.eq.high);
+
+    if (e.reverb.room !== room) {
+      room = e.reverb.room;
+      const preset = REVERB_ROOMS[room];
+      convolver.buffer = impulseResponse(context, preset);
+      damping.frequency.value = preset.damping;
+    }
+    // Equal-power crossfade keeps the overall level steady as the mix changes
+    ramp(dry.gain, Math.cos((e.reverb.mix * Math.PI) / 2));
+    ramp(wet.gain, Math.sin((e.reverb.mix * Math.PI) / 2));
+
+    const a = (1 + e.width) / 2;
+    const b = (1 - e.width) / 2;
+    ramp(ll.gain, a);
+    ramp(rr.gain, a);
+    ramp(rl.gain, b);
+    ramp(lr.gain, b);
+
+    // Off: a 1:1 compressor at 0 dB and no curve pass the signal through untouched
+    compressor.threshold.value = e.limiter ? LIMITER_CEILING_DB - 2 : 0;
+    compressor.ratio.value = e.limiter ? 20 : 1;
+    limiterCurve ??= clipCurve(Math.pow(10, LIMITER_CEILING_DB / 20));
+    clipper.curve = e.limiter ? limiterCurve : null;
+  }
+
+  apply(effects);
+
+  return {
+    input,
+    apply,
+    dispose() {
+      input.disconnect();
+      clipper.disconnect();
+    },
+  };
+}
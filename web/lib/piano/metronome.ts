@@ -0,0 +1,57 @@
+/**
+ * Metronome click — a short Tone.js synth blip on its own gain node, so
+ * its level is mixed separately from the piano.
+ *
+ * The metronome only makes sound; callers decide when to click (from the
+ * beat grid during playback / practice, or for a count-in) and check
+ * `enabled` themselves.
+ */
+
+import * as Tone from "tone";
+
+/** Pitch of the accented first beat of a bar */
+const DOWNBEAT_NOTE = "C6";
+/** Pitch of every other beat */
+const BEAT_NOTE = "G5";
+/** Length of a click in seconds */
+const CLICK_SEC = 0.03;
+
+export interface Metronome {
+  /** Whether beat-grid clicks should sound (count-ins ignore this) */
+  enabled: boolean;
+  /** Click once, at an AudioContext time (defaults to now). */
+  click: (accent: boolean, time?: number) => void;
+  /** Linear click level, 0 – 1 */
+  setVolume: (volume: number) => void;
+  dispose: () => void;
+}
+
+export function createMetronome(volume = 0.6): Metronome {
+  const gain = new Tone.Gain(volume).toDestination();
+  const synth = new Tone.Synth({
+    oscillator: { type: "square" },
+    envelope: { attack: 0.001, decay: 0.04, sustain: 0, release: 0.01 },
+  }).connect(gain);
+
+  return {
+    enabled: false,
+
+    click(accent, time) {
+      synth.triggerAttackRelease(
+        accent ? DOWNBEAT_NOTE : BEAT_NOTE,
+        CLICK_SEC,
+        time ?? Tone.now(),
+        accent ? 1 : 0.6,
+      );
+    },
+
+    setVolume(v) {
+      gain.gain.rampTo(Math.max(0, Math.min(1, v)), 0.02);
+    },
+
+    dispose() {
+      synth.dispose();
+      gain.dispose();
+    },
+  };
+}
@@ -2,6 +2,7 @@
 // Extracted from PracticeModal so they can be reused by PracticeTab.
 
 import type { Midi } from "@tonejs/midi";
+import type { NoteEvent } from "./timeline";
 
 // ── Types ─────────────────────────────────────────────────────────────
 
@@ -31,6 +32,15 @@ export type Comparison = {
 /** Judgment rating for flowing mode. */
 export type FlowingRating = "perfect" | "great" | "okay" | "poor" | "miss";
 
+/** Dynamics judgment for flowing mode: played velocity vs. the reference note. */
+export type DynamicsRating = "match" | "too-soft" | "too-loud";
+
+/** Release judgment for flowing mode: how long the key was held vs. the reference duration. */
+export type ReleaseRating = "good" | "early" | "late";
+
+/** How a reference note is meant to be played, from its length against the gap to the next onset. */
+export type Articulation = "legato" | "staccato";
+
 /** Entry in the practice-mode session log. */
 export type PracticeLogEntry = {
   stepIndex: number;
@@ -38,10 +48,24 @@ export type PracticeLogEntry = {
   playedMidi: number;
   correct: boolean;
   timestamp: number; // ms since session start
+  /** Player time (seconds) of the reference note, or of the key press for an extra note. Only set in flowing mode. */
+  time?: number;
   /** Timing offset from the expected note time (ms). Negative = early, positive = late. Only set in flowing mode. */
   timingOffsetMs?: number;
   /** Judgment rating. Only set in flowing mode. */
   rating?: FlowingRating;
+  /** Played minus reference velocity (0 – 127 scale). Only set when dynamics scoring is on. */
+  velocityDelta?: number;
+  /** Dynamics judgment. Only set when dynamics scoring is on. */
+  dynamics?: DynamicsRating;
+  /** How long the key was held (ms). Set on key release in flowing mode. */
+  heldMs?: number;
+  /** Held minus reference duration (ms). Negative = released early. */
+  releaseOffsetMs?: number;
+  /** Release judgment. Set on key release in flowing mode. */
+  release?: ReleaseRating;
+  /** Articulation of the reference note, when it is clearly legato or staccato */
+  articulation?: Articulation;
 };
 
 /** A judgment popup rendered on the practice canvas. */
@@ -51,10 +75,87 @@ export type FlowingJudgment = {
   x: number;       // horizontal centre (px)
   y: number;       // starting vertical position (px)
   createdAt: number; // performance.now() when created
+  /** Optional second line under the rating (e.g. the dynamics judgment) */
+  detail?: { text: string; color: string };
 };
 
+/** Reference notes filling at least this fraction of the gap to the next onset are legato */
+const LEGATO_FILL = 0.9;
+/** …and at most this fraction are staccato */
+const STACCATO_FILL = 0.5;
+/** Onsets closer than this (seconds) belong to the same chord */
+const CHORD_EPSILON_SEC = 0.02;
+
+/** Which hand a note belongs to. */
+export type Hand = "left" | "right";
+
 // ── Helpers ───────────────────────────────────────────────────────────
 
+/** Split point for single-track files: notes below middle C go to the left hand. */
+export const HAND_SPLIT_MIDI = 60;
+
+/**
+ * Find the track with the lowest average pitch (the left-hand / bass part).
+ * Returns -1 when there are fewer than two tracks with notes.
+ */
+export function detectBassTrack(notes: NoteEvent[]): number {
+  if (notes.length === 0) return -1;
+
+  const trackPitchSums = new Map<number, { sum: number; count: number }>();
+  for (const n of notes) {
+    const entry = trackPitchSums.get(n.track) ?? { sum: 0, count: 0 };
+    entry.sum += n.midi;
+    entry.count++;
+    trackPitchSums.set(n.track, entry);
+  }
+
+  if (trackPitchSums.size < 2) return -1;
+
+  let lowestAvg = Infinity;
+  let lowestTrack = -1;
+  for (const [track, { sum, count }] of trackPitchSums) {
+    const avg = sum / count;
+    if (avg < lowestAvg) {
+      lowestAvg = avg;
+      lowestTrack = track;
+    }
+  }
+  return lowestTrack;
+}
+
+/**
+ * Assign a note to a hand: by track when a bass track was detected,
+ * otherwise by splitting the keyboard at middle C.
+ */
+export function noteHand(note: NoteEvent, bassTrack: number): Hand {
+  if (bassTrack >= 0) return note.track === bassTrack ? "left" : "right";
+  return note.midi < HAND_SPLIT_MIDI ? "left" : "right";
+}
+
+/**
+ * Articulation of each note (indexed like `notes`, which must be sorted by
+ * time): compares its duration with the gap to the next onset in the same
+ * track. Notes in between, or with nothing after them, are undefined.
+ */
+export function classifyArticulation(notes: NoteEvent[]): (Articulation | undefined)[] {
+  return notes.map((note, i) => {
+    let nextOnset: number | undefined;
+    for (let j = i + 1; j < notes.length; j++) {
+      const other = notes[j];
+      if (other.track === note.track && other.time > note.time + CHORD_EPSILON_SEC) {
+        nextOnset = other.time;
+        break;
+      }
+    }
+    if (nextOnset === undefined) return undefined;
+
+    const fill = note.duration / (nextOnset - note.time);
+    if (fill >= LEGATO_FILL) return "legato";
+    if (fill <= STACCATO_FILL) return "staccato";
+    return undefined;
+  });
+}
+
 const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
 
 export function midiNoteToName(midi: number): string {
@@ -206,6 +307,35 @@ function buildFlowingPracticePrompt(
   const lateCount = timingOffsets.filter((o) => o > 50).length;
   const tendency = earlyCount > lateCount * 1.5 ? "tends to play early" : lateCount > earlyCount * 1.5 ? "tends to play late" : "no strong early/late tendency";
 
+  // Dynamics — only present when the student turned on velocity scoring
+  const dynamicsEntries = played.filter((e) => e.dynamics !== undefined);
+  const dynamicsCounts = { match: 0, "too-soft": 0, "too-loud": 0 };
+  for (const e of dynamicsEntries) dynamicsCounts[e.dynamics!]++;
+  const avgVelocityDelta = dynamicsEntries.length > 0
+    ? Math.round(dynamicsEntries.reduce((s, e) => s + (e.velocityDelta ?? 0), 0) / dynamicsEntries.length)
+    : 0;
+  const dynamicsSection = dynamicsEntries.length > 0
+    ? `\nDynamics (key velocity vs. the score): ${dynamicsCounts.match} matched, ${dynamicsCounts["too-soft"]} too soft, ${dynamicsCounts["too-loud"]} too loud (average difference ${avgVelocityDelta > 0 ? "+" : ""}${avgVelocityDelta}/127)`
+    : "";
+
+  // Releases — how long each matched key was held against the score
+  const releaseEntries = played.filter((e) => e.release !== undefined);
+  const releaseCounts = { good: 0, early: 0, late: 0 };
+  for (const e of releaseEntries) releaseCounts[e.release!]++;
+  const articulationAccuracy = (articulation: Articulation) => {
+    const judged = releaseEntries.filter((e) => e.articulation === articulation);
+    if (judged.length === 0) return null;
+    const good = judged.filter((e) => e.release === "good").length;
+    return `${Math.round((good / judged.length) * 100)}% of ${judged.length}`;
+  };
+  const legatoAccuracy = articulationAccuracy("legato");
+  const staccatoAccuracy = articulationAccuracy("staccato");
+  const releaseSection = releaseEntries.length > 0
+    ? `\nNote lengths (key release vs. the score): ${releaseCounts.good} held correctly, ${releaseCounts.early} released early, ${releaseCounts.late} held too long` +
+      (legatoAccuracy ? `\nLegato notes held correctly: ${legatoAccuracy}` : "") +
+      (staccatoAccuracy ? `\nStaccato notes released correctly: ${staccatoAccuracy}` : "")
+    : "";
+
   // Find most-struggled notes
   const wrongByMidi: Record<number, number> = {};
   for (const e of log.filter((x) => !x.correct)) {
@@ -222,7 +352,7 @@ Note accuracy: ${accuracy}% (${correct} of ${totalNotes} notes matched)
 Rating breakdown: ${ratingCounts.perfect} Perfect, ${ratingCounts.great} Great, ${ratingCounts.okay} Okay, ${ratingCounts.poor} Poor, ${ratingCounts.miss} Missed
 Average timing offset: ${avgAbsOffset}ms (signed average: ${avgOffset > 0 ? "+" : ""}${avgOffset}ms — ${tendency})
 Notes played: ${played.length}, Extra/wrong notes: ${played.filter((e) => !e.correct).length}
-Most common wrong notes: ${topWrong.length ? topWrong.join(", ") : "none"}
+Most common wrong notes: ${topWrong.length ? topWrong.join(", ") : "none"}${dynamicsSection}${releaseSection}
 
-Give feedback in 3 short paragraphs: (1) note accuracy and which notes to focus on, (2) timing & rhythm analysis — are they rushing, dragging, or inconsistent?, (3) one specific thing to practice next. Be warm but precise.`;
+Give feedback in 3 short paragraphs: (1) note accuracy and which notes to focus on, (2) timing & rhythm analysis — are they rushing, dragging, or inconsistent?${dynamicsSection ? " Also comment on their dynamics — are they playing too softly, too loudly, or with good control?" : ""}${releaseSection ? " Also comment on note lengths — are they cutting notes short, holding them too long, and how well are legato and staccato passages shaped?" : ""}, (3) one specific thing to practice next. Be warm but precise.`;
 }
@@ -0,0 +1,357 @@
+// ── MusicXML → Midi conversion ────────────────────────────────────────
+// Converts MusicXML (.musicxml / .xml, or compressed .mxl) exported from
+// notation software such as MuseScore into the same @tonejs/midi `Midi`
+// structure that useMidiPlayer loads. Browser-only (DOMParser,
+// DecompressionStream).
+//
+// Supported: score-partwise files with pitched notes, chords, ties,
+// backup/forward, multi-staff parts (one track per staff), transposing
+// instruments, tempo, key and time signature changes, and MIDI programs.
+// Repeats and endings are played through once, as written.
+
+import { Midi } from "@tonejs/midi";
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+const PPQ = 480;
+const DEFAULT_BPM = 120;
+/** MusicXML `dynamics` are a percentage of forte, which is MIDI velocity 90 */
+const FORTE_VELOCITY = 90;
+const DEFAULT_DYNAMICS = 80;
+
+/** Major key names by number of fifths (-7 … 7), as @tonejs/midi names them */
+const KEY_NAMES = ["Cb", "Gb", "Db", "Ab", "Eb", "Bb", "F", "C", "G", "D", "A", "E", "B", "F#", "C#"];
+
+const STEP_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+const MUSICXML_EXTENSIONS = [".musicxml", ".xml", ".mxl"];
+
+// ── Public API ────────────────────────────────────────────────────────
+
+/** True if the file name looks like a MusicXML score. */
+export function isMusicXmlFile(name: string) {
+  const lower = name.toLowerCase();
+  return MUSICXML_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+/** Read a .musicxml / .xml / .mxl file and convert it to a Midi. */
+export async function musicXmlFileToMidi(file: File): Promise<Midi> {
+  const buffer = await file.arrayBuffer();
+  const xml = file.name.toLowerCase().endsWith(".mxl")
+    ? await extractMxlScore(buffer)
+    : new TextDecoder().decode(buffer);
+  return musicXmlToMidi(xml);
+}
+
+/** Convert a MusicXML document (as text) to a Midi. Throws on unsupported input. */
+export function musicXmlToMidi(xml: string): Midi {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.querySelector("parsererror")) {
+    throw new Error("This file isn't valid XML.");
+  }
+
+  const root = doc.documentElement;
+  if (root.tagName === "score-timewise") {
+    throw new Error("Timewise MusicXML isn't supported — please export the score as partwise MusicXML.");
+  }
+  if (root.tagName !== "score-partwise") {
+    throw new Error("This file isn't a MusicXML score.");
+  }
+
+  const midi = new Midi();
+  midi.header.name =
+    text(root, "work > work-title") || text(root, "movement-title") || "";
+
+  const partNames = new Map<string, string>();
+  const partPrograms = new Map<string, number>();
+  for (const scorePart of children(root.querySelector("part-list"), "score-part")) {
+    const id = scorePart.getAttribute("id") ?? "";
+    partNames.set(id, text(scorePart, "part-name") || id);
+    const program = Number(text(scorePart, "midi-instrument > midi-program"));
+    if (program >= 1 && program <= 128) partPrograms.set(id, program - 1);
+  }
+
+  const header = new HeaderEvents();
+  children(root, "part").forEach((part, partIndex) => {
+    const id = part.getAttribute("id") ?? "";
+    convertPart(part, {
+      midi,
+      name: partNames.get(id) ?? `Part ${partIndex + 1}`,
+      program: partPrograms.get(id) ?? 0,
+      // Tempo / signatures are score-wide; take them from the first part only
+      header: partIndex === 0 ? header : null,
+    });
+  });
+
+  header.apply(midi);
+
+  if (midi.tracks.every((t) => t.notes.length === 0)) {
+    throw new Error("No playable notes were found in this score.");
+  }
+  return midi;
+}
+
+// ── Part conversion ───────────────────────────────────────────────────
+
+interface PendingNote {
+  midi: number;
+  ticks: number;
+  durationTicks: number;
+  velocity: number;
+  staff: number;
+}
+
+/** Collects score-wide tempo / key / time events in ticks. */
+class HeaderEvents {
+  tempos: { ticks: number; bpm: number }[] = [];
+  keys: { ticks: number; fifths: number; mode: string }[] = [];
+  times: { ticks: number; timeSignature: [number, number] }[] = [];
+
+  apply(midi: Midi) {
+    // Sort by position and keep the last event written at each tick
+    const dedupe = <T extends { ticks: number }>(events: T[]) => {
+      const sorted = [...events].sort((a, b) => a.ticks - b.ticks);
+      return sorted.filter((e, i) => i === sorted.length - 1 || sorted[i + 1].ticks !== e.ticks);
+    };
+
+    const tempos = dedupe(this.tempos);
+    midi.header.tempos = tempos.length > 0 ? tempos : [{ ticks: 0, bpm: DEFAULT_BPM }];
+    midi.header.timeSignatures = dedupe(this.times);
+    midi.header.keySignatures = dedupe(this.keys).map((k) => ({
+      ticks: k.ticks,
+      key: KEY_NAMES[Math.max(-7, Math.min(7, k.fifths)) + 7],
+      scale: k.mode === "minor" ? "minor" : "major",
+    }));
+    midi.header.update();
+  }
+}
+
+function convertPart(
+  part: Element,
+  opts: { midi: Midi; name: string; program: number; header: HeaderEvents | null },
+) {
+  const { midi, name, program, header } = opts;
+
+  let divisions = 1;
+  let transpose = 0;
+  let dynamics = DEFAULT_DYNAMICS;
+  let staves = 1;
+
+  let measureStart = 0; // ticks
+  const notes: PendingNote[] = [];
+  /** Open ties keyed by staff/voice/pitch */
+  const ties = new Map<string, PendingNote>();
+
+  const toTicks = (dur: number) => Math.round((dur / divisions) * PPQ);
+
+  for (const measure of children(part, "measure")) {
+    let cursor = measureStart;
+    let measureEnd = measureStart;
+    let lastNoteStart = measureStart;
+
+    for (const el of Array.from(measure.children)) {
+      switch (el.tagName) {
+        case "attributes": {
+          const div = Number(text(el, "divisions"));
+          if (div > 0) divisions = div;
+          const st = Number(text(el, "staves"));
+          if (st > 0) staves = st;
+          const chromatic = text(el, "transpose > chromatic");
+          if (chromatic) {
+            transpose = Number(chromatic) + 12 * Number(text(el, "transpose > octave-change") || 0);
+          }
+          const fifths = text(el, "key > fifths");
+          if (fifths && header) {
+            header.keys.push({ ticks: cursor, fifths: Number(fifths), mode: text(el, "key > mode") });
+          }
+          const beats = Number(text(el, "time > beats"));
+          const beatType = Number(text(el, "time > beat-type"));
+          if (beats > 0 && beatType > 0 && header) {
+            header.times.push({ ticks: cursor, timeSignature: [beats, beatType] });
+          }
+          break;
+        }
+
+        case "direction":
+        case "sound": {
+          const sound = el.tagName === "sound" ? el : el.querySelector("sound");
+          const tempo = Number(sound?.getAttribute("tempo"));
+          const metronome = metronomeBpm(el);
+          const bpm = tempo > 0 ? tempo : metronome;
+          if (bpm && header) header.tempos.push({ ticks: cursor, bpm });
+          const dyn = Number(sound?.getAttribute("dynamics"));
+          if (dyn > 0) dynamics = dyn;
+          break;
+        }
+
+        case "backup":
+          cursor -= toTicks(Number(text(el, "duration")) || 0);
+          break;
+
+        case "forward":
+          cursor += toTicks(Number(text(el, "duration")) || 0);
+          measureEnd = Math.max(measureEnd, cursor);
+          break;
+
+        case "note": {
+          // Grace and cue notes take no time and are skipped
+          if (el.querySelector("grace") || el.querySelector("cue")) break;
+
+          const duration = toTicks(Number(text(el, "duration")) || 0);
+          const isChord = !!el.querySelector("chord");
+          const start = isChord ? lastNoteStart : cursor;
+          if (!isChord) {
+            lastNoteStart = cursor;
+            cursor += duration;
+            measureEnd = Math.max(measureEnd, cursor);
+          }
+
+          const pitch = el.querySelector("pitch");
+          if (!pitch || el.querySelector("rest")) break;
+
+          const step = text(pitch, "step");
+          const midiNumber =
+            12 * (Number(text(pitch, "octave")) + 1) +
+            (STEP_SEMITONES[step] ?? 0) +
+            Math.round(Number(text(pitch, "alter") || 0)) +
+            transpose;
+
+          const staff = Number(text(el, "staff") || 1);
+          const voice = text(el, "voice") || "1";
+          const tieKey = `${staff}:${voice}:${midiNumber}`;
+          const tieTypes = Array.from(el.querySelectorAll(":scope > tie")).map((t) => t.getAttribute("type"));
+          const noteDynamics = Number(el.getAttribute("dynamics"));
+
+          const open = ties.get(tieKey);
+          if (open && tieTypes.includes("stop")) {
+            // Continuation of a tied note: extend it instead of re-striking
+            open.durationTicks = start + duration - open.ticks;
+            if (!tieTypes.includes("start")) ties.delete(tieKey);
+            break;
+          }
+
+          const note: PendingNote = {
+            midi: midiNumber,
+            ticks: start,
+            durationTicks: duration,
+            velocity: Math.min(1, ((noteDynamics > 0 ? noteDynamics : dynamics) / 100) * (FORTE_VELOCITY / 127)),
+            staff,
+          };
+          notes.push(note);
+          if (tieTypes.includes("start")) ties.set(tieKey, note);
+          break;
+        }
+      }
+    }
+
+    measureStart = Math.max(measureEnd, cursor);
+  }
+
+  // One track per staff so e.g. a piano part splits into right / left hand
+  for (let staff = 1; staff <= staves; staff++) {
+    const staffNotes = notes.filter((n) => (staves > 1 ? n.staff === staff : true));
+    if (staffNotes.length === 0) continue;
+
+    const track = midi.addTrack();
+    track.name = staves > 1 ? `${name} (staff ${staff})` : name;
+    track.instrument.number = program;
+    for (const n of staffNotes) {
+      if (n.durationTicks <= 0 || n.midi < 0 || n.midi > 127) continue;
+      track.addNote({ midi: n.midi, ticks: n.ticks, durationTicks: n.durationTicks, velocity: n.velocity });
+    }
+  }
+}
+
+/** BPM from a <metronome> marking, normalised to quarter-note beats. */
+function metronomeBpm(direction: Element): number | null {
+  const metronome = direction.querySelector("direction-type > metronome");
+  const perMinute = Number(text(metronome, "per-minute"));
+  if (!metronome || !(perMinute > 0)) return null;
+
+  const unitQuarters: Record<string, number> = {
+    whole: 4, half: 2, quarter: 1, eighth: 0.5, "16th": 0.25,
+  };
+  let quarters = unitQuarters[text(metronome, "beat-unit")] ?? 1;
+  if (metronome.querySelector("beat-unit-dot")) quarters *= 1.5;
+  return perMinute * quarters;
+}
+
+// ── DOM helpers ───────────────────────────────────────────────────────
+
+function text(el: Element | null | undefined, selector: string) {
+  return el?.querySelector(selector)?.textContent?.trim() ?? "";
+}
+
+function children(el: Element | null, tagName: string) {
+  return el ? Array.from(el.children).filter((c) => c.tagName === tagName) : [];
+}
+
+// ── .mxl (zip) extraction ─────────────────────────────────────────────
+
+/** Pull the root score document out of a compressed .mxl archive. */
+async function extractMxlScore(buffer: ArrayBuffer): Promise<string> {
+  const entries = readZipDirectory(buffer);
+
+  // META-INF/container.xml names the root score; fall back to the first XML file
+  let rootPath: string | null = null;
+  const container = entries.get("META-INF/container.xml");
+  if (container) {
+    const xml = await container();
+    const doc = new DOMParser().parseFromString(xml, "application/xml");
+    rootPath = doc.querySelector("rootfile")?.getAttribute("full-path") ?? null;
+  }
+  rootPath ??=
+    [...entries.keys()].find((p) => !p.startsWith("META-INF/") && /\.(musicxml|xml)$/i.test(p)) ?? null;
+
+  const entry = rootPath ? entries.get(rootPath) : undefined;
+  if (!entry) throw new Error("No MusicXML score was found inside this .mxl file.");
+  return entry();
+}
+
+/** Minimal zip reader: maps each entry path to a function that inflates it. */
+function readZipDirectory(buffer: ArrayBuffer) {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // End of central directory record is in the last 22 + 65535 bytes
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("This .mxl file isn't a valid archive.");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, () => Promise<string>>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(path, async () => {
+      const localNameLength = view.getUint16(localOffset + 26, true);
+      const localExtraLength = view.getUint16(localOffset + 28, true);
+      const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+      const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) throw new Error(`Unsupported .mxl compression method ${method}.`);
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      return new Response(stream).text();
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
@@ -0,0 +1,325 @@
+// ── Staff-notation model ──────────────────────────────────────────────
+// Quantizes the player's NoteEvents into measures of notes and rests on a
+// grand staff, for the Score tab. Notes are placed through the beat grid,
+// so bars line up with the falling-notes view across tempo and meter
+// changes; each bar is drawn in the meter / key shown in the tutorial
+// header. Each staff is treated as one voice, so overlapping notes are cut
+// at the next onset.
+
+import { LEAD_IN_SEC, type NoteEvent } from "./timeline";
+import { detectBassTrack, noteHand } from "./midi-helpers";
+import type { BeatGrid } from "./beat-grid";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export type Staff = "treble" | "bass";
+export type NoteValueBase = "whole" | "half" | "quarter" | "eighth" | "16th";
+export type Accidental = "sharp" | "flat" | "natural";
+
+export interface NoteValue {
+  base: NoteValueBase;
+  dotted: boolean;
+  /** Length in quarter notes */
+  quarters: number;
+}
+
+export interface NotatedNote {
+  midi: number;
+  /** Diatonic staff position: letter index (C = 0 … B = 6) + 7 × octave, so C4 = 28 */
+  step: number;
+  /** Accidental to draw, if the pitch differs from the key / earlier in the measure */
+  accidental: Accidental | null;
+  /** Tied into the next chord on this staff */
+  tieToNext: boolean;
+}
+
+export interface NotatedChord {
+  /** Onset within the measure, in quarter notes */
+  start: number;
+  value: NoteValue;
+  /** Empty for rests */
+  notes: NotatedNote[];
+  /** A rest filling an otherwise empty measure (drawn as a centred whole rest) */
+  measureRest?: boolean;
+}
+
+export interface NotatedMeasure {
+  index: number;
+  staves: Record<Staff, NotatedChord[]>;
+}
+
+export interface NotatedScore {
+  beats: number;
+  beatType: number;
+  /** Key signature as number of sharps (> 0) or flats (< 0) */
+  fifths: number;
+  quarterSec: number;
+  measureQuarters: number;
+  measures: NotatedMeasure[];
+  /** Player time ↔ score position (quarters) anchors, in time order */
+  anchors: TimeAnchor[];
+}
+
+export interface TimeAnchor {
+  /** Player time in seconds (LEAD_IN_SEC included) */
+  time: number;
+  /** Quarter notes from the start of measure 0 */
+  quarters: number;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Quantization grid, in quarter notes (a sixteenth) */
+const GRID = 0.25;
+
+/** Largest-first note values used to spell durations */
+const NOTE_VALUES: NoteValue[] = [
+  { base: "whole", dotted: false, quarters: 4 },
+  { base: "half", dotted: true, quarters: 3 },
+  { base: "half", dotted: false, quarters: 2 },
+  { base: "quarter", dotted: true, quarters: 1.5 },
+  { base: "quarter", dotted: false, quarters: 1 },
+  { base: "eighth", dotted: true, quarters: 0.75 },
+  { base: "eighth", dotted: false, quarters: 0.5 },
+  { base: "16th", dotted: false, quarters: 0.25 },
+];
+
+/** Major key names by fifths (-7 … 7), matching @tonejs/midi key signatures */
+const KEY_NAMES = ["Cb", "Gb", "Db", "Ab", "Eb", "Bb", "F", "C", "G", "D", "A", "E", "B", "F#", "C#"];
+
+/** Letter order in which sharps / flats are added to a key signature */
+const SHARP_ORDER = [3, 0, 4, 1, 5, 2, 6]; // F C G D A E B
+const FLAT_ORDER = [6, 2, 5, 1, 4, 0, 3]; // B E A D G C F
+
+/** Pitch class → [letter index, alteration] */
+const SHARP_SPELLING: [number, number][] = [
+  [0, 0], [0, 1], [1, 0], [1, 1], [2, 0], [3, 0], [3, 1], [4, 0], [4, 1], [5, 0], [5, 1], [6, 0],
+];
+const FLAT_SPELLING: [number, number][] = [
+  [0, 0], [1, -1], [1, 0], [2, -1], [2, 0], [3, 0], [4, -1], [4, 0], [5, -1], [5, 0], [6, -1], [6, 0],
+];
+
+// ── Parsing helpers ───────────────────────────────────────────────────
+
+/** "3/4" → [3, 4]; falls back to 4/4. */
+export function parseTimeSignature(timeSignature: string): [number, number] {
+  const [beats, beatType] = timeSignature.split("/").map(Number);
+  return beats > 0 && beatType > 0 ? [beats, beatType] : [4, 4];
+}
+
+/** "G major" → 1, "Bb major" → -2; falls back to C major. */
+export function parseKeySignature(keySignature: string): number {
+  const index = KEY_NAMES.indexOf(keySignature.split(" ")[0]);
+  return index >= 0 ? index - 7 : 0;
+}
+
+/** Per-letter alteration implied by the key signature. */
+function keyAlterations(fifths: number) {
+  const alters = [0, 0, 0, 0, 0, 0, 0];
+  const order = fifths >= 0 ? SHARP_ORDER : FLAT_ORDER;
+  for (let i = 0; i < Math.abs(fifths); i++) alters[order[i]] = fifths >= 0 ? 1 : -1;
+  return alters;
+}
+
+function spell(midi: number, fifths: number) {
+  const [letter, alter] = (fifths >= 0 ? SHARP_SPELLING : FLAT_SPELLING)[midi % 12];
+  const octave = Math.floor(midi / 12) - 1;
+  return { step: letter + 7 * octave, letter, alter };
+}
+
+/** Split a length into tied note values (largest first). */
+function spellDuration(quarters: number): NoteValue[] {
+  const values: NoteValue[] = [];
+  let left = quarters;
+  while (left >= GRID - 1e-6) {
+    const value = NOTE_VALUES.find((v) => v.quarters <= left + 1e-6) ?? NOTE_VALUES[NOTE_VALUES.length - 1];
+    values.push(value);
+    left -= value.quarters;
+  }
+  return values;
+}
+
+const quantize = (q: number) => Math.round(q / GRID) * GRID;
+
+// ── Builder ───────────────────────────────────────────────────────────
+
+interface Segment {
+  start: number;
+  end: number;
+  midis: number[];
+}
+
+/** One staff as a gap-free sequence of chord / rest segments (absolute quarters). */
+function buildSegments(notes: { start: number; end: number; midi: number }[]): Segment[] {
+  const byStart = new Map<number, { end: number; midis: Set<number> }>();
+  for (const n of notes) {
+    const group = byStart.get(n.start) ?? { end: n.start, midis: new Set<number>() };
+    group.end = Math.max(group.end, n.end);
+    group.midis.add(n.midi);
+    byStart.set(n.start, group);
+  }
+
+  const onsets = [...byStart.keys()].sort((a, b) => a - b);
+  const segments: Segment[] = [];
+  let cursor = 0;
+  onsets.forEach((start, i) => {
+    const group = byStart.get(start)!;
+    const end = Math.min(group.end, onsets[i + 1] ?? Infinity);
+    if (start > cursor) segments.push({ start: cursor, end: start, midis: [] });
+    segments.push({ start, end, midis: [...group.midis].sort((a, b) => a - b) });
+    cursor = end;
+  });
+  return segments;
+}
+
+/**
+ * Anchors mapping player time to score position. Each beat line sits at
+ * its bar's start plus an even share of `measureQuarters`, so bar N of the
+ * grid is measure N − 1 of the score whatever its tempo or meter. Without
+ * a grid, a single tempo from the lead-in.
+ */
+function timeAnchors(grid: BeatGrid | undefined, quarterSec: number, measureQuarters: number): TimeAnchor[] {
+  if (!grid || grid.length < 2) {
+    return [
+      { time: LEAD_IN_SEC, quarters: 0 },
+      { time: LEAD_IN_SEC + quarterSec, quarters: 1 },
+    ];
+  }
+  const beatsInBar = new Map<number, number>();
+  for (const line of grid) beatsInBar.set(line.bar, Math.max(beatsInBar.get(line.bar) ?? 0, line.beat));
+  return grid.map((line) => ({
+    time: line.time,
+    quarters: (line.bar - 1) * measureQuarters + ((line.beat - 1) * measureQuarters) / beatsInBar.get(line.bar)!,
+  }));
+}
+
+/** Piecewise-linear lookup between anchors, extrapolating past either end. */
+function interpolate(anchors: TimeAnchor[], value: number, from: keyof TimeAnchor, to: keyof TimeAnchor) {
+  // Last anchor at or before `value` (binary search), kept one short of the end
+  let lo = 0;
+  let hi = anchors.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (anchors[mid][from] <= value) lo = mid;
+    else hi = mid - 1;
+  }
+  const i = lo;
+  const a = anchors[i];
+  const b = anchors[i + 1];
+  const span = b[from] - a[from];
+  return span > 0 ? a[to] + ((value - a[from]) / span) * (b[to] - a[to]) : a[to];
+}
+
+function quartersAt(anchors: TimeAnchor[], time: number) {
+  return interpolate(anchors, time, "time", "quarters");
+}
+
+/**
+ * Quantize notes into a grand-staff score. `bpm` is in quarter notes per
+ * minute; with a `beatGrid` it only sizes notes past the end of the grid.
+ */
+export function buildNotation(
+  notes: NoteEvent[],
+  opts: { bpm: number; timeSignature: string; keySignature: string; beatGrid?: BeatGrid },
+): NotatedScore {
+  const [beats, beatType] = parseTimeSignature(opts.timeSignature);
+  const fifths = parseKeySignature(opts.keySignature);
+  const quarterSec = 60 / (opts.bpm > 0 ? opts.bpm : 120);
+  const measureQuarters = (beats * 4) / beatType;
+  const anchors = timeAnchors(opts.beatGrid, quarterSec, measureQuarters);
+
+  const bassTrack = detectBassTrack(notes);
+  const perStaff: Record<Staff, { start: number; end: number; midi: number }[]> = { treble: [], bass: [] };
+  let lastEnd = 0;
+  for (const note of notes) {
+    const start = quantize(quartersAt(anchors, note.time));
+    const end = Math.max(start + GRID, quantize(quartersAt(anchors, note.time + note.duration)));
+    perStaff[noteHand(note, bassTrack) === "left" ? "bass" : "treble"].push({ start, end, midi: note.midi });
+    lastEnd = Math.max(lastEnd, end);
+  }
+
+  const measureCount = Math.max(1, Math.ceil(lastEnd / measureQuarters - 1e-6));
+  const measures: NotatedMeasure[] = Array.from({ length: measureCount }, (_, index) => ({
+    index,
+    staves: { treble: [], bass: [] },
+  }));
+
+  const keyAlters = keyAlterations(fifths);
+  for (const staff of ["treble", "bass"] as Staff[]) {
+    const segments = buildSegments(perStaff[staff]);
+    const total = measureCount * measureQuarters;
+    const last = segments[segments.length - 1];
+    if (!last || last.end < total) segments.push({ start: last?.end ?? 0, end: total, midis: [] });
+
+    for (const seg of segments) {
+      // Split at bar lines, then into note values; sounding pieces are tied together
+      let pos = seg.start;
+      while (pos < seg.end - 1e-6) {
+        const measureIndex = Math.floor(pos / measureQuarters + 1e-6);
+        const barEnd = (measureIndex + 1) * measureQuarters;
+        const pieceEnd = Math.min(seg.end, barEnd);
+        const chords = measures[measureIndex].staves[staff];
+        for (const value of spellDuration(pieceEnd - pos)) {
+          chords.push({
+            start: pos - measureIndex * measureQuarters,
+            value,
+            notes: seg.midis.map((midi) => ({
+              midi,
+              step: spell(midi, fifths).step,
+              accidental: null,
+              tieToNext: pos + value.quarters < seg.end - 1e-6,
+            })),
+          });
+          pos += value.quarters;
+        }
+        pos = pieceEnd;
+      }
+    }
+
+    for (const measure of measures) {
+      const chords = measure.staves[staff];
+
+      // A measure of nothing but rests becomes a single whole-measure rest
+      if (chords.every((c) => c.notes.length === 0)) {
+        measure.staves[staff] = [
+          { start: 0, value: NOTE_VALUES[0], notes: [], measureRest: true },
+        ];
+        continue;
+      }
+
+      // Accidentals: compare against the key, then against earlier notes in the bar
+      const current = new Map<number, number>();
+      let tiedIn = new Set<number>();
+      for (const chord of chords) {
+        const nextTiedIn = new Set<number>();
+        for (const note of chord.notes) {
+          const { alter } = spell(note.midi, fifths);
+          const expected = current.get(note.step) ?? keyAlters[((note.step % 7) + 7) % 7];
+          if (alter !== expected && !tiedIn.has(note.midi)) {
+            note.accidental = alter === 1 ? "sharp" : alter === -1 ? "flat" : "natural";
+          }
+          current.set(note.step, alter);
+          if (note.tieToNext) nextTiedIn.add(note.midi);
+        }
+        tiedIn = nextTiedIn;
+      }
+    }
+  }
+
+  return { beats, beatType, fifths, quarterSec, measureQuarters, measures, anchors };
+}
+
+// ── Time mapping ──────────────────────────────────────────────────────
+
+/** Player time (seconds, lead-in included) at which a measure starts. */
+export function measureStartTime(score: NotatedScore, measureIndex: number) {
+  return interpolate(score.anchors, measureIndex * score.measureQuarters, "quarters", "time");
+}
+
+/** Measure index and fractional position (0–1) within it for a player time. */
+export function scorePosition(score: NotatedScore, time: number) {
+  const quarters = Math.max(0, quartersAt(score.anchors, time));
+  const measure = Math.min(score.measures.length - 1, Math.floor(quarters / score.measureQuarters));
+  const fraction = Math.min(1, quarters / score.measureQuarters - measure);
+  return { measure, fraction };
+}
@@ -0,0 +1,232 @@
+/**
+ * Offline rendering of a score to an AudioBuffer, shared by the video and
+ * audio exports.
+ *
+ * Notes play into the same master bus as live playback, through the track
+ * mixer's levels and instruments, so the render sounds like what was heard.
+ * Piano factories that set `supportsOffline` (uploaded SoundFonts, the GM
+ * SoundFont instruments) render with their own players on an
+ * OfflineAudioContext; every other piano falls back to a Tone.Sampler with
+ * the Salamander samples. Tracks on a GM instrument use it either way.
+ */
+
+import type { Midi } from "@tonejs/midi";
+import * as Tone from "tone";
+import type { PianoPlayer, PianoPlayerFactory } from "./types";
+import type { GmInstrumentName, TrackInstrument } from "./gm";
+import { soundfontInstrument } from "./soundfont";
+import { LEAD_IN_SEC } from "./timeline";
+import { trackInstrument, trackLevel, type TrackMix } from "./track-mix";
+import { pedalSpansByTrack, pedalSustain } from "./sustain";
+import { SALAMANDER_SAMPLES } from "./salamander";
+import { sampleBaseUrl } from "./sample-cache";
+import { MAX_RELEASE_SEC } from "./sampled-instrument";
+import { createMasterBus, DEFAULT_MASTER_EFFECTS, REVERB_ROOMS, type MasterEffects } from "./master-bus";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export interface OfflineRenderOptions {
+  playbackSpeed: number;
+  /**
+   * Virtual-time range to render (seconds, LEAD_IN_SEC included). Notes
+   * that start inside it are played; when it ends before the piece does
+   * (a loop region) they are released at its end, otherwise they ring out.
+   */
+  range: { start: number; end: number };
+  /** Renders with its own players when it `supportsOffline`, else Salamander */
+  pianoFactory?: PianoPlayerFactory;
+  masterEffects?: MasterEffects;
+  /** Track mixer (mute, solo, gain, instrument); every track plays on the piano at full level without it */
+  tracks?: TrackMix[];
+}
+
+interface ScheduledNote {
+  instrument: TrackInstrument;
+  note: string;
+  /** Seconds from the start of the render */
+  time: number;
+  duration: number;
+  sustain: number;
+  velocity: number;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Sample rate of offline renders made with the selected piano's own player */
+const OFFLINE_RENDER_RATE = 44_100;
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+/** Whether a piano renders offline as itself (otherwise Salamander stands in). */
+export function rendersOffline(pianoFactory: PianoPlayerFactory | undefined): boolean {
+  return !!pianoFactory?.supportsOffline;
+}
+
+/**
+ * Every audible note starting in the range, in wall-clock seconds from its
+ * start, at its track's mixer level and on its track's instrument.
+ */
+function scheduleNotes(midi: Midi, { playbackSpeed: speed, range, tracks = [] }: OfflineRenderOptions): ScheduledNote[] {
+  const pedal = pedalSpansByTrack(midi);
+  // Only a range that stops before the piece cuts notes off at its end
+  const end = range.end < midi.duration + LEAD_IN_SEC ? range.end : Infinity;
+  const notes: ScheduledNote[] = [];
+  for (const [trackIndex, track] of midi.tracks.entries()) {
+    const level = trackLevel(tracks, trackIndex);
+    if (level <= 0) continue;
+    const entry = tracks.find((t) => t.index === trackIndex);
+    const instrument = entry ? trackInstrument(entry) : "piano";
+    for (const n of track.notes) {
+      const start = n.time + LEAD_IN_SEC;
+      if (start < range.start || start >= range.end) continue;
+      const held = Math.min(start + n.duration, end);
+      const sustain = Math.min(pedalSustain(pedal[trackIndex], start + n.duration), end - held);
+      notes.push({
+        instrument,
+        note: n.name,
+        time: (start - range.start) / speed,
+        duration: (held - start) / speed,
+        sustain: Math.max(0, sustain) / speed,
+        velocity: Math.min(1, n.velocity * level),
+      });
+    }
+  }
+  return notes;
+}
+
+/**
+ * Silence after the last note: the longest note release, then the reverb's
+ * pre-delay and decay when it is mixed in.
+ */
+function renderTail({ reverb }: MasterEffects) {
+  const room = REVERB_ROOMS[reverb.room];
+  return MAX_RELEASE_SEC + (reverb.mix > 0 ? room.preDelay + room.decay : 0);
+}
+
+/** Wall-clock length of the render: the range, any pedal held past it, then the tail. */
+function wallDuration(notes: ScheduledNote[], { playbackSpeed, range, masterEffects }: OfflineRenderOptions) {
+  let end = (range.end - range.start) / playbackSpeed;
+  for (const n of notes) end = Math.max(end, n.time + n.duration + n.sustain);
+  return end + renderTail(masterEffects ?? DEFAULT_MASTER_EFFECTS);
+}
+
+/**
+ * A player for each GM instrument the notes use, on the render's context.
+ * Instruments that fail to load are left out, so their notes play on the
+ * piano as they do live.
+ */
+async function loadTrackPlayers(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  notes: ScheduledNote[],
+): Promise<Map<GmInstrumentName, PianoPlayer>> {
+  const players = new Map<GmInstrumentName, PianoPlayer>();
+  for (const { instrument } of notes) {
+    if (instrument === "piano" || players.has(instrument)) continue;
+    players.set(instrument, soundfontInstrument(instrument)(context, destination));
+  }
+  await Promise.all(
+    [...players].map(async ([name, player]) => {
+      try {
+        await player.loaded;
+      } catch {
+        player.dispose();
+        players.delete(name);
+        console.error(`Failed to load the ${name} instrument; its tracks render on the piano.`);
+      }
+    })
+  );
+  return players;
+}
+
+// ── Renderers ─────────────────────────────────────────────────────────
+
+/** Render with a piano factory whose players run on an OfflineAudioContext. */
+async function renderWithFactory(
+  notes: ScheduledNote[],
+  opts: OfflineRenderOptions,
+  pianoFactory: PianoPlayerFactory,
+): Promise<AudioBuffer> {
+  const frames = Math.ceil(wallDuration(notes, opts) * OFFLINE_RENDER_RATE);
+  const context = new OfflineAudioContext(2, frames, OFFLINE_RENDER_RATE);
+  const bus = createMasterBus(context, opts.masterEffects ?? DEFAULT_MASTER_EFFECTS);
+  const piano = pianoFactory(context, bus.input);
+  const [players] = await Promise.all([loadTrackPlayers(context, bus.input, notes), piano.loaded]);
+
+  for (const { instrument, ...note } of notes) {
+    const player = instrument === "piano" ? undefined : players.get(instrument);
+    (player ?? piano).start(note);
+  }
+
+  const buffer = await context.startRendering();
+  piano.dispose();
+  players.forEach((p) => p.dispose());
+  bus.dispose();
+  return buffer;
+}
+
+/**
+ * Render with Tone.Offline + Tone.Sampler.
+ *
+ * We use Tone.js's own sampler (with Salamander piano samples) instead of the
+ * smplr-based piano factory, because smplr's SplendidGrandPiano doesn't produce
+ * audio in an OfflineAudioContext (it relies on internal scheduling / worklets
+ * that are incompatible with offline rendering).
+ *
+ * Tone.Sampler + Tone.Offline is a proven combination — all audio nodes route
+ * through Tone's internal destination which maps to the offline context.
+ * The samples come from the same URLs as the live Salamander piano, so the
+ * sample cache serves them once either has loaded.
+ */
+async function renderWithSalamander(notes: ScheduledNote[], opts: OfflineRenderOptions): Promise<AudioBuffer> {
+  const toneBuffer = await Tone.Offline(async () => {
+    const context = Tone.getContext().rawContext;
+    const bus = createMasterBus(context, opts.masterEffects ?? DEFAULT_MASTER_EFFECTS);
+    const sampler = new Tone.Sampler({
+      urls: SALAMANDER_SAMPLES,
+      baseUrl: `${sampleBaseUrl("salamander")}/`,
+      release: 1,
+    }).connect(bus.input);
+
+    // Wait for all samples to finish loading & decoding
+    const [players] = await Promise.all([loadTrackPlayers(context, bus.input, notes), Tone.loaded()]);
+
+    // Schedule every note at its absolute wall-clock time, held on by the pedal
+    for (const { instrument, ...n } of notes) {
+      const player = instrument === "piano" ? undefined : players.get(instrument);
+      if (player) player.start(n);
+      else sampler.triggerAttackRelease(n.note, n.duration + n.sustain, n.time, n.velocity);
+    }
+  }, wallDuration(notes, opts));
+
+  const buffer = toneBuffer.get() as AudioBuffer;
+  if (!buffer) throw new Error("Audio offline rendering produced no output");
+  return buffer;
+}
+
+/** Render the notes of a score in a range to an AudioBuffer. */
+export function renderScoreAudio(midi: Midi, opts: OfflineRenderOptions): Promise<AudioBuffer> {
+  const notes = scheduleNotes(midi, opts);
+  return opts.pianoFactory && rendersOffline(opts.pianoFactory)
+    ? renderWithFactory(notes, opts, opts.pianoFactory)
+    : renderWithSalamander(notes, opts);
+}
+
+/**
+ * Resample an AudioBuffer to a target sample rate by decoding through an
+ * OfflineAudioContext.
+ */
+export async function resampleBuffer(
+  src: AudioBuffer,
+  targetRate: number,
+): Promise<AudioBuffer> {
+  if (src.sampleRate === targetRate) return src;
+
+  const numFrames = Math.ceil(src.duration * targetRate);
+  const offCtx = new OfflineAudioContext(src.numberOfChannels, numFrames, targetRate);
+  const bufSrc = offCtx.createBufferSource();
+  bufSrc.buffer = src;
+  bufSrc.connect(offCtx.destination);
+  bufSrc.start(0);
+  return offCtx.startRendering();
+}
@@ -0,0 +1,289 @@
+// ── Practice session summary ──────────────────────────────────────────
+// Condenses a practice run's `sessionLog` for AI feedback and for the
+// practice_sessions history.
+
+import { midiToNoteName } from "@/lib/piano/canvas-utils";
+import type { Articulation, DynamicsRating, FlowingRating, PracticeLogEntry } from "@/lib/piano/midi-helpers";
+import {
+  resolveDifficulty,
+  type DifficultyPreference,
+  type DifficultyProfileId,
+  type DifficultySettings,
+} from "@/lib/piano/difficulty";
+import type { SpeedTrainerOutcome } from "@/lib/piano/speed-trainer";
+
+// ── Summary type ──────────────────────────────────────────────────────
+
+export type PracticeSummary = {
+  pieceTitle: string;
+  mode: "discrete" | "continuous" | "flowing";
+  totalSteps: number;
+
+  attempts: number;
+  hits: number;
+  wrongs: number;
+  accuracyPct: number;
+
+  // If your sessionLog includes per-event info, we’ll pick it up.
+  // Otherwise these will just be empty arrays.
+  topWrong: { midi: number; note: string; count: number }[];
+  topMissed: { midi: number; note: string; count: number }[];
+  /** Fails per step; in flowing mode, misses and extra notes per stretch of the piece */
+  hotspots: { step: number; fails: number }[];
+  playbackSpeed: number;
+  /** Difficulty profile the run was judged with (absent in older sessions) */
+  difficulty?: { profile: DifficultyProfileId; settings: DifficultySettings };
+  /** Flowing mode: calibrated input latency already subtracted from every timing offset (ms) */
+  latencyCompensationMs?: number;
+  /** Flowing mode: the run was a speed-trainer pass (1-based) and where the ramp went after it */
+  speedTrainer?: { pass: number; outcome: SpeedTrainerOutcome };
+
+  /** Flowing mode with dynamics scoring on: how key velocity compared to the score */
+  dynamics?: DynamicsSummary;
+  /** Flowing mode: how long matched keys were held compared with the score */
+  release?: ReleaseSummary;
+};
+
+export type DynamicsSummary = {
+  judged: number;
+  matched: number;
+  tooSoft: number;
+  tooLoud: number;
+  /** Mean played − reference velocity, on the 0 – 127 scale */
+  avgVelocityDelta: number;
+};
+
+export type ReleaseSummary = {
+  judged: number;
+  good: number;
+  early: number;
+  late: number;
+  /** Legato notes held to length, as a percentage (null when none were judged) */
+  legatoAccuracy: number | null;
+  /** Staccato notes released in time, as a percentage (null when none were judged) */
+  staccatoAccuracy: number | null;
+};
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Flowing-mode failures are grouped into windows of this much player time (seconds) */
+const FLOWING_HOTSPOT_WINDOW_SEC = 2;
+
+// ── Builders ──────────────────────────────────────────────────────────
+
+/** Condense a session log into the summary sent to the feedback API and stored with each session. */
+export function buildPracticeSummary(args: {
+  sessionLog: PracticeLogEntry[];
+  totalSteps: number;
+  flowingTotalNotes: number;
+  pieceTitle: string;
+  mode: "discrete" | "continuous" | "flowing";
+  playbackSpeed: number;
+  difficulty?: DifficultyPreference;
+  latencyOffsetMs?: number;
+}): PracticeSummary {
+  const { sessionLog, totalSteps, flowingTotalNotes, pieceTitle, mode, playbackSpeed } = args;
+  const difficulty = args.difficulty
+    ? { profile: args.difficulty.profile, settings: resolveDifficulty(args.difficulty) }
+    : undefined;
+
+  const wrongByMidi = new Map<number, number>();
+  const missedByMidi = new Map<number, number>();
+  const failsByStep = new Map<number, number>();
+
+  let hits = 0;
+  let wrongs = 0;
+
+  // Fix 1: track unique steps to avoid inflating attempts on retries
+  const uniqueSteps = new Set<number>();
+
+  for (const e of sessionLog) {
+    const correct = !!e.correct;
+
+    if (typeof e.stepIndex === "number" && e.stepIndex >= 0) {
+      uniqueSteps.add(e.stepIndex);
+    }
+
+    if (correct) {
+      hits++;
+      continue;
+    }
+    wrongs++;
+
+    // Fix 3: only populate hotspots if stepIndex is actually present
+    if (typeof e.stepIndex === "number" && e.stepIndex >= 0) {
+      failsByStep.set(e.stepIndex, (failsByStep.get(e.stepIndex) ?? 0) + 1);
+    }
+
+    // Fix 2: use actual sessionLog field names
+    if (typeof e.playedMidi === "number" && e.playedMidi !== 0 && e.rating !== "miss") {
+      wrongByMidi.set(e.playedMidi, (wrongByMidi.get(e.playedMidi) ?? 0) + 1);
+    }
+
+    if (e.rating === "miss" && Array.isArray(e.expectedMidis)) {
+      for (const m of e.expectedMidis) {
+        missedByMidi.set(m, (missedByMidi.get(m) ?? 0) + 1);
+      }
+    } else if (!correct && Array.isArray(e.expectedMidis)) {
+      for (const m of e.expectedMidis) {
+        if (m !== e.playedMidi) {
+          missedByMidi.set(m, (missedByMidi.get(m) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  // Fix 1: use unique step count, fall back to sessionLog.length if no stepIndex present
+  const attempts = uniqueSteps.size > 0 ? uniqueSteps.size : sessionLog.length;
+
+  // For flowing mode, compute accuracy the same way the UI display does:
+  // flowingCorrect / (flowingCorrect + flowingMissed + flowingExtra)
+  // This accounts for extra/wrong notes the student played, matching the on-screen %.
+  if (mode === "flowing") {
+    const flowingCorrect = sessionLog.filter((e) => e.rating && e.rating !== "miss" && e.correct).length;
+    const flowingMissed = sessionLog.filter((e) => e.rating === "miss").length;
+    const flowingExtra = sessionLog.filter((e) => e.rating === undefined && !e.correct).length;
+    const flowingEvaluated = flowingCorrect + flowingMissed + flowingExtra;
+    const accuracyPct = flowingEvaluated > 0 ? Math.round((flowingCorrect / flowingEvaluated) * 100) : 100;
+
+    const topN = (m: Map<number, number>) =>
+      [...m.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([midi, count]) => ({ midi, note: midiToNoteName(midi), count }));
+
+    const hotspots = flowingHotspots(sessionLog);
+
+    return {
+      pieceTitle,
+      mode,
+      totalSteps,
+      attempts,
+      hits: flowingCorrect,
+      wrongs: flowingMissed + flowingExtra,
+      accuracyPct,
+      topWrong: topN(wrongByMidi),
+      topMissed: topN(missedByMidi),
+      hotspots,
+      playbackSpeed,
+      difficulty,
+      latencyCompensationMs: args.latencyOffsetMs || undefined,
+      dynamics: buildDynamicsSummary(sessionLog),
+      release: buildReleaseSummary(sessionLog),
+    };
+  }
+
+  const accuracyDenominator = attempts;
+  const accuracyPct = accuracyDenominator > 0 ? Math.round((hits / accuracyDenominator) * 100) : 0;
+
+  const topN = (m: Map<number, number>) =>
+    [...m.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([midi, count]) => ({ midi, note: midiToNoteName(midi), count }));
+
+  // Fix 3: only include hotspots if step data was actually present
+  const hasStepInfo = uniqueSteps.size > 0;
+  const hotspots = hasStepInfo
+    ? [...failsByStep.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([step, fails]) => ({ step, fails }))
+    : [];
+
+  return {
+    pieceTitle,
+    mode,
+    totalSteps,
+    attempts,
+    hits,
+    wrongs,
+    accuracyPct,
+    topWrong: topN(wrongByMidi),
+    topMissed: topN(missedByMidi),
+    hotspots,
+    playbackSpeed,
+    difficulty,
+  };
+}
+
+/**
+ * Flowing-mode hotspots. Each reference note is judged once and extra notes
+ * have no step, so misses and extra notes are counted per window of player
+ * time instead. A window's step is its first missed note, or its first
+ * judged note when only extra notes went wrong there.
+ */
+function flowingHotspots(sessionLog: PracticeLogEntry[]): PracticeSummary["hotspots"] {
+  const windows = new Map<number, { missStep: number; firstStep: number; fails: number }>();
+  for (const e of sessionLog) {
+    if (e.time === undefined) continue;
+    const key = Math.floor(e.time / FLOWING_HOTSPOT_WINDOW_SEC);
+    const bucket = windows.get(key) ?? { missStep: Infinity, firstStep: Infinity, fails: 0 };
+    if (e.stepIndex >= 0) {
+      bucket.firstStep = Math.min(bucket.firstStep, e.stepIndex);
+      if (!e.correct) bucket.missStep = Math.min(bucket.missStep, e.stepIndex);
+    }
+    if (!e.correct) bucket.fails++;
+    windows.set(key, bucket);
+  }
+  return [...windows.values()]
+    .filter((w) => w.fails > 0 && Number.isFinite(w.firstStep))
+    .sort((a, b) => b.fails - a.fails)
+    .slice(0, 5)
+    .map((w) => ({ step: Number.isFinite(w.missStep) ? w.missStep : w.firstStep, fails: w.fails }));
+}
+
+/** Dynamics counts over entries judged for velocity, or undefined when scoring was off. */
+export function buildDynamicsSummary(sessionLog: PracticeLogEntry[]): DynamicsSummary | undefined {
+  const judged = sessionLog.filter((e) => e.dynamics !== undefined);
+  if (judged.length === 0) return undefined;
+
+  const count = (rating: DynamicsRating) => judged.filter((e) => e.dynamics === rating).length;
+  return {
+    judged: judged.length,
+    matched: count("match"),
+    tooSoft: count("too-soft"),
+    tooLoud: count("too-loud"),
+    avgVelocityDelta: Math.round(judged.reduce((a, e) => a + (e.velocityDelta ?? 0), 0) / judged.length),
+  };
+}
+
+/** Release counts over entries judged on key-up, or undefined when none were. */
+export function buildReleaseSummary(sessionLog: PracticeLogEntry[]): ReleaseSummary | undefined {
+  const judged = sessionLog.filter((e) => e.release !== undefined);
+  if (judged.length === 0) return undefined;
+
+  const accuracy = (articulation: Articulation) => {
+    const notes = judged.filter((e) => e.articulation === articulation);
+    if (notes.length === 0) return null;
+    return Math.round((notes.filter((e) => e.release === "good").length / notes.length) * 100);
+  };
+  return {
+    judged: judged.length,
+    good: judged.filter((e) => e.release === "good").length,
+    early: judged.filter((e) => e.release === "early").length,
+    late: judged.filter((e) => e.release === "late").length,
+    legatoAccuracy: accuracy("legato"),
+    staccatoAccuracy: accuracy("staccato"),
+  };
+}
+
+/** Count of log entries per flowing rating, or correct / wrong in step modes. */
+export function buildRatingBreakdown(sessionLog: PracticeLogEntry[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const e of sessionLog) {
+    // Flowing entries carry a rating; step-mode entries are just correct / wrong
+    const key: FlowingRating | "correct" | "wrong" = e.rating ?? (e.correct ? "correct" : "wrong");
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/** Mean timing offset (ms, negative = early) over judged notes, or null if none were timed. */
+export function averageTimingOffsetMs(sessionLog: PracticeLogEntry[]): number | null {
+  const offsets = sessionLog
+    .filter((e) => e.rating !== "miss" && typeof e.timingOffsetMs === "number")
+    .map((e) => e.timingOffsetMs as number);
+  if (offsets.length === 0) return null;
+  return Math.round(offsets.reduce((a, b) => a + b, 0) / offsets.length);
+}
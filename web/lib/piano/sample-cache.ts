@@ -0,0 +1,160 @@
+// ── Sample cache ──────────────────────────────────────────────────────
+// Every piano adapter downloads its samples from a public CDN. A service
+// worker (public/sample-cache-sw.js) serves those requests cache-first from
+// Cache Storage, so a piano that has loaded once plays with no network.
+// An IndexedDB manifest records what each instrument has stored, for the
+// cache manager. NEXT_PUBLIC_SAMPLE_BASE_URL points every instrument at a
+// self-hosted mirror instead (`<base>/<instrument>/…`, same layout as the CDN).
+
+// ── Instruments ───────────────────────────────────────────────────────
+
+export type SampleInstrumentId = "splendid" | "salamander" | "soundfont";
+
+/** Where each instrument's samples live when no mirror is configured */
+const DEFAULT_BASE_URLS: Record<SampleInstrumentId, string> = {
+  splendid: "https://danigb.github.io/samples/splendid-grand-piano",
+  salamander: "https://tonejs.github.io/audio/salamander",
+  soundfont: "https://gleitz.github.io/midi-js-soundfonts/MusyngKite",
+};
+
+export const SAMPLE_INSTRUMENTS: { id: SampleInstrumentId; label: string }[] = [
+  { id: "splendid", label: "Splendid Grand" },
+  { id: "salamander", label: "Salamander" },
+  { id: "soundfont", label: "Gentle & GM instruments" },
+];
+
+const SELF_HOSTED_BASE_URL = process.env.NEXT_PUBLIC_SAMPLE_BASE_URL?.replace(/\/+$/, "") || null;
+
+/** Base URL (no trailing slash) an instrument loads its samples from. */
+export function sampleBaseUrl(id: SampleInstrumentId): string {
+  return SELF_HOSTED_BASE_URL ? `${SELF_HOSTED_BASE_URL}/${id}` : DEFAULT_BASE_URLS[id];
+}
+
+// ── Service worker ────────────────────────────────────────────────────
+
+/** Must match CACHE_NAME in public/sample-cache-sw.js */
+const CACHE_NAME = "piano-samples-v1";
+const SW_URL = "/sample-cache-sw.js";
+/** How long to wait for a freshly activated worker to take control of the page */
+const CLAIM_TIMEOUT_MS = 3000;
+
+let registration: Promise<boolean> | null = null;
+
+function cacheSupported() {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "caches" in window;
+}
+
+/**
+ * Register the sample-cache service worker (once per page load). Resolves
+ * true once it controls the page, false where it can't (no service worker
+ * support, or a hard reload).
+ */
+export function registerSampleCache(): Promise<boolean> {
+  if (!cacheSupported()) return Promise.resolve(false);
+  if (registration) return registration;
+
+  const params = new URLSearchParams();
+  for (const { id } of SAMPLE_INSTRUMENTS) params.append("prefix", `${sampleBaseUrl(id)}/`);
+
+  registration = navigator.serviceWorker
+    .register(`${SW_URL}?${params}`)
+    .then(async () => {
+      await navigator.serviceWorker.ready;
+      // The worker claims open pages on activation; wait for that to land.
+      // A hard reload bypasses the worker for the whole page, so don't wait forever.
+      if (!navigator.serviceWorker.controller) {
+        await new Promise<void>((resolve) => {
+          navigator.serviceWorker.addEventListener("controllerchange", () => resolve(), { once: true });
+          setTimeout(resolve, CLAIM_TIMEOUT_MS);
+        });
+      }
+      return navigator.serviceWorker.controller !== null;
+    })
+    .catch((err) => {
+      console.error("Failed to register the sample cache:", err);
+      return false;
+    });
+  return registration;
+}
+
+// ── Manifest (IndexedDB) ──────────────────────────────────────────────
+
+export interface SampleCacheEntry {
+  id: SampleInstrumentId;
+  files: number;
+  bytes: number;
+  cachedAt: string;
+}
+
+const DB_NAME = "piano-sample-cache";
+const STORE = "instruments";
+
+function openManifest(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "id" });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function manifestRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openManifest();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = run(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** What is stored for each instrument (instruments with nothing cached are absent). */
+export async function getSampleCacheEntries(): Promise<SampleCacheEntry[]> {
+  if (!cacheSupported()) return [];
+  return manifestRequest<SampleCacheEntry[]>("readonly", (store) => store.getAll());
+}
+
+// ── Cache Storage ─────────────────────────────────────────────────────
+
+async function cachedRequests(id: SampleInstrumentId) {
+  const cache = await caches.open(CACHE_NAME);
+  const prefix = `${sampleBaseUrl(id)}/`;
+  const requests = (await cache.keys()).filter((req) => req.url.startsWith(prefix));
+  return { cache, requests };
+}
+
+/**
+ * Re-measure what an instrument has in Cache Storage and update its
+ * manifest entry. Called by the adapters once their samples have loaded.
+ */
+export async function recordInstrumentCached(id: SampleInstrumentId): Promise<SampleCacheEntry | null> {
+  if (!cacheSupported()) return null;
+  try {
+    const { cache, requests } = await cachedRequests(id);
+    if (requests.length === 0) return null;
+
+    let bytes = 0;
+    for (const req of requests) {
+      const res = await cache.match(req);
+      const length = Number(res?.headers.get("content-length"));
+      bytes += Number.isFinite(length) && length > 0 ? length : ((await res?.blob())?.size ?? 0);
+    }
+    const entry: SampleCacheEntry = { id, files: requests.length, bytes, cachedAt: new Date().toISOString() };
+    await manifestRequest("readwrite", (store) => store.put(entry));
+    return entry;
+  } catch (err) {
+    console.error(`Failed to record cached samples for ${id}:`, err);
+    return null;
+  }
+}
+
+/** Delete an instrument's samples and its manifest entry. */
+export async function evictInstrument(id: SampleInstrumentId) {
+  if (!cacheSupported()) return;
+  const { cache, requests } = await cachedRequests(id);
+  await Promise.all(requests.map((req) => cache.delete(req)));
+  await manifestRequest("readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,184 @@
+/**
+ * Sampled instrument — Web Audio adapter for user SoundFonts.
+ *
+ * Plays a parsed .sf2 / .sfz (see sf2.ts, sfz.ts) with plain
+ * AudioBufferSourceNodes: each note picks the zone covering its key and
+ * velocity and repitches that zone's sample. Nothing here depends on a
+ * realtime context, so the same player renders into an OfflineAudioContext
+ * for video export.
+ */
+
+import type { PianoPlayer, PianoPlayerFactory } from "./types";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export interface SampleData {
+  /** PCM per channel, −1 – 1 */
+  channels: Float32Array[];
+  sampleRate: number;
+  /** Loop points in frames (loopEnd 0 = no loop points) */
+  loopStart: number;
+  loopEnd: number;
+}
+
+export interface SampleZone {
+  loKey: number;
+  hiKey: number;
+  loVel: number;
+  hiVel: number;
+  /** Key the sample plays at its recorded pitch */
+  rootKey: number;
+  /** Extra tuning in cents */
+  tuneCents: number;
+  sample: SampleData;
+  /** Loop between the loop points while the key is held */
+  loop: boolean;
+  /** Linear gain of the zone */
+  gain: number;
+  /** Release time (seconds) */
+  release: number;
+}
+
+export interface SampledInstrument {
+  name: string;
+  zones: SampleZone[];
+}
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Headroom so chords don't clip */
+const MASTER_GAIN = 0.6;
+const MIN_RELEASE_SEC = 0.08;
+/** Longest release a zone gets (offline renders leave this much tail) */
+export const MAX_RELEASE_SEC = 4;
+
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+/** "C4" / "F#5" / "Bb2" → MIDI number (C4 = 60), or null when unparseable. */
+export function noteNameToMidi(name: string): number | null {
+  const m = /^([A-Ga-g])([#b]?)(-?\d+)$/.exec(name.trim());
+  if (!m) return null;
+  const accidental = m[2] === "#" ? 1 : m[2] === "b" ? -1 : 0;
+  return NOTE_OFFSETS[m[1].toUpperCase()] + accidental + (Number(m[3]) + 1) * 12;
+}
+
+/** The zone for a key and velocity, or the nearest zone by key when none covers it. */
+function findZone(zones: SampleZone[], midi: number, velocity: number): SampleZone | null {
+  const exact = zones.find(
+    (z) => midi >= z.loKey && midi <= z.hiKey && velocity >= z.loVel && velocity <= z.hiVel,
+  );
+  if (exact) return exact;
+  let best: SampleZone | null = null;
+  let bestDist = Infinity;
+  for (const z of zones) {
+    const dist = midi < z.loKey ? z.loKey - midi : midi > z.hiKey ? midi - z.hiKey : 0;
+    if (dist < bestDist) {
+      best = z;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
+
+// ── Player ────────────────────────────────────────────────────────────
+
+function createSampledPlayer(
+  instrument: SampledInstrument,
+  context: BaseAudioContext,
+  destination: AudioNode = context.destination,
+): PianoPlayer {
+  let disposed = false;
+  const output = context.createGain();
+  output.gain.value = MASTER_GAIN;
+  output.connect(destination);
+
+  // One AudioBuffer per distinct sample, shared by the zones that use it
+  const buffers = new Map<SampleData, AudioBuffer>();
+  for (const { sample } of instrument.zones) {
+    if (buffers.has(sample) || sample.channels.length === 0) continue;
+    const buffer = context.createBuffer(sample.channels.length, sample.channels[0].length, sample.sampleRate);
+    sample.channels.forEach((data, ch) => buffer.copyToChannel(data as Float32Array<ArrayBuffer>, ch));
+    buffers.set(sample, buffer);
+  }
+
+  const voices = new Set<{ source: AudioBufferSourceNode; gain: GainNode }>();
+
+  return {
+    loaded: Promise.resolve(),
+
+    start({ note, duration, time, velocity, sustain = 0 }) {
+      if (disposed) return;
+      const midi = noteNameToMidi(note);
+      if (midi === null) return;
+      const zone = findZone(instrument.zones, midi, Math.round(velocity * 127));
+      const buffer = zone && buffers.get(zone.sample);
+      if (!zone || !buffer) return;
+
+      const t = time ?? context.currentTime;
+      const release = Math.min(MAX_RELEASE_SEC, Math.max(MIN_RELEASE_SEC, zone.release));
+      const end = t + duration + sustain;
+
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.value = Math.pow(2, ((midi - zone.rootKey) * 100 + zone.tuneCents) / 1200);
+      if (zone.loop && zone.sample.loopEnd > zone.sample.loopStart) {
+        source.loop = true;
+        source.loopStart = zone.sample.loopStart / zone.sample.sampleRate;
+        source.loopEnd = zone.sample.loopEnd / zone.sample.sampleRate;
+      }
+
+      const gain = context.createGain();
+      const peak = Math.max(0.0001, zone.gain * velocity);
+      gain.gain.setValueAtTime(peak, t);
+      gain.gain.setValueAtTime(peak, end);
+      gain.gain.exponentialRampToValueAtTime(0.0001, end + release);
+
+      source.connect(gain).connect(output);
+      source.start(t);
+      source.stop(end + release + 0.05);
+
+      const voice = { source, gain };
+      voices.add(voice);
+      source.onended = () => {
+        voices.delete(voice);
+        gain.disconnect();
+      };
+    },
+
+    stop() {
+      if (disposed) return;
+      voices.forEach(({ source }) => {
+        try {
+          source.stop();
+        } catch {
+          /* already stopped */
+        }
+      });
+      voices.clear();
+    },
+
+    dispose() {
+      if (disposed) return;
+      disposed = true;
+      voices.forEach(({ source }) => {
+        try {
+          source.stop();
+        } catch {
+          /* already stopped */
+        }
+      });
+      voices.clear();
+      output.disconnect();
+    },
+  };
+}
+
+/** Factory for a parsed SoundFont; its players also work offline. */
+export function sampledInstrumentFactory(instrument: SampledInstrument): PianoPlayerFactory {
+  const factory: PianoPlayerFactory = (audioContext, destination) =>
+    createSampledPlayer(instrument, audioContext, destination);
+  factory.supportsOffline = true;
+  return factory;
+}
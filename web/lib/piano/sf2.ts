@@ -0,0 +1,253 @@
+// ── SoundFont 2 (.sf2) parser ─────────────────────────────────────────
+// Reads the first preset (lowest bank / program) of an .sf2 file into a
+// SampledInstrument. Covers what a piano voice needs — key and velocity
+// ranges, root key and tuning, loop mode, attenuation and volume-envelope
+// release; modulators and the other envelope / filter generators are ignored.
+
+import type { SampleData, SampleZone, SampledInstrument } from "./sampled-instrument";
+
+// ── Generators ────────────────────────────────────────────────────────
+
+const GEN = {
+  startAddrsOffset: 0,
+  endAddrsOffset: 1,
+  startloopAddrsOffset: 2,
+  endloopAddrsOffset: 3,
+  startAddrsCoarseOffset: 4,
+  endAddrsCoarseOffset: 12,
+  releaseVolEnv: 38,
+  instrument: 41,
+  keyRange: 43,
+  velRange: 44,
+  startloopAddrsCoarseOffset: 45,
+  initialAttenuation: 48,
+  endloopAddrsCoarseOffset: 50,
+  coarseTune: 51,
+  fineTune: 52,
+  sampleID: 53,
+  sampleModes: 54,
+  overridingRootKey: 58,
+} as const;
+
+/** Generators summed between the preset and instrument levels */
+const ADDITIVE = [GEN.coarseTune, GEN.fineTune, GEN.initialAttenuation, GEN.releaseVolEnv];
+
+/** SF2 sample type of the right half of a stereo pair — played via its left half */
+const RIGHT_SAMPLE = 2;
+/** Volume-envelope release when a font doesn't set one (timecents ≈ 0.25 s) */
+const DEFAULT_RELEASE_TC = -2400;
+
+type Generators = Map<number, number>;
+
+interface Range {
+  lo: number;
+  hi: number;
+}
+
+// ── Chunks ────────────────────────────────────────────────────────────
+
+interface Chunk {
+  id: string;
+  offset: number;
+  size: number;
+}
+
+function fourCC(view: DataView, offset: number) {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+}
+
+/** Sub-chunks of a RIFF LIST body. */
+function readChunks(view: DataView, start: number, end: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    const id = fourCC(view, pos);
+    const size = view.getUint32(pos + 4, true);
+    chunks.push({ id, offset: pos + 8, size });
+    pos += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function readString(view: DataView, offset: number, length: number) {
+  let s = "";
+  for (let i = 0; i < length; i++) {
+    const c = view.getUint8(offset + i);
+    if (c === 0) break;
+    s += String.fromCharCode(c);
+  }
+  return s.trim();
+}
+
+// ── Parser ────────────────────────────────────────────────────────────
+
+/** Parse an .sf2 file. Throws when the file isn't a usable SoundFont. */
+export function parseSf2(data: ArrayBuffer): SampledInstrument {
+  const view = new DataView(data);
+  if (data.byteLength < 12 || fourCC(view, 0) !== "RIFF" || fourCC(view, 8) !== "sfbk") {
+    throw new Error("Not a SoundFont 2 file.");
+  }
+
+  // Top level: LIST INFO, LIST sdta, LIST pdta
+  const lists = new Map<string, Chunk[]>();
+  for (const chunk of readChunks(view, 12, Math.min(data.byteLength, 8 + view.getUint32(4, true)))) {
+    if (chunk.id !== "LIST") continue;
+    lists.set(fourCC(view, chunk.offset), readChunks(view, chunk.offset + 4, chunk.offset + chunk.size));
+  }
+  const sdta = lists.get("sdta") ?? [];
+  const pdta = new Map((lists.get("pdta") ?? []).map((c) => [c.id, c]));
+  const smpl = sdta.find((c) => c.id === "smpl");
+  const required = ["phdr", "pbag", "pgen", "inst", "ibag", "igen", "shdr"];
+  if (!smpl || required.some((id) => !pdta.has(id))) throw new Error("SoundFont is missing sample or preset data.");
+
+  const records = (id: string, size: number) => {
+    const c = pdta.get(id)!;
+    return Array.from({ length: Math.floor(c.size / size) }, (_, i) => c.offset + i * size);
+  };
+
+  const presets = records("phdr", 38).map((o) => ({
+    name: readString(view, o, 20),
+    program: view.getUint16(o + 20, true),
+    bank: view.getUint16(o + 22, true),
+    bagIndex: view.getUint16(o + 24, true),
+  }));
+  const pbags = records("pbag", 4).map((o) => view.getUint16(o, true));
+  const pgens = records("pgen", 4).map((o) => ({ oper: view.getUint16(o, true), offset: o + 2 }));
+  const insts = records("inst", 22).map((o) => ({ name: readString(view, o, 20), bagIndex: view.getUint16(o + 20, true) }));
+  const ibags = records("ibag", 4).map((o) => view.getUint16(o, true));
+  const igens = records("igen", 4).map((o) => ({ oper: view.getUint16(o, true), offset: o + 2 }));
+  const samples = records("shdr", 46).map((o) => ({
+    start: view.getUint32(o + 20, true),
+    end: view.getUint32(o + 24, true),
+    loopStart: view.getUint32(o + 28, true),
+    loopEnd: view.getUint32(o + 32, true),
+    sampleRate: view.getUint32(o + 36, true),
+    originalPitch: view.getUint8(o + 40),
+    pitchCorrection: view.getInt8(o + 41),
+    type: view.getUint16(o + 44, true),
+  }));
+
+  const genValue = (oper: number, offset: number) =>
+    oper === GEN.keyRange || oper === GEN.velRange
+      ? view.getUint8(offset) | (view.getUint8(offset + 1) << 8) // lo | hi << 8
+      : oper === GEN.instrument || oper === GEN.sampleID || oper === GEN.sampleModes
+        ? view.getUint16(offset, true)
+        : view.getInt16(offset, true);
+
+  /** Generator maps of each zone in [bagStart, bagEnd) */
+  const zonesOf = (bags: number[], gens: { oper: number; offset: number }[], bagStart: number, bagEnd: number) => {
+    const zones: Generators[] = [];
+    for (let b = bagStart; b < bagEnd && b + 1 < bags.length; b++) {
+      const g: Generators = new Map();
+      for (let i = bags[b]; i < bags[b + 1] && i < gens.length; i++) {
+        g.set(gens[i].oper, genValue(gens[i].oper, gens[i].offset));
+      }
+      zones.push(g);
+    }
+    return zones;
+  };
+
+  const range = (g: Generators, oper: number): Range => {
+    const v = g.get(oper);
+    return v === undefined ? { lo: 0, hi: 127 } : { lo: v & 0xff, hi: (v >> 8) & 0xff };
+  };
+
+  // The last phdr record is the terminal "EOP" entry
+  const real = presets.slice(0, -1);
+  if (real.length === 0) throw new Error("SoundFont has no presets.");
+  const presetIndex = real.reduce(
+    (best, p, i) => (p.bank < real[best].bank || (p.bank === real[best].bank && p.program < real[best].program) ? i : best),
+    0,
+  );
+  const preset = presets[presetIndex];
+
+  // Int16Array views need an even offset; RIFF chunks normally are, but copy if not
+  const pcmLength = Math.floor(Math.min(smpl.size, data.byteLength - smpl.offset) / 2);
+  const pcm =
+    smpl.offset % 2 === 0
+      ? new Int16Array(data, smpl.offset, pcmLength)
+      : new Int16Array(data.slice(smpl.offset, smpl.offset + pcmLength * 2));
+  const sampleCache = new Map<number, SampleData>();
+  const sampleData = (id: number, g: Generators): SampleData => {
+    const s = samples[id];
+    const start = s.start + (g.get(GEN.startAddrsOffset) ?? 0) + (g.get(GEN.startAddrsCoarseOffset) ?? 0) * 32768;
+    const end = s.end + (g.get(GEN.endAddrsOffset) ?? 0) + (g.get(GEN.endAddrsCoarseOffset) ?? 0) * 32768;
+    const loopStart =
+      s.loopStart + (g.get(GEN.startloopAddrsOffset) ?? 0) + (g.get(GEN.startloopAddrsCoarseOffset) ?? 0) * 32768;
+    const loopEnd = s.loopEnd + (g.get(GEN.endloopAddrsOffset) ?? 0) + (g.get(GEN.endloopAddrsCoarseOffset) ?? 0) * 32768;
+    // Zones with the default addresses (the usual case) share one copy of the PCM
+    const defaults = start === s.start && end === s.end && loopStart === s.loopStart && loopEnd === s.loopEnd;
+    const key = defaults ? id : -1;
+    const cached = key >= 0 ? sampleCache.get(key) : undefined;
+    if (cached) return cached;
+
+    const from = Math.max(0, Math.min(start, pcm.length));
+    const to = Math.max(from, Math.min(end, pcm.length));
+    const channel = new Float32Array(to - from);
+    for (let i = 0; i < channel.length; i++) channel[i] = pcm[from + i] / 32768;
+    const result: SampleData = {
+      channels: [channel],
+      sampleRate: s.sampleRate || 44100,
+      loopStart: Math.max(0, loopStart - from),
+      loopEnd: Math.max(0, Math.min(channel.length, loopEnd - from)),
+    };
+    if (key >= 0) sampleCache.set(key, result);
+    return result;
+  };
+
+  const presetZones = zonesOf(pbags, pgens, preset.bagIndex, presets[presetIndex + 1].bagIndex);
+  const presetGlobal = presetZones[0] && !presetZones[0].has(GEN.instrument) ? presetZones.shift()! : new Map();
+
+  const zones: SampleZone[] = [];
+  for (const pzLocal of presetZones) {
+    const pz: Generators = new Map([...presetGlobal, ...pzLocal]);
+    const instIndex = pz.get(GEN.instrument);
+    if (instIndex === undefined || instIndex + 1 >= insts.length) continue;
+
+    const instZones = zonesOf(ibags, igens, insts[instIndex].bagIndex, insts[instIndex + 1].bagIndex);
+    const instGlobal = instZones[0] && !instZones[0].has(GEN.sampleID) ? instZones.shift()! : new Map();
+
+    for (const izLocal of instZones) {
+      const iz: Generators = new Map([...instGlobal, ...izLocal]);
+      const sampleId = iz.get(GEN.sampleID);
+      if (sampleId === undefined || sampleId >= samples.length - 1) continue;
+      const sample = samples[sampleId];
+      if (sample.type === RIGHT_SAMPLE) continue;
+
+      for (const oper of ADDITIVE) {
+        const p = pz.get(oper);
+        if (p !== undefined) iz.set(oper, (iz.get(oper) ?? 0) + p);
+      }
+
+      const keys = range(pz, GEN.keyRange);
+      const ikeys = range(iz, GEN.keyRange);
+      const vels = range(pz, GEN.velRange);
+      const ivels = range(iz, GEN.velRange);
+      const root = iz.get(GEN.overridingRootKey) ?? (sample.originalPitch <= 127 ? sample.originalPitch : 60);
+      const mode = iz.get(GEN.sampleModes) ?? 0;
+      const attenuationCb = iz.get(GEN.initialAttenuation) ?? 0;
+
+      zones.push({
+        loKey: Math.max(keys.lo, ikeys.lo),
+        hiKey: Math.min(keys.hi, ikeys.hi),
+        loVel: Math.max(vels.lo, ivels.lo),
+        hiVel: Math.min(vels.hi, ivels.hi),
+        rootKey: root,
+        tuneCents: (iz.get(GEN.coarseTune) ?? 0) * 100 + (iz.get(GEN.fineTune) ?? 0) + sample.pitchCorrection,
+        sample: sampleData(sampleId, iz),
+        loop: mode === 1 || mode === 3,
+        gain: Math.pow(10, -Math.max(0, attenuationCb) / 200),
+        release: Math.pow(2, (iz.get(GEN.releaseVolEnv) ?? DEFAULT_RELEASE_TC) / 1200),
+      });
+    }
+  }
+
+  const playable = zones.filter((z) => z.loKey <= z.hiKey && z.loVel <= z.hiVel && z.sample.channels[0].length > 0);
+  if (playable.length === 0) throw new Error("SoundFont preset has no playable samples.");
+  return { name: preset.name || "SoundFont", zones: playable };
+}
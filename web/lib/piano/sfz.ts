@@ -0,0 +1,142 @@
+// ── SFZ parser ────────────────────────────────────────────────────────
+// Reads an .sfz text file plus its sample files into a SampledInstrument.
+// Supports the <control> / <global> / <master> / <group> / <region>
+// hierarchy with the opcodes a piano voice needs: sample, key ranges,
+// pitch_keycenter, velocity ranges, tune / transpose, volume, ampeg_release
+// and loop_mode / loop points.
+
+import type { SampleData, SampleZone, SampledInstrument } from "./sampled-instrument";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+type Opcodes = Record<string, string>;
+
+export interface SfzRegion {
+  /** Sample path as written in the file, default_path applied, "/" separated */
+  sample: string;
+  opcodes: Opcodes;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+const NOTE_OFFSETS: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+const DEFAULT_RELEASE_SEC = 0.3;
+
+/** SFZ key value: a MIDI number or a note name such as "c4" / "f#3" (c4 = 60). */
+function parseKey(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (Number.isFinite(n)) return n;
+  const m = /^([a-g])([#b]?)(-?\d+)$/i.exec(value.trim());
+  if (!m) return undefined;
+  const accidental = m[2] === "#" ? 1 : m[2] === "b" ? -1 : 0;
+  return NOTE_OFFSETS[m[1].toLowerCase()] + accidental + (Number(m[3]) + 1) * 12;
+}
+
+function num(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return value !== undefined && Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Uploaded samples are matched by file name: the last path segment,
+ * lower-cased, with the characters storage paths replace made "_" too.
+ */
+export function sampleFileKey(path: string) {
+  return (path.split("/").pop() ?? path).replace(/[^a-zA-Z0-9._-]/g, "_").toLowerCase();
+}
+
+// ── Parser ────────────────────────────────────────────────────────────
+
+/** The regions of an .sfz file, each with its inherited opcodes merged in. */
+export function parseSfz(text: string): SfzRegion[] {
+  const source = text.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+
+  const scopes: Record<"control" | "global" | "master" | "group", Opcodes> = {
+    control: {},
+    global: {},
+    master: {},
+    group: {},
+  };
+  const regions: SfzRegion[] = [];
+  let current: Opcodes | null = null;
+  let currentIsRegion = false;
+
+  const closeRegion = () => {
+    if (!currentIsRegion || !current) return;
+    const opcodes = { ...scopes.global, ...scopes.master, ...scopes.group, ...current };
+    if (!opcodes.sample) return;
+    const defaultPath = (scopes.control.default_path ?? "").replace(/\\/g, "/");
+    regions.push({ sample: `${defaultPath}${opcodes.sample.replace(/\\/g, "/")}`, opcodes });
+  };
+
+  // Headers and opcodes; sample paths may contain spaces, so a value runs
+  // until the next "name=" or header
+  const token = /<(\w+)>|([A-Za-z0-9_]+)=([^\n<]*?)(?=\s+[A-Za-z0-9_]+=|\s*<|\s*$)/gm;
+  for (const m of source.matchAll(token)) {
+    if (m[1]) {
+      closeRegion();
+      const header = m[1].toLowerCase();
+      currentIsRegion = header === "region";
+      if (currentIsRegion) {
+        current = {};
+      } else if (header in scopes) {
+        const scope = header as keyof typeof scopes;
+        // A new scope resets the ones below it
+        if (scope === "global") scopes.master = scopes.group = {};
+        if (scope === "master") scopes.group = {};
+        scopes[scope] = {};
+        current = scopes[scope];
+      } else {
+        current = null; // <curve>, <effect>, … are ignored
+      }
+    } else if (current) {
+      current[m[2].toLowerCase()] = m[3].trim();
+    }
+  }
+  closeRegion();
+  return regions;
+}
+
+/**
+ * Build a SampledInstrument from parsed regions and their decoded samples
+ * (keyed by `sampleFileKey`). Regions whose sample wasn't supplied are skipped.
+ */
+export function buildSfzInstrument(
+  name: string,
+  regions: SfzRegion[],
+  samples: Map<string, SampleData>,
+): SampledInstrument {
+  const zones: SampleZone[] = [];
+  for (const { sample: path, opcodes: o } of regions) {
+    const decoded = samples.get(sampleFileKey(path));
+    if (!decoded) continue;
+
+    const key = parseKey(o.key);
+    const loKey = parseKey(o.lokey) ?? key ?? 0;
+    const hiKey = parseKey(o.hikey) ?? key ?? 127;
+    const rootKey = parseKey(o.pitch_keycenter) ?? key ?? 60;
+    const loopMode = o.loop_mode ?? "";
+    const sample: SampleData =
+      o.loop_start !== undefined || o.loop_end !== undefined
+        ? { ...decoded, loopStart: num(o.loop_start, 0), loopEnd: num(o.loop_end, decoded.loopEnd) }
+        : decoded;
+
+    zones.push({
+      loKey,
+      hiKey,
+      loVel: num(o.lovel, 0),
+      hiVel: num(o.hivel, 127),
+      // transpose shifts the played pitch, so it moves the root the other way
+      rootKey: rootKey - num(o.transpose, 0),
+      tuneCents: num(o.tune, 0),
+      sample,
+      loop: loopMode === "loop_continuous" || loopMode === "loop_sustain",
+      gain: Math.pow(10, num(o.volume, 0) / 20),
+      release: num(o.ampeg_release, DEFAULT_RELEASE_SEC),
+    });
+  }
+
+  if (zones.length === 0) throw new Error("None of the SFZ's samples were uploaded with it.");
+  return { name, zones };
+}
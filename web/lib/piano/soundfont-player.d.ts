@@ -41,7 +41,7 @@ declare module "soundfont-player" {
   }
 
   function instrument(
-    ac: AudioContext,
+    ac: BaseAudioContext,
     name: string,
     options?: InstrumentOptions,
   ): Promise<Player>;
@@ -1,35 +1,48 @@
 /**
  * soundfont-player — General MIDI SoundFont adapter.
  *
- * Loads the "acoustic_grand_piano" preset from the gleitz CDN
- * (MusyngKite SoundFont). Lighter weight with decent quality,
- * good for quick A/B comparison against the other engines.
+ * Loads a GM preset from the gleitz CDN (MusyngKite SoundFont), or from the
+ * self-hosted sample mirror. `soundfontPiano` is the "acoustic_grand_piano"
+ * preset — lighter weight with decent quality, good for quick A/B
+ * comparison against the other engines. `soundfontInstrument` covers the
+ * rest of the GM set (electric piano, organ, strings, …).
  *
  * @see https://github.com/danigb/soundfont-player
  */
 
 import Soundfont, { type Player, type PlayingNode } from "soundfont-player";
 import type { PianoPlayer, PianoPlayerFactory } from "./types";
+import { recordInstrumentCached, sampleBaseUrl } from "./sample-cache";
+import type { GmInstrumentName } from "./gm";
 
-function createSoundfontPiano(audioContext: AudioContext): PianoPlayer {
+function createSoundfontInstrument(
+  name: GmInstrumentName,
+  audioContext: BaseAudioContext,
+  destination?: AudioNode,
+): PianoPlayer {
   let disposed = false;
   let instrument: Player | null = null;
   const activeNodes: PlayingNode[] = [];
 
   const loadedPromise: Promise<void> = Soundfont.instrument(
     audioContext,
-    "acoustic_grand_piano",
+    name,
+    {
+      nameToUrl: (name, _sf, format) => `${sampleBaseUrl("soundfont")}/${name}-${format}.js`,
+      destination: destination ?? audioContext.destination,
+    },
   ).then((inst) => {
     instrument = inst;
+    recordInstrumentCached("soundfont");
   });
 
   return {
     loaded: loadedPromise,
 
-    start({ note, duration, time, velocity }) {
+    start({ note, duration, time, velocity, sustain = 0 }) {
       if (disposed || !instrument) return;
       const node = instrument.play(note, time, {
-        duration,
+        duration: duration + sustain,
         gain: velocity * 5, // soundfont-player gain maps 0–1 (also give it a 5x boost to match the volume of the other pianos)
       });
       if (node) activeNodes.push(node);
@@ -65,4 +78,19 @@ function createSoundfontPiano(audioContext: AudioContext): PianoPlayer {
   };
 }
 
-export const soundfontPiano: PianoPlayerFactory = createSoundfontPiano;
+/**
+ * Factory for any GM instrument, e.g. `soundfontInstrument("violin")`.
+ * soundfont-player only schedules AudioBufferSourceNodes, so it also
+ * renders on an OfflineAudioContext.
+ */
+export function soundfontInstrument(name: GmInstrumentName): PianoPlayerFactory {
+  const factory: PianoPlayerFactory = (audioContext, destination) =>
+    createSoundfontInstrument(name, audioContext, destination);
+  factory.supportsOffline = true;
+  return factory;
+}
+
+export const soundfontPiano: PianoPlayerFactory = soundfontInstrument("acoustic_grand_piano");
+export const electricPiano: PianoPlayerFactory = soundfontInstrument("electric_piano_1");
+export const organ: PianoPlayerFactory = soundfontInstrument("drawbar_organ");
+export const strings: PianoPlayerFactory = soundfontInstrument("string_ensemble_1");
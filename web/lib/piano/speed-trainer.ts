@@ -0,0 +1,56 @@
+// ── Speed trainer ─────────────────────────────────────────────────────
+// Flowing-mode tempo ramp: play a passage repeatedly, going up a step after
+// every pass at or above the accuracy threshold and back down a step after
+// a failed one, until a pass at the target speed masters it.
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export interface SpeedTrainerConfig {
+  /** Speed of the first pass (1 = written tempo) */
+  startSpeed: number;
+  /** Speed change after each pass */
+  step: number;
+  /** A passing run at this speed ends the ramp */
+  targetSpeed: number;
+  /** Accuracy (%) a pass needs to move up */
+  passThreshold: number;
+}
+
+export type SpeedTrainerOutcome = "up" | "down" | "mastered";
+
+export interface SpeedTrainerPass {
+  speed: number;
+  accuracyPct: number;
+  outcome: SpeedTrainerOutcome;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+export const DEFAULT_SPEED_TRAINER: SpeedTrainerConfig = {
+  startSpeed: 0.6,
+  step: 0.05,
+  targetSpeed: 1,
+  passThreshold: 90,
+};
+
+/** The ramp never drops below this speed */
+const MIN_TRAINER_SPEED = 0.25;
+
+// ── Ramp ──────────────────────────────────────────────────────────────
+
+function roundSpeed(speed: number) {
+  return Math.round(speed * 100) / 100;
+}
+
+/** Outcome of a pass and the speed of the next one (null once mastered). */
+export function nextTrainerSpeed(
+  config: SpeedTrainerConfig,
+  speed: number,
+  accuracyPct: number,
+): { outcome: SpeedTrainerOutcome; nextSpeed: number | null } {
+  if (accuracyPct >= config.passThreshold) {
+    if (speed >= config.targetSpeed - 0.001) return { outcome: "mastered", nextSpeed: null };
+    return { outcome: "up", nextSpeed: roundSpeed(Math.min(config.targetSpeed, speed + config.step)) };
+  }
+  return { outcome: "down", nextSpeed: roundSpeed(Math.max(MIN_TRAINER_SPEED, speed - config.step)) };
+}
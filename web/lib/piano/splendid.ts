@@ -1,27 +1,33 @@
 /**
  * Splendid Grand Piano — smplr SoundFont adapter.
  *
- * Loads a multi-velocity-layer SoundFont from the smplr built-in CDN,
- * producing a richer, more realistic piano tone than sparse samples.
+ * Loads a multi-velocity-layer SoundFont from the smplr sample CDN (or the
+ * self-hosted sample mirror), producing a richer, more realistic piano tone than sparse samples.
  */
 
-import { SplendidGrandPiano, Reverb } from "smplr";
+import { SplendidGrandPiano } from "smplr";
 import type { PianoPlayer, PianoPlayerFactory } from "./types";
+import { recordInstrumentCached, sampleBaseUrl } from "./sample-cache";
 
-function createSplendidPiano(audioContext: AudioContext): PianoPlayer {
+function createSplendidPiano(audioContext: BaseAudioContext, destination?: AudioNode): PianoPlayer {
   let disposed = false;
-  const piano = new SplendidGrandPiano(audioContext);
+  const piano = new SplendidGrandPiano(audioContext, {
+    baseUrl: sampleBaseUrl("splendid"),
+    destination: destination ?? audioContext.destination,
+  });
 
   return {
-    loaded: piano.load.then(() => {}),
+    loaded: piano.load.then(() => {
+      recordInstrumentCached("splendid");
+    }),
 
-    start({ note, duration, time, velocity }) {
+    start({ note, duration, time, velocity, sustain = 0 }) {
       if (disposed) return;
       // smplr expects velocity in 0–127 MIDI range; our interface uses 0–1.
       piano.start({
         note,
         time,
-        duration,
+        duration: duration + sustain,
         velocity: Math.round(velocity * 127),
       });
     },
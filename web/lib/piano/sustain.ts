@@ -0,0 +1,95 @@
+// ── Sustain pedal ─────────────────────────────────────────────────────
+// CC64 pedal-down spans read from the file, in player time (LEAD_IN_SEC
+// included). A note whose key is released while the pedal is down keeps
+// ringing until the pedal lifts.
+
+import type { Midi } from "@tonejs/midi";
+import { LEAD_IN_SEC } from "./timeline";
+
+/** MIDI controller number of the sustain (damper) pedal */
+export const SUSTAIN_CC = 64;
+
+/** Normalised CC64 value at or above which the pedal counts as down (64 / 127) */
+const PEDAL_DOWN_VALUE = 64 / 127;
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export interface PedalSpan {
+  /** Player time the pedal went down */
+  start: number;
+  /** Player time the pedal lifted */
+  end: number;
+}
+
+// ── Builders ──────────────────────────────────────────────────────────
+
+/**
+ * Pedal spans for every track, indexed like `midi.tracks`. A pedal still
+ * down at the end of the file is lifted when the file ends.
+ */
+export function pedalSpansByTrack(midi: Midi): PedalSpan[][] {
+  const fileEnd = midi.duration + LEAD_IN_SEC;
+
+  return midi.tracks.map((track) => {
+    const events = [...(track.controlChanges[SUSTAIN_CC] ?? [])].sort((a, b) => a.ticks - b.ticks);
+    const spans: PedalSpan[] = [];
+    let downAt: number | null = null;
+
+    for (const event of events) {
+      const time = event.time + LEAD_IN_SEC;
+      const down = event.value >= PEDAL_DOWN_VALUE;
+      if (down && downAt === null) {
+        downAt = time;
+      } else if (!down && downAt !== null) {
+        if (time > downAt) spans.push({ start: downAt, end: time });
+        downAt = null;
+      }
+    }
+    if (downAt !== null && fileEnd > downAt) spans.push({ start: downAt, end: fileEnd });
+
+    return spans;
+  });
+}
+
+/** Union of several tracks' spans, sorted and with overlaps merged (for drawing). */
+export function mergePedalSpans(byTrack: PedalSpan[][]): PedalSpan[] {
+  const all = byTrack.flat().sort((a, b) => a.start - b.start);
+  const merged: PedalSpan[] = [];
+  for (const span of all) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+// ── Lookup ────────────────────────────────────────────────────────────
+
+/** The span the pedal is down in at `time`, or null. Spans must not overlap. */
+export function pedalSpanAt(spans: PedalSpan[], time: number): PedalSpan | null {
+  let lo = 0;
+  let hi = spans.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (spans[mid].start > time) {
+      hi = mid - 1;
+    } else if (spans[mid].end <= time) {
+      lo = mid + 1;
+    } else {
+      return spans[mid];
+    }
+  }
+  return null;
+}
+
+/**
+ * Extra seconds a note ending at `noteEnd` rings because the pedal is
+ * down when its key is released (0 when the pedal is up).
+ */
+export function pedalSustain(spans: PedalSpan[], noteEnd: number): number {
+  const span = pedalSpanAt(spans, noteEnd);
+  return span ? span.end - noteEnd : 0;
+}
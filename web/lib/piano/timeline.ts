@@ -0,0 +1,18 @@
+// ── Player timeline ───────────────────────────────────────────────────
+// The player's time base and note shape, shared by useMidiPlayer and the
+// lib modules that work in player time (beat grid, sustain, notation,
+// rendering), so they don't depend on the hook.
+
+/** Seconds of silence prepended so the user can prepare before notes begin. */
+export const LEAD_IN_SEC = 1;
+
+export interface NoteEvent {
+  time: number;
+  duration: number;
+  midi: number;
+  name: string;
+  velocity: number;
+  track: number;
+  /** Extra seconds the note rings after key release because the sustain pedal is down */
+  sustain?: number;
+}
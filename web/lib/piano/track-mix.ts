@@ -0,0 +1,40 @@
+// ── Track mix ─────────────────────────────────────────────────────────
+// Per-track mixer settings (mute, solo, gain, instrument), shared by live
+// playback in useMidiPlayer and the offline renders, so exports sound like
+// what the mixer plays.
+
+import type { TrackInstrument } from "./gm";
+
+export interface TrackMix {
+  /** Index into `midi.tracks` (matches `NoteEvent.track`) */
+  index: number;
+  name: string;
+  noteCount: number;
+  muted: boolean;
+  solo: boolean;
+  /** Linear gain 0 – 1 of the track's fader (offline renders scale note velocities by it) */
+  gain: number;
+  /** GM program from the track's program change (0 – 127) */
+  program: number;
+  /** Instrument the program maps to */
+  autoInstrument: TrackInstrument;
+  /** Instrument picked in the mixer instead (null = follow the file) */
+  instrumentOverride: TrackInstrument | null;
+}
+
+/** The instrument a track currently plays on. */
+export function trackInstrument(track: TrackMix): TrackInstrument {
+  return track.instrumentOverride ?? track.autoInstrument;
+}
+
+/**
+ * Effective mixer level for a track: 0 when muted or when another track is
+ * soloed, otherwise the track's gain. Unknown tracks play at full level.
+ */
+export function trackLevel(tracks: TrackMix[], index: number): number {
+  const entry = tracks.find((t) => t.index === index);
+  if (!entry) return 1;
+  if (entry.muted) return 0;
+  if (tracks.some((t) => t.solo) && !entry.solo) return 0;
+  return entry.gain;
+}
@@ -15,6 +15,11 @@ export interface NoteStartOptions {
   time?: number;
   /** Velocity normalised to 0 – 1 (matching @tonejs/midi output) */
   velocity: number;
+  /**
+   * Extra seconds the note keeps ringing after its key is released, because
+   * the sustain pedal (CC64) is down. Adapters extend the release by this much.
+   */
+  sustain?: number;
 }
 
 export interface PianoPlayer {
@@ -32,7 +37,16 @@ export interface PianoPlayer {
 }
 
 /**
- * A factory that creates a PianoPlayer given a Web Audio AudioContext.
+ * A factory that creates a PianoPlayer given a Web Audio context.
  * Pass one of these to useMidiPlayer to choose the sound engine.
+ * Players connect their output to `destination` (the master bus), or to
+ * the context's speakers when none is given.
  */
-export type PianoPlayerFactory = (audioContext: AudioContext) => PianoPlayer;
+export type PianoPlayerFactory = {
+  (audioContext: BaseAudioContext, destination?: AudioNode): PianoPlayer;
+  /**
+   * Set when the players only use plain Web Audio nodes and so can also be
+   * created on an OfflineAudioContext (video export renders with them).
+   */
+  supportsOffline?: boolean;
+};
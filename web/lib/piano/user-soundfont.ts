@@ -0,0 +1,77 @@
+// ── User SoundFonts ───────────────────────────────────────────────────
+// Turns an uploaded .sf2, or an .sfz with its sample files, into a piano
+// voice. Used to check files before they're stored and to rebuild the voice
+// from storage.
+
+import { parseSf2 } from "./sf2";
+import { buildSfzInstrument, parseSfz, sampleFileKey } from "./sfz";
+import { sampledInstrumentFactory, type SampleData } from "./sampled-instrument";
+import type { PianoPlayerFactory } from "./types";
+
+export type SoundfontFormat = "sf2" | "sfz";
+
+export interface SoundfontFiles {
+  format: SoundfontFormat;
+  main: File;
+  samples: File[];
+}
+
+const SAMPLE_EXTENSIONS = [".wav", ".ogg", ".flac", ".mp3"];
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf(".")).toLowerCase();
+
+/**
+ * Sort a file selection into a SoundFont upload: one .sf2 on its own, or
+ * one .sfz plus its samples. Returns an error message when it's neither.
+ */
+export function classifySoundfontFiles(files: File[]): SoundfontFiles | string {
+  const sf2 = files.filter((f) => extensionOf(f.name) === ".sf2");
+  const sfz = files.filter((f) => extensionOf(f.name) === ".sfz");
+  const samples = files.filter((f) => SAMPLE_EXTENSIONS.includes(extensionOf(f.name)));
+
+  if (sf2.length === 1 && files.length === 1) return { format: "sf2", main: sf2[0], samples: [] };
+  if (sfz.length === 1 && sf2.length === 0) {
+    if (samples.length === 0) return "Select the .sfz together with its sample files (.wav, .ogg, .flac, .mp3).";
+    return { format: "sfz", main: sfz[0], samples };
+  }
+  return "Choose a single .sf2 file, or one .sfz file with its samples.";
+}
+
+/** Decode an audio file into SampleData (no loop points). */
+async function decodeSample(blob: Blob): Promise<SampleData> {
+  // decodeAudioData doesn't render, so a one-frame offline context is enough
+  const context = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+  return {
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch)),
+    sampleRate: buffer.sampleRate,
+    loopStart: 0,
+    loopEnd: 0,
+  };
+}
+
+/**
+ * Parse a SoundFont and return a factory for it. `samples` are the .sfz's
+ * sample files with their names (ignored for .sf2). Throws on unusable files.
+ */
+export async function soundfontFactory(
+  format: SoundfontFormat,
+  name: string,
+  main: Blob,
+  samples: { name: string; blob: Blob }[] = [],
+): Promise<PianoPlayerFactory> {
+  if (format === "sf2") {
+    const instrument = parseSf2(await main.arrayBuffer());
+    return sampledInstrumentFactory({ ...instrument, name });
+  }
+
+  const regions = parseSfz(await main.text());
+  const wanted = new Set(regions.map((r) => sampleFileKey(r.sample)));
+  const decoded = new Map<string, SampleData>();
+  await Promise.all(
+    samples
+      .filter((s) => wanted.has(sampleFileKey(s.name)))
+      .map(async (s) => decoded.set(sampleFileKey(s.name), await decodeSample(s.blob))),
+  );
+  return sampledInstrumentFactory(buildSfzInstrument(name, regions, decoded));
+}
@@ -0,0 +1,45 @@
+// Piano sample cache — serves instrument samples cache-first from Cache
+// Storage so pianos that have loaded once keep working offline. The URL
+// prefixes to cache are passed as ?prefix=… by registerSampleCache()
+// (lib/piano/sample-cache.ts); every other request goes to the network.
+
+// Must match CACHE_NAME in lib/piano/sample-cache.ts
+const CACHE_NAME = "piano-samples-v1";
+const PREFIXES = new URL(self.location.href).searchParams.getAll("prefix");
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      // Drop caches from older versions of this worker
+      const names = await caches.keys();
+      await Promise.all(
+        names.filter((n) => n.startsWith("piano-samples-") && n !== CACHE_NAME).map((n) => caches.delete(n)),
+      );
+      await self.clients.claim();
+    })(),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || !PREFIXES.some((p) => request.url.startsWith(p))) return;
+
+  event.respondWith(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      const cached = await cache.match(request, { ignoreVary: true });
+      if (cached) return cached;
+
+      const response = await fetch(request);
+      // Opaque responses can't be checked or measured, so only keep real successes
+      if (response.ok && response.type !== "opaque") {
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })(),
+  );
+});
@@ -0,0 +1,35 @@
+-- Practice run history, one row per completed or reset practice run.
+
+create table if not exists public.practice_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  score_id uuid not null references public.scores (id) on delete cascade,
+  created_at timestamptz not null default now(),
+
+  mode text not null check (mode in ('discrete', 'continuous', 'flowing')),
+  playback_speed real not null default 1,
+  completed boolean not null default false,
+
+  accuracy_pct real not null,
+  avg_timing_offset_ms real,
+  rating_breakdown jsonb not null default '{}'::jsonb,
+  summary jsonb not null,
+  session_log jsonb not null default '[]'::jsonb
+);
+
+create index if not exists practice_sessions_user_score_idx
+  on public.practice_sessions (user_id, score_id, created_at);
+
+alter table public.practice_sessions enable row level security;
+
+create policy "Users can read their own practice sessions"
+  on public.practice_sessions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own practice sessions"
+  on public.practice_sessions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own practice sessions"
+  on public.practice_sessions for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,4 @@
+-- Original upload (e.g. MusicXML) kept alongside the converted MIDI in file_url.
+
+alter table public.scores
+  add column if not exists source_file_url text;
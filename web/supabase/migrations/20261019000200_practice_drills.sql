@@ -0,0 +1,45 @@
+-- Drill segments cut from practice hotspots, scheduled with SM-2 spaced repetition.
+
+create table if not exists public.practice_drills (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  score_id uuid not null references public.scores (id) on delete cascade,
+  created_at timestamptz not null default now(),
+
+  -- Passage in player time (ms, lead-in included)
+  start_ms integer not null,
+  end_ms integer not null check (end_ms > start_ms),
+  label text not null,
+  playback_speed real not null default 0.75,
+
+  -- SM-2 state
+  ease real not null default 2.5,
+  interval_days integer not null default 0,
+  repetitions integer not null default 0,
+  due_at timestamptz not null default now(),
+  last_accuracy_pct real,
+  last_practised_at timestamptz,
+
+  unique (user_id, score_id, start_ms)
+);
+
+create index if not exists practice_drills_user_due_idx
+  on public.practice_drills (user_id, due_at);
+
+alter table public.practice_drills enable row level security;
+
+create policy "Users can read their own drills"
+  on public.practice_drills for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own drills"
+  on public.practice_drills for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own drills"
+  on public.practice_drills for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own drills"
+  on public.practice_drills for delete
+  using (auth.uid() = user_id);
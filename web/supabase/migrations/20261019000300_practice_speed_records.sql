@@ -0,0 +1,24 @@
+-- Highest speed-trainer speed mastered per user and score.
+
+create table if not exists public.practice_speed_records (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  score_id uuid not null references public.scores (id) on delete cascade,
+  best_speed real not null check (best_speed > 0),
+  updated_at timestamptz not null default now(),
+
+  primary key (user_id, score_id)
+);
+
+alter table public.practice_speed_records enable row level security;
+
+create policy "Users can read their own speed records"
+  on public.practice_speed_records for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own speed records"
+  on public.practice_speed_records for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own speed records"
+  on public.practice_speed_records for update
+  using (auth.uid() = user_id);
@@ -0,0 +1,47 @@
+-- SoundFonts (.sf2, or .sfz with its samples) uploaded by a user as a piano voice.
+-- Files live in the private `soundfonts` bucket under <user id>/<soundfont id>/.
+
+create table if not exists public.user_soundfonts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  name text not null,
+  format text not null check (format in ('sf2', 'sfz')),
+  -- Storage path of the .sf2 / .sfz file
+  main_path text not null,
+  -- Storage paths of the .sfz's sample files (empty for .sf2)
+  sample_paths text[] not null default '{}',
+  size_bytes bigint not null default 0
+);
+
+alter table public.user_soundfonts enable row level security;
+
+create policy "Users can read their own soundfonts"
+  on public.user_soundfonts for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own soundfonts"
+  on public.user_soundfonts for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own soundfonts"
+  on public.user_soundfonts for delete
+  using (auth.uid() = user_id);
+
+-- Storage
+
+insert into storage.buckets (id, name, public)
+values ('soundfonts', 'soundfonts', false)
+on conflict (id) do nothing;
+
+create policy "Users can read their own soundfont files"
+  on storage.objects for select
+  using (bucket_id = 'soundfonts' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own soundfont files"
+  on storage.objects for insert
+  with check (bucket_id = 'soundfonts' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own soundfont files"
+  on storage.objects for delete
+  using (bucket_id = 'soundfonts' and (storage.foldername(name))[1] = auth.uid()::text);